@@ -0,0 +1,216 @@
+// Runs the golden SMS corpus against the parsing engine in plain Node.
+// Usage: npm run test:parser [-- --verbose]
+
+import { SMSParsingEngine, ParsedTransaction, normalizeMerchantKey, normalizeSenderKey } from '../src/services/smsParsingEngine';
+import { SMS_CORPUS, SMSFixture, SMSFixtureExpectation } from '../src/services/__fixtures__/smsCorpus';
+import { DEFAULT_CATEGORIES } from '../src/database/defaultCategories';
+
+type Field = 'decision' | keyof SMSFixtureExpectation;
+
+const FIELDS: Field[] = ['decision', 'amount', 'currency', 'type', 'merchant', 'category', 'balance', 'reference', 'charges', 'status', 'date', 'loan', 'loanDueDate'];
+const OPTIONAL_FIELDS: Field[] = ['balance', 'reference', 'charges', 'status', 'date', 'loan', 'loanDueDate'];
+const DEFAULT_RECEIVED_AT = '2024-06-01T10:00:00Z';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Local "YYYY-MM-DD HH:mm", cut to the precision the fixture asks for
+const formatLocalDate = (iso: string, length: number): string => {
+  const date = new Date(iso);
+  const formatted = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  return formatted.slice(0, length);
+};
+
+interface FixtureResult {
+  fixture: SMSFixture;
+  mismatches: string[];
+}
+
+const verbose = process.argv.includes('--verbose');
+
+const createEngine = (): SMSParsingEngine => {
+  const createdAt = new Date().toISOString();
+  return new SMSParsingEngine({
+    categories: DEFAULT_CATEGORIES.map((category, index) => ({
+      ...category,
+      id: `cat_${index}`,
+      createdAt
+    }))
+  });
+};
+
+const expectationsFor = (fixture: SMSFixture): SMSFixtureExpectation[] =>
+  fixture.expected === null ? [] : Array.isArray(fixture.expected) ? fixture.expected : [fixture.expected];
+
+const merchantOverridesFor = (fixture: SMSFixture) => {
+  const createdAt = new Date().toISOString();
+  return Object.entries(fixture.merchantCategories || {}).map(([merchant, category], index) => ({
+    id: `override_${index}`,
+    merchantKey: normalizeMerchantKey(merchant),
+    merchant,
+    type: expectationsFor(fixture)[0]?.type || 'expense' as const,
+    category,
+    createdAt,
+    updatedAt: createdAt
+  }));
+};
+
+const merchantsFor = (fixture: SMSFixture) => {
+  const createdAt = new Date().toISOString();
+  return (fixture.merchants || []).map((merchant, index) => ({
+    id: `merchant_${index}`,
+    name: merchant.name,
+    aliases: merchant.aliases || [],
+    patterns: merchant.patterns || [],
+    defaultCategory: merchant.defaultCategory,
+    createdAt,
+    updatedAt: createdAt
+  }));
+};
+
+const sendersFor = (fixture: SMSFixture) => {
+  if (!fixture.senderMode) return [];
+
+  const createdAt = new Date().toISOString();
+  return [{
+    id: 'sender_0',
+    sender: fixture.sender,
+    senderKey: normalizeSenderKey(fixture.sender),
+    mode: fixture.senderMode,
+    createdAt,
+    updatedAt: createdAt
+  }];
+};
+
+const compareField = (field: Field, expected: SMSFixtureExpectation, actual: ParsedTransaction): string | null => {
+  if (field === 'decision') return null;
+
+  const expectedValue = expected[field];
+  const actualValue = field === 'merchant'
+    ? (actual.merchant ?? null)
+    : field === 'charges'
+      ? (actual.charges || []).reduce((total, charge) => total + charge.amount, 0)
+      : field === 'date'
+        ? formatLocalDate(actual.date, (expectedValue as string).length)
+        : field === 'loan'
+          ? actual.loan?.event
+          : field === 'loanDueDate'
+            ? (actual.loan?.dueDate && formatLocalDate(actual.loan.dueDate, 10))
+            : actual[field];
+
+  if (field === 'amount' || field === 'balance' || field === 'charges') {
+    return actualValue !== undefined && Math.abs((actualValue as number) - (expectedValue as number)) < 0.005
+      ? null
+      : `${field}: expected ${expectedValue}, got ${actualValue}`;
+  }
+
+  return actualValue === expectedValue
+    ? null
+    : `${field}: expected ${JSON.stringify(expectedValue)}, got ${JSON.stringify(actualValue)}`;
+};
+
+const run = async (): Promise<number> => {
+  const engine = createEngine();
+  const passedByField: {[field: string]: number} = {};
+  const totalByField: {[field: string]: number} = {};
+  const results: FixtureResult[] = [];
+  FIELDS.forEach(field => {
+    passedByField[field] = 0;
+    totalByField[field] = 0;
+  });
+
+  // The engine logs every step; keep the report readable
+  const log = console.log;
+  if (!verbose) console.log = () => {};
+
+  for (const fixture of SMS_CORPUS) {
+    engine.setParsingData({ merchantOverrides: merchantOverridesFor(fixture), merchants: merchantsFor(fixture), senders: sendersFor(fixture) });
+    const { transactions, trace, candidates = [] } = await engine.parseMessageWithTrace(fixture.message, fixture.sender, new Date(fixture.receivedAt || DEFAULT_RECEIVED_AT));
+    const expectations = expectationsFor(fixture);
+    const mismatches: string[] = [];
+
+    totalByField.decision++;
+    const shouldParse = expectations.length > 0;
+    const isQuarantined = trace.outcome === 'quarantined';
+    const isReview = trace.outcome === 'review' && transactions.length === 0;
+    // Review items are checked like recorded transactions
+    const parsed = fixture.review ? (isReview ? candidates : []) : transactions;
+    if (shouldParse === (parsed.length > 0) && !!fixture.quarantined === isQuarantined && (!fixture.review || isReview)) {
+      passedByField.decision++;
+    } else {
+      const outcome = transactions.length > 0 ? 'parse' : isQuarantined ? 'quarantine' : isReview ? 'review' : 'reject';
+      const expectedOutcome = fixture.quarantined ? 'quarantine' : fixture.review ? 'review' : shouldParse ? 'parse' : 'reject';
+      mismatches.push(`decision: expected ${expectedOutcome}, got ${outcome} (${trace.reason})`);
+    }
+    if (shouldParse && parsed.length > 0 && parsed.length !== expectations.length) {
+      mismatches.push(`count: expected ${expectations.length} transactions, got ${parsed.length}`);
+    }
+
+    expectations.forEach((expected, index) => {
+      const transaction = parsed[index];
+      if (!transaction) return;
+
+      // Digest entries are reported by position
+      const prefix = expectations.length > 1 ? `#${index + 1} ` : '';
+      for (const field of FIELDS.slice(1)) {
+        if (OPTIONAL_FIELDS.includes(field) && expected[field as keyof SMSFixtureExpectation] === undefined) {
+          continue;
+        }
+        totalByField[field]++;
+        const mismatch = compareField(field, expected, transaction);
+        if (mismatch) {
+          mismatches.push(prefix + mismatch);
+        } else {
+          passedByField[field]++;
+        }
+      }
+    });
+
+    results.push({ fixture, mismatches });
+  }
+
+  console.log = log;
+
+  console.log(`\nSMS parser corpus: ${SMS_CORPUS.length} fixtures\n`);
+  console.log('Field accuracy:');
+  for (const field of FIELDS) {
+    const total = totalByField[field];
+    const accuracy = total > 0 ? (passedByField[field] / total * 100).toFixed(1) : '-';
+    console.log(`  ${field.padEnd(10)} ${String(passedByField[field]).padStart(3)}/${String(total).padEnd(3)} ${accuracy}%`);
+  }
+
+  const regressions = results.filter(result => result.mismatches.length > 0 && !result.fixture.pending);
+  const stillPending = results.filter(result => result.mismatches.length > 0 && result.fixture.pending);
+  const nowPassing = results.filter(result => result.mismatches.length === 0 && result.fixture.pending);
+
+  if (stillPending.length > 0) {
+    console.log(`\nPending (${stillPending.length}):`);
+    stillPending.forEach(({ fixture, mismatches }) => {
+      console.log(`  ~ ${fixture.id} [${fixture.region}] ${fixture.pending}`);
+      mismatches.forEach(mismatch => console.log(`      ${mismatch}`));
+    });
+  }
+
+  if (nowPassing.length > 0) {
+    console.log(`\nPending fixtures now passing, remove their "pending" note (${nowPassing.length}):`);
+    nowPassing.forEach(({ fixture }) => console.log(`  + ${fixture.id}`));
+  }
+
+  if (regressions.length > 0) {
+    console.log(`\nFailures (${regressions.length}):`);
+    regressions.forEach(({ fixture, mismatches }) => {
+      console.log(`  ✗ ${fixture.id} [${fixture.region}]`);
+      mismatches.forEach(mismatch => console.log(`      ${mismatch}`));
+    });
+    return 1;
+  }
+
+  console.log(`\nNo regressions (${results.length - stillPending.length} passed, ${stillPending.length} pending).`);
+  return 0;
+};
+
+run()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Parser corpus run failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,135 @@
+// Runs the fixture checks for the pure service helpers in plain Node.
+// Usage: npm run test:services
+
+import { validateRulePack, compareSample, findInstalledRule } from '../src/services/rulePacks';
+import { compareCandidate } from '../src/services/crossSourceMatch';
+import { isSettled, summariseLoan } from '../src/services/loanBalance';
+import { displayType, isCountedTransfer, transferRoute } from '../src/services/transferKinds';
+import type { Loan } from '../src/database/schema';
+import type { ParsedTransaction } from '../src/services/smsParsingEngine';
+import { RULE_PACK_VALIDATION, RULE_PACK_SAMPLES, INSTALLED_RULES } from '../src/services/__fixtures__/rulePacks';
+import { CROSS_SOURCE_MATCHES } from '../src/services/__fixtures__/crossSourceMatches';
+import { LOAN_LIFECYCLES } from '../src/services/__fixtures__/loans';
+import { TRANSFER_TRANSACTIONS, TRANSFER_FILTERS, TRANSFER_BREAKDOWN } from '../src/services/__fixtures__/transfers';
+
+interface CheckResult {
+  section: string;
+  id: string;
+  mismatches: string[];
+}
+
+const results: CheckResult[] = [];
+const check = (section: string, id: string, run: () => string[]) => {
+  try {
+    results.push({ section, id, mismatches: run() });
+  } catch (error) {
+    results.push({ section, id, mismatches: [`threw: ${(error as Error).message}`] });
+  }
+};
+
+const expect = (label: string, expected: unknown, actual: unknown): string[] =>
+  JSON.stringify(expected) === JSON.stringify(actual)
+    ? []
+    : [`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+
+const parsedTransaction = (fields: Partial<ParsedTransaction> & { amount: number }): ParsedTransaction => ({
+  currency: 'GHS',
+  description: '',
+  type: 'expense',
+  category: 'Other Expense',
+  date: '2024-06-01T10:00:00.000Z',
+  rawMessage: '',
+  ...fields
+});
+
+for (const fixture of RULE_PACK_VALIDATION) {
+  check('rule pack validation', fixture.id, () => {
+    let error: string | null = null;
+    try {
+      validateRulePack(fixture.pack);
+    } catch (thrown) {
+      error = (thrown as Error).message;
+    }
+    if (fixture.error === null) return expect('error', null, error);
+    return error?.includes(fixture.error) ? [] : [`error: expected "${fixture.error}", got ${JSON.stringify(error)}`];
+  });
+}
+
+for (const fixture of RULE_PACK_SAMPLES) {
+  check('rule pack samples', fixture.id, () => {
+    const fields = compareSample(fixture.expected, parsedTransaction(fixture.actual)).map(mismatch => mismatch.split(':')[0]);
+    return expect('mismatches', fixture.mismatches, fields);
+  });
+}
+
+for (const fixture of INSTALLED_RULES) {
+  check('installed rules', fixture.id, () =>
+    expect('duplicate of', fixture.duplicateOf, findInstalledRule(fixture.installed, fixture.rule)?.id ?? null)
+  );
+}
+
+for (const fixture of CROSS_SOURCE_MATCHES) {
+  check('cross-source matches', fixture.id, () =>
+    expect('matched on', fixture.matchedOn, compareCandidate(parsedTransaction(fixture.incoming), fixture.recorded)?.matchedOn ?? null)
+  );
+}
+
+for (const fixture of LOAN_LIFECYCLES) {
+  check('loans', fixture.id, () => {
+    // Mirrors loanService: repayments sum into repaid, the latest SMS sets the quoted balance,
+    // and a loan with nothing outstanding is marked repaid
+    let loan: Loan & { repaid: number; repaymentCount: number } =
+      { ...fixture.loan, status: 'active', createdAt: '', updatedAt: '', repaid: 0, repaymentCount: 0 };
+    const mismatches = expect('opening outstanding', fixture.openingOutstanding, summariseLoan(loan).outstanding);
+
+    fixture.repayments.forEach((step, index) => {
+      loan = { ...loan, repaid: loan.repaid + step.amount, repaymentCount: loan.repaymentCount + 1, reportedOutstanding: step.reportedOutstanding };
+      const settled = isSettled(summariseLoan(loan));
+      if (settled) loan = { ...loan, status: 'repaid' };
+
+      const summary = summariseLoan(loan);
+      const actual = {
+        outstanding: summary.outstanding,
+        interestPaid: summary.interestPaid,
+        ...(summary.nextDueDate ? { nextDueDate: summary.nextDueDate } : {}),
+        settled
+      };
+      mismatches.push(...expect(`after repayment ${index + 1}`, step.expected, actual));
+    });
+    return mismatches;
+  });
+}
+
+for (const fixture of TRANSFER_FILTERS) {
+  check('transfers', `${fixture.type}-filter`, () =>
+    expect('listed', fixture.listed, TRANSFER_TRANSACTIONS.filter(t => displayType(t) === fixture.type).map(t => t.id))
+  );
+}
+
+check('transfers', 'transfer-breakdown', () => {
+  const breakdown = TRANSFER_TRANSACTIONS.filter(isCountedTransfer).map(t => {
+    const route = transferRoute(t, TRANSFER_TRANSACTIONS);
+    return { route: `${route.fromAccount} → ${route.toAccount}`, amount: t.amount };
+  });
+  return expect('breakdown', TRANSFER_BREAKDOWN, breakdown);
+});
+
+const sections = [...new Set(results.map(result => result.section))];
+console.log(`\nService checks: ${results.length} checks\n`);
+for (const section of sections) {
+  const inSection = results.filter(result => result.section === section);
+  const passed = inSection.filter(result => result.mismatches.length === 0).length;
+  console.log(`  ${section.padEnd(28)} ${String(passed).padStart(3)}/${inSection.length}`);
+}
+
+const failures = results.filter(result => result.mismatches.length > 0);
+if (failures.length > 0) {
+  console.log(`\nFailures (${failures.length}):`);
+  failures.forEach(({ section, id, mismatches }) => {
+    console.log(`  ✗ ${id} [${section}]`);
+    mismatches.forEach(mismatch => console.log(`      ${mismatch}`));
+  });
+  process.exit(1);
+}
+
+console.log(`\nNo regressions (${results.length} passed).`);
@@ -12,26 +12,35 @@ import {
   Platform,
 } from 'react-native';
 import { LinearGradient as ExpoLinearGradient } from 'expo-linear-gradient';
-import { databaseService, Category } from '../database/schema';
+import { databaseService, Category, Account, TransactionType } from '../database/schema';
 import { smsListenerService } from '../services/smsListener';
+import { accountService } from '../services/accountService';
+import { transferService } from '../services/transferService';
+import { ParseTrace } from '../services/smsParser';
+import { ParseTraceModal } from './ParseTraceModal';
 import { useAppContext } from '../context/AppContext';
 
 export const AddTransactionModal: React.FC = () => {
-  const { refreshData } = useAppContext();
+  const { state, refreshData } = useAppContext();
   const [modalVisible, setModalVisible] = useState(false);
   const [testModalVisible, setTestModalVisible] = useState(false);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
   
   // Form state
   const [amount, setAmount] = useState('');
   const [description, setDescription] = useState('');
   const [category, setCategory] = useState('');
-  const [type, setType] = useState<'income' | 'expense'>('expense');
+  const [type, setType] = useState<TransactionType>('expense');
   const [merchant, setMerchant] = useState('');
+  const [fromAccountId, setFromAccountId] = useState('');
+  const [toAccountId, setToAccountId] = useState('');
   
   // Test SMS state
   const [testSMS, setTestSMS] = useState('');
   const [testSender, setTestSender] = useState('TEST-BANK');
+  const [testTrace, setTestTrace] = useState<ParseTrace | null>(null);
+  const [testTraceVisible, setTestTraceVisible] = useState(false);
   
   // SMS History state
   const [historyModalVisible, setHistoryModalVisible] = useState(false);
@@ -47,8 +56,17 @@ export const AddTransactionModal: React.FC = () => {
 
   useEffect(() => {
     loadCategories();
+    loadAccounts();
   }, []);
 
+  const loadAccounts = async () => {
+    try {
+      setAccounts(await accountService.getAccounts());
+    } catch (error) {
+      console.error('Failed to load accounts:', error);
+    }
+  };
+
   const loadCategories = async () => {
     try {
       await databaseService.init();
@@ -97,9 +115,47 @@ export const AddTransactionModal: React.FC = () => {
     setCategory('');
     setType('expense');
     setMerchant('');
+    setFromAccountId('');
+    setToAccountId('');
+  };
+
+  const addTransfer = async () => {
+    if (!amount || !description || !fromAccountId || !toAccountId) {
+      Alert.alert('Error', 'Please fill in all required fields');
+      return;
+    }
+    if (fromAccountId === toAccountId) {
+      Alert.alert('Error', 'Choose two different accounts');
+      return;
+    }
+
+    try {
+      // The currency the bank reports the source account in, otherwise the display currency
+      const snapshot = await accountService.getLatestSnapshot(fromAccountId);
+      await transferService.createTransfer({
+        amount: parseFloat(amount),
+        currency: snapshot?.currency || state.userPreferences?.displayCurrency || 'GHS',
+        fromAccountId,
+        toAccountId,
+        description,
+        date: new Date().toISOString()
+      });
+
+      resetForm();
+      setModalVisible(false);
+      await refreshData();
+      Alert.alert('Success', 'Transfer added successfully');
+    } catch (error) {
+      console.error('Failed to add transfer:', error);
+      Alert.alert('Failed to Add Transfer', (error as Error).message);
+    }
   };
 
   const addTransaction = async () => {
+    if (type === 'transfer') {
+      await addTransfer();
+      return;
+    }
     if (!amount || !description || !category) {
       Alert.alert('Error', 'Please fill in all required fields');
       return;
@@ -130,10 +186,42 @@ export const AddTransactionModal: React.FC = () => {
     }
   };
 
-  const getFilteredCategories = (type: 'income' | 'expense') => {
+  const getFilteredCategories = (type: TransactionType) => {
     return categories.filter(cat => cat.type === type);
   };
 
+  // Transfers move money between accounts the user already has, so only those can be picked
+  const renderAccountField = (label: string, value: string, setValue: (accountId: string) => void) => (
+    <View style={styles.inputGroup}>
+      <Text style={styles.inputLabel}>{label}</Text>
+      {accounts.length > 0 ? (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={styles.categoryContainer}>
+            {accounts.map((account) => (
+              <TouchableOpacity
+                key={account.id}
+                style={[
+                  styles.categoryChip,
+                  value === account.id && styles.categoryChipActive
+                ]}
+                onPress={() => setValue(account.id)}
+              >
+                <Text style={[
+                  styles.categoryChipText,
+                  value === account.id && styles.categoryChipTextActive
+                ]}>
+                  {account.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+      ) : (
+        <Text style={styles.noAccountsText}>Add your accounts in the Accounts screen first</Text>
+      )}
+    </View>
+  );
+
   const testSMSParsing = async () => {
     if (!testSMS.trim()) {
       Alert.alert('Error', 'Please enter an SMS message to test');
@@ -141,15 +229,33 @@ export const AddTransactionModal: React.FC = () => {
     }
 
     try {
-      const result = await smsListenerService.testParseSMS(testSMS, testSender);
+      const { transactions, trace } = await smsListenerService.testParseSMS(testSMS, testSender);
+      const [result] = transactions;
+      setTestTrace(trace);
+      const whyButton = { text: 'Why?', onPress: () => setTestTraceVisible(true) };
       
-      if (result) {
+      if (transactions.length > 1) {
+        const lines = transactions.map(transaction =>
+          `\n${transaction.type === 'income' ? '+' : '-'}${transaction.amount} ${transaction.merchant || transaction.category}`
+        ).join('');
+        Alert.alert(
+          'Digest SMS Parsed',
+          `${transactions.length} transactions found:${lines}`,
+          [whyButton, { text: 'OK' }]
+        );
+      } else if (result) {
+        const charges = (result.charges || []).map(charge => `\n${charge.label}: ${charge.amount}`).join('');
         Alert.alert(
           'SMS Parsed Successfully',
-          `Amount: ${result.amount}\nType: ${result.type}\nDescription: ${result.description}\nCategory: ${result.category}\nMerchant: ${result.merchant || 'N/A'}`
+          `Amount: ${result.amount}\nType: ${result.type}\nDescription: ${result.description}\nCategory: ${result.category}\nMerchant: ${result.merchant || 'N/A'}${charges}`,
+          [whyButton, { text: 'OK' }]
         );
       } else {
-        Alert.alert('No Match', 'The SMS message could not be parsed as a financial transaction');
+        Alert.alert(
+          'No Match',
+          `The SMS message could not be parsed as a financial transaction.\n${trace.reason}`,
+          [whyButton, { text: 'OK' }]
+        );
       }
     } catch (error) {
       console.error('SMS parsing test failed:', error);
@@ -192,6 +298,8 @@ export const AddTransactionModal: React.FC = () => {
             <TouchableOpacity
               style={styles.fabMenuItem}
               onPress={() => {
+                // Accounts may have been added since the modal mounted
+                loadAccounts();
                 setModalVisible(true);
                 setFabMenuOpen(false);
               }}
@@ -270,6 +378,17 @@ export const AddTransactionModal: React.FC = () => {
                       Income
                     </Text>
                   </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.typeButton, type === 'transfer' && styles.typeButtonActive]}
+                    onPress={() => {
+                      setType('transfer');
+                      setCategory('');
+                    }}
+                  >
+                    <Text style={[styles.typeButtonText, type === 'transfer' && styles.typeButtonTextActive]}>
+                      Transfer
+                    </Text>
+                  </TouchableOpacity>
                 </View>
 
                 {/* Amount Input */}
@@ -295,42 +414,52 @@ export const AddTransactionModal: React.FC = () => {
                   />
                 </View>
 
-                {/* Category Selection */}
-                <View style={styles.inputGroup}>
-                  <Text style={styles.inputLabel}>Category *</Text>
-                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-                    <View style={styles.categoryContainer}>
-                      {getFilteredCategories(type).map((cat) => (
-                        <TouchableOpacity
-                          key={cat.id}
-                          style={[
-                            styles.categoryChip,
-                            category === cat.name && styles.categoryChipActive
-                          ]}
-                          onPress={() => setCategory(cat.name)}
-                        >
-                          <Text style={[
-                            styles.categoryChipText,
-                            category === cat.name && styles.categoryChipTextActive
-                          ]}>
-                            {cat.name}
-                          </Text>
-                        </TouchableOpacity>
-                      ))}
-                    </View>
-                  </ScrollView>
-                </View>
-
-                {/* Merchant Input */}
-                <View style={styles.inputGroup}>
-                  <Text style={styles.inputLabel}>Merchant (Optional)</Text>
-                  <TextInput
-                    style={styles.input}
-                    placeholder="Store or service name"
-                    value={merchant}
-                    onChangeText={setMerchant}
-                  />
-                </View>
+                {type === 'transfer' ? (
+                  <>
+                    {/* Account Selection */}
+                    {renderAccountField('From account *', fromAccountId, setFromAccountId)}
+                    {renderAccountField('To account *', toAccountId, setToAccountId)}
+                  </>
+                ) : (
+                  <>
+                  {/* Category Selection */}
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>Category *</Text>
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                      <View style={styles.categoryContainer}>
+                        {getFilteredCategories(type).map((cat) => (
+                          <TouchableOpacity
+                            key={cat.id}
+                            style={[
+                              styles.categoryChip,
+                              category === cat.name && styles.categoryChipActive
+                            ]}
+                            onPress={() => setCategory(cat.name)}
+                          >
+                            <Text style={[
+                              styles.categoryChipText,
+                              category === cat.name && styles.categoryChipTextActive
+                            ]}>
+                              {cat.name}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    </ScrollView>
+                  </View>
+
+                  {/* Merchant Input */}
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>Merchant (Optional)</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="Store or service name"
+                      value={merchant}
+                      onChangeText={setMerchant}
+                    />
+                  </View>
+                  </>
+                )}
               </ScrollView>
 
               <TouchableOpacity style={styles.addButton} onPress={addTransaction}>
@@ -391,6 +520,12 @@ export const AddTransactionModal: React.FC = () => {
         </View>
       </Modal>
 
+      <ParseTraceModal
+        visible={testTraceVisible}
+        trace={testTrace}
+        onClose={() => setTestTraceVisible(false)}
+      />
+
       {/* SMS History Processing Modal */}
       <Modal
         animationType="slide"
@@ -595,6 +730,11 @@ const styles = StyleSheet.create({
     gap: 8,
     paddingVertical: 4,
   },
+  noAccountsText: {
+    fontSize: 14,
+    color: '#6B7280',
+    paddingVertical: 8,
+  },
   categoryChip: {
     paddingHorizontal: 16,
     paddingVertical: 8,
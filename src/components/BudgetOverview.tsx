@@ -9,14 +9,22 @@ import {
 } from 'react-native';
 import { LinearGradient as ExpoLinearGradient } from 'expo-linear-gradient';
 import { useAppContext } from '../context/AppContext';
+import { TransactionType } from '../database/schema';
+import { displayType, isCountedTransfer, transferRoute } from '../services/transferKinds';
 
 const { width } = Dimensions.get('window');
 
+const TYPE_LABELS: { [type in TransactionType]: string } = {
+  income: 'Income',
+  expense: 'Expenses',
+  transfer: 'Transfers'
+};
+
 export const BudgetOverview: React.FC = () => {
   const { state, totalExpenses, totalIncome, getFormattedAmount } = useAppContext();
   const { budgetSummary, categorySpending, isLoading } = state;
   const [activeTab, setActiveTab] = useState<'Daily' | 'Weekly' | 'Monthly'>('Monthly');
-  const [selectedType, setSelectedType] = useState<'income' | 'expense'>('expense');
+  const [selectedType, setSelectedType] = useState<TransactionType>('expense');
   const [selectedBarIndex, setSelectedBarIndex] = useState<number | null>(null);
   const [formattedAmounts, setFormattedAmounts] = useState({
     chartTotal: '₵0.00',
@@ -89,9 +97,10 @@ export const BudgetOverview: React.FC = () => {
     const transactions = state.transactions || [];
     const dateRange = getDateRange();
     
-    // Filter by type and date range
+    // Filter by type and date range. A detected transfer is counted once, through its debit leg
     const filteredTransactions = transactions.filter(t => {
-      if (t.type !== selectedType) return false;
+      if (displayType(t) !== selectedType) return false;
+      if (selectedType === 'transfer' && !isCountedTransfer(t)) return false;
       
       const transactionDate = new Date(t.date);
       return transactionDate >= dateRange.start && transactionDate <= dateRange.end;
@@ -104,11 +113,17 @@ export const BudgetOverview: React.FC = () => {
     const categoryMap = new Map<string, { amount: number, detail: Set<string> }>();
     
     filteredTransactions.forEach(transaction => {
-      const category = transaction.category;
+      // Transfers all share one category, so break them down by route instead
+      const route = selectedType === 'transfer' ? transferRoute(transaction, transactions) : null;
+      const category = route
+        ? `${route.fromAccount || 'Unknown'} → ${route.toAccount || 'Unknown'}`
+        : transaction.category;
       const existing = categoryMap.get(category) || { amount: 0, detail: new Set() };
       existing.amount += transaction.amount;
       if (transaction.merchant) {
         existing.detail.add(transaction.merchant);
+      } else if (route && transaction.description) {
+        existing.detail.add(transaction.description);
       }
       categoryMap.set(category, existing);
     });
@@ -262,7 +277,9 @@ export const BudgetOverview: React.FC = () => {
     // Use income colors for income chart, expense colors for expense chart
     const chartColors = selectedType === 'income' 
       ? ['#10B981', '#059669'] // Green for income
-      : ['#EF4444', '#DC2626']; // Red for expenses
+      : selectedType === 'transfer'
+        ? ['#3B82F6', '#2563EB'] // Blue for transfers
+        : ['#EF4444', '#DC2626']; // Red for expenses
     
     return (
       <View style={styles.chartContainer}>
@@ -362,7 +379,7 @@ export const BudgetOverview: React.FC = () => {
         ))}
       </View>
 
-      {/* Income/Expense Toggle */}
+      {/* Income/Expense/Transfer Toggle */}
       <View style={styles.toggleContainer}>
         <View style={styles.toggle}>
           <TouchableOpacity 
@@ -389,13 +406,25 @@ export const BudgetOverview: React.FC = () => {
               selectedType === 'expense' && styles.activeToggleText
             ]}>Expenses</Text>
           </TouchableOpacity>
+          <TouchableOpacity 
+            style={[
+              styles.toggleOption, 
+              selectedType === 'transfer' && styles.activeToggle
+            ]}
+            onPress={() => setSelectedType('transfer')}
+          >
+            <Text style={[
+              styles.toggleLabel, 
+              selectedType === 'transfer' && styles.activeToggleText
+            ]}>Transfers</Text>
+          </TouchableOpacity>
         </View>
       </View>
 
       {/* Chart Card */}
       <View style={styles.chartCard}>
         <View style={styles.chartHeader}>
-          <Text style={styles.chartTitle}>Total expenses</Text>
+          <Text style={styles.chartTitle}>Total {TYPE_LABELS[selectedType].toLowerCase()}</Text>
           <Text style={styles.chartAmount}>
             {formattedAmounts.chartTotal}
           </Text>
@@ -407,7 +436,7 @@ export const BudgetOverview: React.FC = () => {
       {/* Dynamic Breakdown */}
       <View style={styles.breakdownSection}>
         <Text style={styles.breakdownTitle}>
-          {selectedType === 'income' ? 'Income' : 'Expenses'} Breakdown
+          {TYPE_LABELS[selectedType]} Breakdown
         </Text>
         
         {getCurrentData().categories.length > 0 ? getCurrentData().categories.map((category, index) => (
@@ -430,7 +459,7 @@ export const BudgetOverview: React.FC = () => {
               No {selectedType} data available
             </Text>
             <Text style={styles.noDataSubtext}>
-              {selectedType === 'income' ? 'Add some income transactions to see the breakdown' : 'Add some expense transactions to see the breakdown'}
+              Add some {selectedType} transactions to see the breakdown
             </Text>
           </View>
         )}
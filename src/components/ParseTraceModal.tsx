@@ -0,0 +1,303 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { ParseTrace } from '../services/smsParser';
+
+interface ParseTraceModalProps {
+  visible: boolean;
+  trace: ParseTrace | null;
+  onClose: () => void;
+}
+
+const filterLabels: {[key: string]: string} = {
+  promotional_score: 'Promotional score',
+  promotional_keyword: 'Promotional keyword',
+  reminder_keyword: 'Reminder keyword',
+  failed_transaction: 'Failed transaction',
+  blocked_sender: 'Never-parse sender',
+  allowed_sender: 'Always-parse sender',
+  strong_transaction_keyword: 'Strong transaction keyword',
+  trusted_sender_evidence: 'Trusted sender with evidence',
+  no_transaction_evidence: 'No transaction evidence',
+};
+
+const methodLabels: {[key: string]: string} = {
+  rule: 'Custom rule',
+  template: 'Bank template',
+  generic: 'Generic parser',
+  digest: 'Digest / mini-statement',
+};
+
+const outcomeLabels: {[key: string]: string} = {
+  accepted: '✅ Accepted',
+  review: '📝 Sent to review',
+  rejected: '🚫 Rejected',
+  quarantined: '⚠️ Quarantined as a possible scam',
+};
+
+export const ParseTraceModal: React.FC<ParseTraceModalProps> = ({ visible, trace, onClose }) => {
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.headerClose}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Why this result?</Text>
+          <View style={styles.headerSpacing} />
+        </View>
+
+        {!trace ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyIcon}>🔍</Text>
+            <Text style={styles.emptyText}>No parser explanation was recorded for this transaction.</Text>
+          </View>
+        ) : (
+          <ScrollView contentContainerStyle={styles.content}>
+            <View style={[styles.outcomeCard, outcomeStyles[trace.outcome]]}>
+              <Text style={styles.outcomeTitle}>{outcomeLabels[trace.outcome]}</Text>
+              <Text style={styles.outcomeReason}>{trace.reason}</Text>
+            </View>
+
+            <Text style={styles.sectionTitle}>Filter</Text>
+            <View style={styles.card}>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Decision</Text>
+                <Text style={styles.rowValue}>{filterLabels[trace.filter.name] || trace.filter.name}</Text>
+              </View>
+              {trace.filter.matched && (
+                <View style={styles.row}>
+                  <Text style={styles.rowLabel}>Matched</Text>
+                  <Text style={styles.rowValue}>{trace.filter.matched}</Text>
+                </View>
+              )}
+              {trace.filter.score !== undefined && (
+                <View style={styles.row}>
+                  <Text style={styles.rowLabel}>Promotional score</Text>
+                  <Text style={styles.rowValue}>{trace.filter.score}</Text>
+                </View>
+              )}
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Sender</Text>
+                <Text style={styles.rowValue}>{trace.sender}</Text>
+              </View>
+            </View>
+
+            {trace.method && (
+              <>
+                <Text style={styles.sectionTitle}>Extraction</Text>
+                <View style={styles.card}>
+                  <View style={styles.row}>
+                    <Text style={styles.rowLabel}>Parsed by</Text>
+                    <Text style={styles.rowValue}>{methodLabels[trace.method]}</Text>
+                  </View>
+                  {trace.ruleName && (
+                    <View style={styles.row}>
+                      <Text style={styles.rowLabel}>Rule</Text>
+                      <Text style={styles.rowValue}>{trace.ruleName}</Text>
+                    </View>
+                  )}
+                  {trace.templateId && (
+                    <View style={styles.row}>
+                      <Text style={styles.rowLabel}>Template</Text>
+                      <Text style={styles.rowValue}>{trace.templateId}</Text>
+                    </View>
+                  )}
+                  {trace.digestEntries !== undefined && (
+                    <View style={styles.row}>
+                      <Text style={styles.rowLabel}>Transactions</Text>
+                      <Text style={styles.rowValue}>{trace.digestEntries}</Text>
+                    </View>
+                  )}
+                  {trace.messageDate && (
+                    <View style={styles.row}>
+                      <Text style={styles.rowLabel}>Date in SMS</Text>
+                      <Text style={styles.rowValue}>{trace.messageDate}</Text>
+                    </View>
+                  )}
+                  {trace.amountPattern && (
+                    <View style={styles.patternBlock}>
+                      <Text style={styles.rowLabel}>Amount pattern</Text>
+                      <Text style={styles.patternText}>{trace.amountPattern}</Text>
+                    </View>
+                  )}
+                </View>
+              </>
+            )}
+
+            {trace.fraudSignals && trace.fraudSignals.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Scam signals</Text>
+                <View style={styles.card}>
+                  {trace.fraudSignals.map((signal, index) => (
+                    <View key={index} style={styles.row}>
+                      <Text style={styles.rowLabel}>{signal.detail}</Text>
+                      <Text style={[styles.rowValue, styles.negativeDelta]}>+{signal.weight}</Text>
+                    </View>
+                  ))}
+                </View>
+              </>
+            )}
+
+            {trace.confidence && (
+              <>
+                <Text style={styles.sectionTitle}>
+                  Confidence {trace.confidence.score.toFixed(2)} (needs {trace.confidence.threshold})
+                </Text>
+                <View style={styles.card}>
+                  {trace.confidence.factors.map((factor, index) => (
+                    <View key={index} style={styles.row}>
+                      <Text style={styles.rowLabel}>{factor.label}</Text>
+                      <Text style={[
+                        styles.rowValue,
+                        factor.delta >= 0 ? styles.positiveDelta : styles.negativeDelta
+                      ]}>
+                        {factor.delta >= 0 ? '+' : ''}{factor.delta.toFixed(2)}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              </>
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  headerClose: {
+    fontSize: 16,
+    color: '#8B5CF6',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  headerSpacing: {
+    width: 50,
+  },
+  content: {
+    padding: 20,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyIcon: {
+    fontSize: 40,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  outcomeCard: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  outcomeAccepted: {
+    backgroundColor: '#ECFDF5',
+  },
+  outcomeReview: {
+    backgroundColor: '#FFFBEB',
+  },
+  outcomeRejected: {
+    backgroundColor: '#FEF2F2',
+  },
+  outcomeQuarantined: {
+    backgroundColor: '#FEE2E2',
+  },
+  outcomeTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 4,
+  },
+  outcomeReason: {
+    fontSize: 14,
+    color: '#4B5563',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F9FAFB',
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  rowValue: {
+    fontSize: 14,
+    color: '#1F2937',
+    fontWeight: '600',
+    flex: 1,
+    textAlign: 'right',
+    marginLeft: 12,
+  },
+  positiveDelta: {
+    color: '#10B981',
+  },
+  negativeDelta: {
+    color: '#EF4444',
+  },
+  patternBlock: {
+    paddingVertical: 12,
+  },
+  patternText: {
+    fontSize: 12,
+    color: '#1F2937',
+    fontFamily: 'monospace',
+    marginTop: 6,
+  },
+});
+
+const outcomeStyles = {
+  accepted: styles.outcomeAccepted,
+  review: styles.outcomeReview,
+  rejected: styles.outcomeRejected,
+  quarantined: styles.outcomeQuarantined,
+};
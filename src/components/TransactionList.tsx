@@ -16,21 +16,36 @@ import {
 } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { LinearGradient as ExpoLinearGradient } from 'expo-linear-gradient';
-import { Transaction, databaseService } from '../database/schema';
+import { Transaction, TransactionType, TransactionEvidence, Category, Merchant, databaseService } from '../database/schema';
 import { useAppContext } from '../context/AppContext';
 import { currencyService } from '../services/currencyService';
+import { smsListenerService } from '../services/smsListener';
+import { ParseTrace, smsParserService } from '../services/smsParser';
+import { ParseTraceModal } from './ParseTraceModal';
+import { merchantCategoryService } from '../services/merchantCategoryService';
+import { merchantService } from '../services/merchantService';
+import { transferService } from '../services/transferService';
+import { displayType, isTransfer } from '../services/transferKinds';
+import { transactionMatcher } from '../services/transactionMatcher';
+
+const SOURCE_LABELS: { [source: string]: string } = {
+  sms: '📱 SMS Auto-detected',
+  email: '📧 Email Receipt',
+  manual: '✍️ Manual Entry',
+  import: '📥 Imported',
+};
 
 interface TransactionListProps {
   ListHeaderComponent?: React.ComponentType<any> | React.ReactElement | null;
   contentContainerStyle?: any;
   showFilters?: boolean;
   maxTransactions?: number;
-  transactionType?: 'all' | 'income' | 'expense';
+  transactionType?: 'all' | TransactionType;
 }
 
 interface FilterState {
   searchText: string;
-  selectedType: 'all' | 'income' | 'expense';
+  selectedType: 'all' | TransactionType;
   selectedCategory: string;
   selectedCurrency: string;
   dateRange: {
@@ -56,6 +71,14 @@ export const TransactionList: React.FC<TransactionListProps> = ({
   const [isLoading, setIsLoading] = useState(true);
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   const [detailModalVisible, setDetailModalVisible] = useState(false);
+  const [traceModalVisible, setTraceModalVisible] = useState(false);
+  const [parseTrace, setParseTrace] = useState<ParseTrace | null>(null);
+  const [evidence, setEvidence] = useState<TransactionEvidence[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [showCategoryPicker, setShowCategoryPicker] = useState(false);
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  const [showMerchantMerge, setShowMerchantMerge] = useState(false);
+  const [mergeTarget, setMergeTarget] = useState('');
   const [customDateModalVisible, setCustomDateModalVisible] = useState(false);
   const [showStartDatePicker, setShowStartDatePicker] = useState(false);
   const [showEndDatePicker, setShowEndDatePicker] = useState(false);
@@ -121,10 +144,10 @@ export const TransactionList: React.FC<TransactionListProps> = ({
           );
         }
 
-        // Transaction type filter
+        // Transaction type filter; both legs of a detected transfer count as transfers
         if (filters.selectedType !== 'all') {
           filtered = filtered.filter(transaction => 
-            transaction.type === filters.selectedType
+            displayType(transaction) === filters.selectedType
           );
         }
 
@@ -178,7 +201,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({
       
       // Apply transaction type filter (for dashboard toggle)
       if (transactionType !== 'all') {
-        filtered = filtered.filter(transaction => transaction.type === transactionType);
+        filtered = filtered.filter(transaction => displayType(transaction) === transactionType);
       }
       
       // Apply max transactions limit (for dashboard)
@@ -288,7 +311,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({
           <View style={styles.quickFiltersContainer}>
             {/* Transaction Type Filter */}
             <View style={styles.quickFilterGroup}>
-              {['all', 'income', 'expense'].map((type) => (
+              {['all', 'income', 'expense', 'transfer'].map((type) => (
                 <TouchableOpacity
                   key={type}
                   style={[
@@ -455,6 +478,110 @@ export const TransactionList: React.FC<TransactionListProps> = ({
     );
   };
 
+  // Fee and levy lines are stored as child transactions of the principal
+  const selectedCharges = selectedTransaction
+    ? transactions.filter(t => t.parentTransactionId === selectedTransaction.id)
+    : [];
+  const selectedParent = selectedTransaction?.parentTransactionId
+    ? transactions.find(t => t.id === selectedTransaction.parentTransactionId)
+    : undefined;
+
+  const selectedRelated = selectedTransaction?.relatedTransactionId
+    ? transactions.find(t => t.id === selectedTransaction.relatedTransactionId)
+    : undefined;
+
+  // The other leg of a transfer between the user's own accounts
+  const selectedTransferLeg = selectedTransaction?.transferId
+    ? transactions.find(t => t.transferId === selectedTransaction.transferId && t.id !== selectedTransaction.id)
+    : undefined;
+
+  const statusLabels: {[key: string]: string} = {
+    reversed: '↩️ Reversed',
+    reversal: '↩️ Reversal',
+    refund: '💵 Refund',
+  };
+
+  const relatedLabels: {[key: string]: string} = {
+    reversed: 'Reversed by',
+    reversal: 'Reverses',
+    refund: 'Refund for',
+  };
+
+  const showParseTrace = async (transaction: Transaction) => {
+    const trace = await smsListenerService.getParseTrace(transaction.id);
+    setParseTrace(trace);
+    setDetailModalVisible(false);
+    setTraceModalVisible(true);
+  };
+
+  const openCategoryPicker = async () => {
+    try {
+      const db = await databaseService.getDatabase();
+      if (!db) return;
+
+      const result = await db.getAllAsync('SELECT * FROM categories ORDER BY name');
+      setCategories(result.map((row: any) => ({
+        ...row,
+        keywords: JSON.parse(row.keywords)
+      })));
+      setShowCategoryPicker(true);
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+    }
+  };
+
+  const openMerchantMerge = async () => {
+    try {
+      setMerchants(await merchantService.getMerchants());
+      setMergeTarget('');
+      setShowMerchantMerge(true);
+    } catch (error) {
+      console.error('Failed to load merchants:', error);
+    }
+  };
+
+  const mergeMerchant = async (transaction: Transaction, targetName: string) => {
+    if (!transaction.merchant || !targetName.trim()) return;
+
+    try {
+      const merchant = await merchantService.mergeMerchant(transaction.merchant, targetName.trim());
+      setSelectedTransaction({ ...transaction, merchant: merchant.name });
+      setShowMerchantMerge(false);
+      await loadTransactions();
+      await refreshData();
+    } catch (error) {
+      console.error('Failed to merge merchant:', error);
+      Alert.alert('Error', 'Failed to merge merchant');
+    }
+  };
+
+  const changeCategory = async (transaction: Transaction, category: string) => {
+    try {
+      await merchantCategoryService.recategorizeTransaction(transaction, category);
+      setSelectedTransaction({ ...transaction, category });
+      setShowCategoryPicker(false);
+      await loadTransactions();
+      await refreshData();
+    } catch (error) {
+      console.error('Failed to change category:', error);
+      Alert.alert('Error', 'Failed to change category');
+    }
+  };
+
+  const unlinkTransfer = async (transaction: Transaction) => {
+    if (!transaction.transferId) return;
+
+    try {
+      await transferService.unlinkTransfer(transaction.transferId);
+      setSelectedTransaction({ ...transaction, transferId: undefined });
+      await loadTransactions();
+      await refreshData();
+    } catch (error) {
+      console.error('Failed to unlink transfer:', error);
+      Alert.alert('Error', 'Failed to unlink transfer');
+    }
+  };
+
   const deleteTransaction = async (transaction: Transaction) => {
     Alert.alert(
       'Delete Transaction',
@@ -469,7 +596,18 @@ export const TransactionList: React.FC<TransactionListProps> = ({
               const db = await databaseService.getDatabase();
               if (!db) return;
 
-              await db.runAsync('DELETE FROM transactions WHERE id = ?', [transaction.id]);
+              // The remaining leg of a transfer counts as a normal transaction again
+              if (transaction.transferId) {
+                await transferService.unlinkTransfer(transaction.transferId);
+              }
+              // The original a deleted reversal cancelled counts in totals again
+              await smsParserService.restoreReversedOriginal(transaction);
+              // Move the money back between the two accounts
+              await transferService.revertTransfer(transaction);
+              await db.runAsync(
+                'DELETE FROM transactions WHERE id = ? OR parentTransactionId = ?',
+                [transaction.id, transaction.id]
+              );
               await loadTransactions();
               await refreshData();
             } catch (error) {
@@ -531,7 +669,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({
     return currencies.sort();
   };
 
-  const getTransactionIcon = (category: string, type: 'income' | 'expense') => {
+  const getTransactionIcon = (category: string, type: TransactionType) => {
     const iconMap: { [key: string]: string } = {
       // Income icons
       'Salary': '💰',
@@ -546,13 +684,15 @@ export const TransactionList: React.FC<TransactionListProps> = ({
       'Bills & Utilities': '💡',
       'Healthcare': '🏥',
       'Entertainment': '🎬',
-      'Transfers': '💸'
+      'Transfers': '💸',
+      'Fees & Charges': '🧾'
     };
 
+    if (type === 'transfer') return '⇄';
     return iconMap[category] || (type === 'income' ? '💰' : '💳');
   };
 
-  const getIconBackground = (category: string, type: 'income' | 'expense') => {
+  const getIconBackground = (category: string, type: TransactionType) => {
     const colorMap: { [key: string]: string[] } = {
       // Income colors
       'Salary': ['#22C55E', '#16A34A'],
@@ -567,15 +707,26 @@ export const TransactionList: React.FC<TransactionListProps> = ({
       'Bills & Utilities': ['#F59E0B', '#D97706'],
       'Healthcare': ['#10B981', '#059669'],
       'Entertainment': ['#8B5CF6', '#7C3AED'],
+      'Fees & Charges': ['#F97316', '#EA580C'],
       // 'Transfers': ['#6B7280', '#4B5563']
     };
 
+    if (type === 'transfer') return ['#6B7280', '#4B5563'];
     return colorMap[category] || (type === 'income' ? ['#22C55E', '#16A34A'] : ['#EF4444', '#DC2626']);
   };
 
-  const openTransactionDetail = (transaction: Transaction) => {
+  // Transfers only move money between the user's accounts, so they carry no sign
+  const getAmountPrefix = (type: TransactionType) =>
+    type === 'income' ? '+ ' : type === 'expense' ? '- ' : '';
+
+  const openTransactionDetail = async (transaction: Transaction) => {
     setSelectedTransaction(transaction);
+    setShowCategoryPicker(false);
+    setShowMerchantMerge(false);
+    setEvidence([]);
     setDetailModalVisible(true);
+    // Alerts from other sources that were matched to this transaction instead of saved again
+    setEvidence(await transactionMatcher.getEvidence(transaction.id));
   };
 
   const renderTransaction = ({ item }: { item: Transaction }) => (
@@ -606,9 +757,11 @@ export const TransactionList: React.FC<TransactionListProps> = ({
         
         <Text style={[
           styles.transactionAmount,
-          { color: item.type === 'income' ? '#22C55E' : '#EF4444' }
+          { color: item.type === 'income' ? '#22C55E' : '#EF4444' },
+          (item.status === 'reversed' || item.status === 'reversal') && styles.nettedOutAmount,
+          isTransfer(item) && styles.transferAmount
         ]}>
-          {item.type === 'income' ? '+' : '-'} {formattedAmounts[item.id] || '₵0.00'}
+          {getAmountPrefix(item.type)}{formattedAmounts[item.id] || '₵0.00'}
         </Text>
       </View>
     </TouchableOpacity>
@@ -626,7 +779,8 @@ export const TransactionList: React.FC<TransactionListProps> = ({
     const getTitle = () => {
       if (!showFilters) {
         const typeText = transactionType === 'income' ? 'Income' : 
-                        transactionType === 'expense' ? 'Expenses' : 'Transactions';
+                        transactionType === 'expense' ? 'Expenses' :
+                        transactionType === 'transfer' ? 'Transfers' : 'Transactions';
         return maxTransactions ? `Latest ${maxTransactions} ${typeText}` : `Latest ${typeText}`;
       }
       return hasActiveFilters() ? 'Filtered Transactions' : 'All Transactions';
@@ -723,7 +877,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({
                   </View>
                   
                   <Text style={styles.detailAmount}>
-                    {selectedTransaction.type === 'income' ? '+' : '-'} {formattedAmounts[selectedTransaction.id] || '₵0.00'}
+                    {getAmountPrefix(selectedTransaction.type)}{formattedAmounts[selectedTransaction.id] || '₵0.00'}
                   </Text>
                   
                   <View style={styles.detailInfo}>
@@ -731,35 +885,204 @@ export const TransactionList: React.FC<TransactionListProps> = ({
                       <Text style={styles.detailLabel}>Description</Text>
                       <Text style={styles.detailValue}>{selectedTransaction.description}</Text>
                     </View>
-                    <View style={styles.detailRow}>
+                    <TouchableOpacity
+                      style={styles.detailRow}
+                      disabled={selectedTransaction.type === 'transfer'}
+                      onPress={() => showCategoryPicker ? setShowCategoryPicker(false) : openCategoryPicker()}
+                    >
                       <Text style={styles.detailLabel}>Category</Text>
-                      <Text style={styles.detailValue}>{selectedTransaction.category}</Text>
-                    </View>
+                      {selectedTransaction.type === 'transfer' ? (
+                        <Text style={styles.detailValue}>{selectedTransaction.category}</Text>
+                      ) : (
+                        <Text style={[styles.detailValue, styles.detailValueEditable]}>
+                          {selectedTransaction.category} ✎
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                    {showCategoryPicker && (
+                      <View style={styles.categoryPicker}>
+                        <View style={styles.categoryGrid}>
+                          {categories.filter(cat => cat.type === selectedTransaction.type).map(cat => (
+                            <TouchableOpacity
+                              key={cat.id}
+                              style={[
+                                styles.categoryPill,
+                                selectedTransaction.category === cat.name && styles.categoryPillActive
+                              ]}
+                              onPress={() => changeCategory(selectedTransaction, cat.name)}
+                            >
+                              <Text style={[
+                                styles.categoryText,
+                                selectedTransaction.category === cat.name && styles.categoryTextActive
+                              ]}>{cat.name}</Text>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                        {selectedTransaction.merchant && (
+                          <Text style={styles.categoryPickerHint}>
+                            Future transactions from {selectedTransaction.merchant} will use this category
+                          </Text>
+                        )}
+                      </View>
+                    )}
                     <View style={styles.detailRow}>
                       <Text style={styles.detailLabel}>Type</Text>
                       <Text style={styles.detailValue}>
-                        {selectedTransaction.type === 'income' ? 'Income' : 'Expense'}
+                        {selectedTransaction.type === 'income' ? 'Income' :
+                         selectedTransaction.type === 'expense' ? 'Expense' : 'Transfer'}
                       </Text>
                     </View>
+                    {selectedTransaction.type === 'transfer' && (
+                      <>
+                        <View style={styles.detailRow}>
+                          <Text style={styles.detailLabel}>From</Text>
+                          <Text style={styles.detailValue}>{selectedTransaction.fromAccount}</Text>
+                        </View>
+                        <View style={styles.detailRow}>
+                          <Text style={styles.detailLabel}>To</Text>
+                          <Text style={styles.detailValue}>{selectedTransaction.toAccount}</Text>
+                        </View>
+                      </>
+                    )}
                     <View style={styles.detailRow}>
                       <Text style={styles.detailLabel}>Date</Text>
                       <Text style={styles.detailValue}>
                         {new Date(selectedTransaction.date).toLocaleDateString()}
                       </Text>
                     </View>
+                    {selectedTransaction.receivedAt && (
+                      <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>SMS received</Text>
+                        <Text style={styles.detailValue}>
+                          {new Date(selectedTransaction.receivedAt).toLocaleString()}
+                        </Text>
+                      </View>
+                    )}
                     <View style={styles.detailRow}>
                       <Text style={styles.detailLabel}>Source</Text>
                       <Text style={styles.detailValue}>
-                        {selectedTransaction.source === 'sms' ? 'SMS Auto-detected' : 'Manual Entry'}
+                        {SOURCE_LABELS[selectedTransaction.source] || SOURCE_LABELS.manual}
                       </Text>
                     </View>
-                    {selectedTransaction.merchant && (
+                    {evidence.length > 0 && (
                       <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>Also reported by</Text>
+                        <Text style={styles.detailValue}>
+                          {evidence
+                            .map(item => `${item.sender || item.source} (matched on ${item.matchedOn.join(', ')})`)
+                            .join('\n')}
+                        </Text>
+                      </View>
+                    )}
+                    {selectedTransaction.merchant && (
+                      <TouchableOpacity
+                        style={styles.detailRow}
+                        onPress={() => showMerchantMerge ? setShowMerchantMerge(false) : openMerchantMerge()}
+                      >
                         <Text style={styles.detailLabel}>Merchant</Text>
-                        <Text style={styles.detailValue}>{selectedTransaction.merchant}</Text>
+                        <Text style={[styles.detailValue, styles.detailValueEditable]}>
+                          {selectedTransaction.merchant} ✎
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                    {selectedTransaction.merchant && showMerchantMerge && (
+                      <View style={styles.categoryPicker}>
+                        <Text style={styles.categoryPickerHint}>
+                          Merge "{selectedTransaction.merchant}" into
+                        </Text>
+                        <View style={styles.mergeRow}>
+                          <TextInput
+                            style={styles.mergeInput}
+                            placeholder="Merchant name, e.g. Shoprite"
+                            value={mergeTarget}
+                            onChangeText={setMergeTarget}
+                          />
+                          <TouchableOpacity
+                            style={styles.mergeButton}
+                            onPress={() => mergeMerchant(selectedTransaction, mergeTarget)}
+                          >
+                            <Text style={styles.mergeButtonText}>Merge</Text>
+                          </TouchableOpacity>
+                        </View>
+                        <View style={styles.categoryGrid}>
+                          {merchants.filter(m => m.name !== selectedTransaction.merchant).map(m => (
+                            <TouchableOpacity
+                              key={m.id}
+                              style={styles.categoryPill}
+                              onPress={() => mergeMerchant(selectedTransaction, m.name)}
+                            >
+                              <Text style={styles.categoryText}>{m.icon ? `${m.icon} ` : ''}{m.name}</Text>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                        <Text style={styles.categoryPickerHint}>
+                          All transactions from {selectedTransaction.merchant} are renamed, and future SMS and emails use the merged name
+                        </Text>
+                      </View>
+                    )}
+                    {selectedTransaction.status && selectedTransaction.status !== 'completed' && (
+                      <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>Status</Text>
+                        <Text style={styles.detailValue}>{statusLabels[selectedTransaction.status]}</Text>
+                      </View>
+                    )}
+                    {selectedTransaction.status && selectedTransaction.status !== 'completed' && (
+                      <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>{relatedLabels[selectedTransaction.status]}</Text>
+                        <Text style={styles.detailValue}>
+                          {selectedRelated
+                            ? `${selectedRelated.merchant || selectedRelated.description} (${new Date(selectedRelated.date).toLocaleDateString()})`
+                            : selectedTransaction.relatedTransactionId ? 'Earlier transaction' : 'Original transaction not found'}
+                        </Text>
+                      </View>
+                    )}
+                    {selectedTransaction.transferId && (
+                      <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>Transfer</Text>
+                        <Text style={styles.detailValue}>
+                          {selectedTransaction.type === 'expense'
+                            ? `${selectedTransaction.account} → ${selectedTransferLeg?.account || 'another account'}`
+                            : `${selectedTransferLeg?.account || 'another account'} → ${selectedTransaction.account}`}
+                        </Text>
+                      </View>
+                    )}
+                    {selectedParent && (
+                      <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>Charged on</Text>
+                        <Text style={styles.detailValue}>{selectedParent.merchant || selectedParent.description}</Text>
                       </View>
                     )}
                   </View>
+
+                  {selectedCharges.length > 0 && (
+                    <View style={styles.chargesCard}>
+                      <Text style={styles.chargesTitle}>Fees & Charges</Text>
+                      {selectedCharges.map(charge => (
+                        <View key={charge.id} style={styles.chargeRow}>
+                          <Text style={styles.chargeLabel}>{charge.description}</Text>
+                          <Text style={styles.chargeValue}>- {formattedAmounts[charge.id] || '₵0.00'}</Text>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+
+                  {selectedTransaction.transferId && (
+                    <TouchableOpacity
+                      style={styles.traceButton}
+                      onPress={() => unlinkTransfer(selectedTransaction)}
+                    >
+                      <Text style={styles.traceButtonText}>Not a transfer between my accounts</Text>
+                    </TouchableOpacity>
+                  )}
+
+                  {selectedTransaction.source === 'sms' && !selectedTransaction.parentTransactionId && (
+                    <TouchableOpacity 
+                      style={styles.traceButton}
+                      onPress={() => showParseTrace(selectedTransaction)}
+                    >
+                      <Text style={styles.traceButtonText}>Why was this parsed this way?</Text>
+                    </TouchableOpacity>
+                  )}
                   
                   <TouchableOpacity 
                     style={styles.deleteButton}
@@ -777,6 +1100,12 @@ export const TransactionList: React.FC<TransactionListProps> = ({
         </View>
       </Modal>
 
+      <ParseTraceModal
+        visible={traceModalVisible}
+        trace={parseTrace}
+        onClose={() => setTraceModalVisible(false)}
+      />
+
       {/* Custom Date Range Modal */}
       <Modal
         visible={customDateModalVisible}
@@ -951,6 +1280,13 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  nettedOutAmount: {
+    color: '#9CA3AF',
+    textDecorationLine: 'line-through',
+  },
+  transferAmount: {
+    color: '#6B7280',
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -1065,6 +1401,83 @@ const styles = StyleSheet.create({
     flex: 1,
     textAlign: 'right',
   },
+  detailValueEditable: {
+    color: '#8B5CF6',
+  },
+  categoryPicker: {
+    paddingVertical: 12,
+  },
+  categoryPickerHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+  mergeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  mergeInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  mergeButton: {
+    backgroundColor: '#8B5CF6',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  mergeButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  chargesCard: {
+    backgroundColor: '#FFF7ED',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  chargesTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#9A3412',
+    marginBottom: 8,
+  },
+  chargeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  chargeLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+    flex: 1,
+  },
+  chargeValue: {
+    fontSize: 14,
+    color: '#EF4444',
+    fontWeight: '600',
+    marginLeft: 12,
+  },
+  traceButton: {
+    backgroundColor: '#F5F3FF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  traceButtonText: {
+    fontSize: 16,
+    color: '#8B5CF6',
+    fontWeight: '600',
+  },
   deleteButton: {
     backgroundColor: '#FEF2F2',
     borderRadius: 12,
@@ -161,7 +161,7 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       if (transaction.type === 'income') {
         convertedIncome += convertedAmount;
-      } else {
+      } else if (transaction.type === 'expense') {
         convertedExpenses += convertedAmount;
       }
     }
@@ -181,7 +181,15 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const { databaseService } = await import('../database/schema');
       const db = await databaseService.getDatabase();
       if (db) {
-        const transactions = await db.getAllAsync('SELECT * FROM transactions ORDER BY date DESC');
+        // Reversed transactions and their reversals cancel out, and transfers between the user's
+        // own accounts are neither income nor expense, so they stay out of totals and charts.
+        // Loan disbursements are borrowed money, not income.
+        const transactions = await db.getAllAsync(
+          `SELECT * FROM transactions
+           WHERE IFNULL(status, 'completed') NOT IN ('reversed', 'reversal') AND transferId IS NULL
+             AND NOT (type = 'income' AND loanId IS NOT NULL)
+           ORDER BY date DESC`
+        );
         dispatch({ type: 'SET_TRANSACTIONS', payload: transactions as Transaction[] });
       }
       
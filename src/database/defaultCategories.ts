@@ -0,0 +1,24 @@
+import type { Category } from './schema';
+
+// Fee, E-Levy and tax lines split off an SMS are saved as child transactions in this category
+export const FEES_CATEGORY = 'Fees & Charges';
+
+// Category recorded on 'transfer' transactions, which are not budgeted
+export const TRANSFER_CATEGORY = 'Transfers';
+
+// Categories seeded on first launch; also used by the headless parser corpus
+export const DEFAULT_CATEGORIES: Omit<Category, 'id' | 'createdAt'>[] = [
+  { name: 'Food & Dining', type: 'expense', color: '#FF6B35', icon: 'restaurant', keywords: ['restaurant', 'food', 'dining', 'cafe', 'pizza', 'kfc', 'subway', 'chop bar'] },
+  { name: 'Transportation', type: 'expense', color: '#4ECDC4', icon: 'car', keywords: ['fuel', 'petrol', 'uber', 'taxi', 'bus', 'trotro', 'transport', 'goil', 'shell'] },
+  { name: 'Shopping', type: 'expense', color: '#45B7D1', icon: 'shopping-bag', keywords: ['shopping', 'store', 'purchase', 'market', 'mall', 'shoprite', 'achat'] },
+  { name: 'Bills & Utilities', type: 'expense', color: '#F39C12', icon: 'receipt', keywords: ['electric', 'water', 'internet', 'phone', 'utility', 'bill', 'ecg', 'vodafone', 'mtn', 'airtel', 'kplc', 'umeme', 'eskom', 'vodacom', 'telkom', 'prepaid', 'for account', 'facture', 'senelec'] },
+  { name: 'Healthcare', type: 'expense', color: '#E74C3C', icon: 'medical-bag', keywords: ['hospital', 'pharmacy', 'doctor', 'medical', 'health', 'clinic'] },
+  { name: 'Entertainment', type: 'expense', color: '#9B59B6', icon: 'music', keywords: ['movie', 'entertainment', 'game', 'concert', 'cinema'] },
+  { name: 'Transfers', type: 'expense', color: '#8E44AD', icon: 'swap-horizontal', keywords: ['transfer', 'wallet', 'bank transfer', 'mobile money', 'momo', 'airtel money', 'sent to', 'vous avez envoyé'] },
+  { name: FEES_CATEGORY, type: 'expense', color: '#E67E22', icon: 'cash-minus', keywords: ['maintenance fee', 'ledger fee', 'sms alert charge', 'bank charges', 'service charge'] },
+  { name: 'Salary', type: 'income', color: '#27AE60', icon: 'attach-money', keywords: ['salary', 'wage', 'payroll', 'income', 'pay', 'salaire'] },
+  { name: 'Transfers', type: 'income', color: '#16A085', icon: 'swap-horizontal', keywords: ['transfer', 'wallet to bank', 'bank transfer', 'mobile money', 'momo', 'received', 'vous avez reçu'] },
+  { name: 'Investment', type: 'income', color: '#2ECC71', icon: 'trending-up', keywords: ['dividend', 'interest', 'investment', 'profit', 'return'] },
+  { name: 'Other Income', type: 'income', color: '#1ABC9C', icon: 'plus-circle', keywords: ['bonus', 'gift', 'refund', 'cashback'] },
+  { name: 'Other Expense', type: 'expense', color: '#95A5A6', icon: 'more-horizontal', keywords: ['misc', 'other', 'miscellaneous'] }
+];
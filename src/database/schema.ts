@@ -1,20 +1,54 @@
 import * as SQLite from 'expo-sqlite';
+import { DEFAULT_CATEGORIES, FEES_CATEGORY } from './defaultCategories';
+
+// 'reversed' marks an original that a 'reversal' cancelled; both are left out of totals
+export type TransactionStatus = 'completed' | 'reversed' | 'reversal' | 'refund';
+
+// A 'transfer' moves money between the user's own accounts and is neither income nor spending
+export type TransactionType = 'income' | 'expense' | 'transfer';
+
+// Where a transaction came from; every automatic source goes through transactionPipeline
+export type TransactionSourceType = 'sms' | 'email' | 'manual' | 'import';
 
 export interface Transaction {
   id: string;
   amount: number;
+  currency?: string;
   description: string;
   category: string;
-  type: 'income' | 'expense';
-  source: 'sms' | 'manual';
+  type: TransactionType;
+  source: TransactionSourceType;
   date: string;
+  receivedAt?: string; // When the SMS arrived, if the body gave a different transaction date
   account?: string;
+  accountSuffix?: string; // Trailing digits of the account or card number in the alert
+  fromAccount?: string; // Transfers only: account the money left
+  toAccount?: string; // Transfers only: account the money arrived in
   merchant?: string;
   isRecurring?: boolean;
+  reference?: string;
+  parentTransactionId?: string; // Set on fee/levy lines split off another transaction
+  status?: TransactionStatus;
+  relatedTransactionId?: string; // Original transaction of a reversal or refund
+  transferId?: string; // Set on both legs of a transfer between the user's own accounts
+  loanId?: string; // Disbursement or repayment of a loan; disbursements are not counted as income
   createdAt: string;
   updatedAt: string;
 }
 
+// A debit from one of the user's accounts matched with the credit it produced in another
+export interface Transfer {
+  id: string;
+  fromTransactionId: string;
+  toTransactionId: string;
+  fromAccount: string;
+  toAccount: string;
+  amount: number;
+  currency: string;
+  date: string;
+  createdAt: string;
+}
+
 export interface Budget {
   id: string;
   name: string;
@@ -39,13 +73,116 @@ export interface Category {
   createdAt: string;
 }
 
+export type AccountType = 'bank' | 'credit' | 'mobile_money' | 'cash' | 'investment';
+
 export interface Account {
   id: string;
   name: string;
-  type: 'bank' | 'credit' | 'cash' | 'investment';
+  type: AccountType;
   balance: number;
   isActive: boolean;
-  smsKeywords: string[]; // Keywords to identify this account in SMS
+  smsKeywords: string[]; // Keywords to identify this account in SMS; "****1234" matches the account number suffix
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AccountSuggestionStatus = 'pending' | 'created' | 'dismissed';
+
+// An account number or wallet seen in alerts that no account claims yet
+export interface AccountSuggestion {
+  id: string;
+  sender: string;
+  senderKey: string;
+  accountSuffix: string; // Empty for a wallet or bank that quotes no number
+  name: string;
+  type: AccountType;
+  messageCount: number;
+  lastSeen: string;
+  status: AccountSuggestionStatus;
+  accountId?: string; // Account created from or linked to the suggestion
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AccountBalanceSnapshot {
+  id: string;
+  accountId: string;
+  balance: number;
+  currency: string;
+  transactionId?: string; // Transaction whose SMS reported this balance
+  source: 'sms' | 'manual';
+  reportedAt: string; // When the bank reported the balance
+  createdAt: string;
+}
+
+export type LoanSchedule = 'once' | 'weekly' | 'monthly';
+
+// A loan opened by a disbursement SMS; repayments are linked through transactions.loanId
+export interface Loan {
+  id: string;
+  lender: string;
+  principal: number;
+  currency: string;
+  disbursedAt: string;
+  interestRate?: number; // Percent, as quoted by the lender
+  interestAmount?: number;
+  totalDue?: number; // Principal plus interest and fees
+  schedule?: LoanSchedule;
+  dueDate?: string; // First (or only) repayment date
+  reportedOutstanding?: number; // Balance quoted in the latest repayment SMS
+  account?: string;
+  disbursementTransactionId?: string;
+  status: 'active' | 'repaid';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReviewItem {
+  id: string;
+  smsId: string;
+  lineIndex: number; // Entry of a digest SMS, 0 for a single-transaction SMS
+  sender: string;
+  body: string;
+  receivedAt: string;
+  candidate: string; // JSON ParsedTransaction, the parser's best guess
+  confidence: number;
+  reason: string;
+  fraudSignals?: string; // JSON FraudSignal[], set when the parser suspected a scam
+  status: 'pending' | 'accepted' | 'dismissed';
+  transactionId?: string; // Set when the item is accepted
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+export interface MerchantCategoryOverride {
+  id: string;
+  merchantKey: string; // Normalised merchant name used for lookups
+  merchant: string;
+  type: 'income' | 'expense';
+  category: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Merchant {
+  id: string;
+  name: string; // Canonical name stored on transactions
+  aliases: string[]; // Raw merchant strings from SMS/email that mean this merchant
+  patterns: string[]; // Case-insensitive regexes, e.g. "^shoprite\b"
+  defaultCategory?: string;
+  icon?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// How the parser treats a sender; senders without a row go through the built-in filters
+export type SMSSenderMode = 'always' | 'never' | 'review';
+
+export interface SMSSender {
+  id: string;
+  sender: string; // As shown on the phone, e.g. "MobileMoney"
+  senderKey: string; // Trimmed, lower-cased sender used for matching
+  mode: SMSSenderMode;
   createdAt: string;
   updatedAt: string;
 }
@@ -58,6 +195,8 @@ export interface SMSRule {
   accountId?: string;
   amountExtraction: string; // Regex group for amount
   merchantExtraction?: string; // Regex group for merchant
+  type?: 'income' | 'expense'; // Forces the transaction type instead of taking it from the category
+  sampleMessage?: string; // SMS the rule was written against
   isActive: boolean;
   createdAt: string;
 }
@@ -68,11 +207,93 @@ export interface ProcessedSMS {
   sender: string;
   body: string;
   date: string;
-  transactionId?: string; // If a transaction was created from this SMS
+  transactionId?: string; // If a transaction was created from this SMS (the first one for a digest)
   isProcessed: boolean;
+  parseTrace?: string; // JSON ParseTrace explaining the parser decision
+  createdAt: string;
+}
+
+// Every transaction created from or matched to an SMS; a digest SMS links to several
+export interface ProcessedSMSTransaction {
+  smsId: string;
+  transactionId: string;
+  lineIndex: number; // Position of the entry in a digest SMS, 0 otherwise
+  createdAt: string;
+}
+
+// Another source's alert for a transaction that was already recorded (an email after the SMS)
+export interface TransactionEvidence {
+  id: string;
+  transactionId: string;
+  source: TransactionSourceType;
+  messageId?: string;
+  sender?: string;
+  matchedOn: string[]; // 'amount', 'reference', 'account suffix', 'account', 'time'
+  reportedAt: string; // Transaction date according to this message
   createdAt: string;
 }
 
+// Shared by CREATE TABLE and the rebuild in migrateAccountsTable
+const ACCOUNTS_COLUMNS = `
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('bank', 'credit', 'mobile_money', 'cash', 'investment')),
+  balance REAL DEFAULT 0,
+  isActive INTEGER DEFAULT 1,
+  smsKeywords TEXT NOT NULL,
+  createdAt TEXT NOT NULL,
+  updatedAt TEXT NOT NULL
+`;
+
+// Shared by CREATE TABLE and the rebuild in migrateTransactionsTable
+const TRANSACTIONS_COLUMNS = `
+  id TEXT PRIMARY KEY,
+  amount REAL NOT NULL,
+  description TEXT NOT NULL,
+  category TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('income', 'expense', 'transfer')),
+  source TEXT NOT NULL CHECK (source IN ('sms', 'email', 'manual', 'import')),
+  date TEXT NOT NULL,
+  receivedAt TEXT,
+  account TEXT,
+  accountSuffix TEXT,
+  fromAccount TEXT,
+  toAccount TEXT,
+  merchant TEXT,
+  isRecurring INTEGER DEFAULT 0,
+  currency TEXT DEFAULT 'GHS',
+  exchangeRate REAL DEFAULT 1.0,
+  originalAmount REAL,
+  originalCurrency TEXT,
+  reference TEXT,
+  parentTransactionId TEXT,
+  status TEXT DEFAULT 'completed' CHECK (status IN ('completed', 'reversed', 'reversal', 'refund')),
+  relatedTransactionId TEXT,
+  transferId TEXT,
+  loanId TEXT,
+  createdAt TEXT NOT NULL,
+  updatedAt TEXT NOT NULL
+`;
+
+// Shared by CREATE TABLE and the rebuild in migrateReviewItemsTable
+const REVIEW_ITEMS_COLUMNS = `
+  id TEXT PRIMARY KEY,
+  smsId TEXT NOT NULL,
+  lineIndex INTEGER NOT NULL DEFAULT 0,
+  sender TEXT NOT NULL,
+  body TEXT NOT NULL,
+  receivedAt TEXT NOT NULL,
+  candidate TEXT NOT NULL,
+  confidence REAL NOT NULL,
+  reason TEXT NOT NULL,
+  fraudSignals TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'dismissed')),
+  transactionId TEXT,
+  createdAt TEXT NOT NULL,
+  resolvedAt TEXT,
+  UNIQUE (smsId, lineIndex)
+`;
+
 export class DatabaseService {
   private db: SQLite.SQLiteDatabase | null = null;
   private initPromise: Promise<void> | null = null;
@@ -138,26 +359,7 @@ export class DatabaseService {
 
     try {
       console.log('Creating transactions table...');
-      await this.db.execAsync(`
-        CREATE TABLE IF NOT EXISTS transactions (
-          id TEXT PRIMARY KEY,
-          amount REAL NOT NULL,
-          description TEXT NOT NULL,
-          category TEXT NOT NULL,
-          type TEXT NOT NULL CHECK (type IN ('income', 'expense')),
-          source TEXT NOT NULL CHECK (source IN ('sms', 'manual')),
-          date TEXT NOT NULL,
-          account TEXT,
-          merchant TEXT,
-          isRecurring INTEGER DEFAULT 0,
-          currency TEXT DEFAULT 'GHS',
-          exchangeRate REAL DEFAULT 1.0,
-          originalAmount REAL,
-          originalCurrency TEXT,
-          createdAt TEXT NOT NULL,
-          updatedAt TEXT NOT NULL
-        )
-      `);
+      await this.db.execAsync(`CREATE TABLE IF NOT EXISTS transactions (${TRANSACTIONS_COLUMNS})`);
 
       // Add currency columns to existing transactions table if they don't exist
       try {
@@ -171,6 +373,80 @@ export class DatabaseService {
         console.log('Currency columns already exist in transactions table:', (error as Error).message);
       }
 
+      // Add reference column to existing transactions table if it doesn't exist
+      try {
+        await this.db.execAsync('ALTER TABLE transactions ADD COLUMN reference TEXT');
+        console.log('Added reference column to transactions table');
+      } catch (error) {
+        console.log('reference column already exists in transactions table:', (error as Error).message);
+      }
+
+      // Add parent link for fee and levy transactions if it doesn't exist
+      try {
+        await this.db.execAsync('ALTER TABLE transactions ADD COLUMN parentTransactionId TEXT');
+        console.log('Added parentTransactionId column to transactions table');
+      } catch (error) {
+        console.log('parentTransactionId column already exists in transactions table:', (error as Error).message);
+      }
+
+      // Add reversal/refund tracking columns if they don't exist
+      try {
+        await this.db.execAsync(`ALTER TABLE transactions ADD COLUMN status TEXT DEFAULT 'completed'`);
+        await this.db.execAsync('ALTER TABLE transactions ADD COLUMN relatedTransactionId TEXT');
+        console.log('Added status columns to transactions table');
+      } catch (error) {
+        console.log('Status columns already exist in transactions table:', (error as Error).message);
+      }
+
+      await this.migrateTransactionsTable();
+
+      // Add transfer link column if it doesn't exist
+      try {
+        await this.db.execAsync('ALTER TABLE transactions ADD COLUMN transferId TEXT');
+        console.log('Added transferId column to transactions table');
+      } catch (error) {
+        console.log('transferId column already exists in transactions table:', (error as Error).message);
+      }
+
+      // Add SMS receive time column if it doesn't exist
+      try {
+        await this.db.execAsync('ALTER TABLE transactions ADD COLUMN receivedAt TEXT');
+        console.log('Added receivedAt column to transactions table');
+      } catch (error) {
+        console.log('receivedAt column already exists in transactions table:', (error as Error).message);
+      }
+
+      // Add account suffix column for cross-source matching if it doesn't exist
+      try {
+        await this.db.execAsync('ALTER TABLE transactions ADD COLUMN accountSuffix TEXT');
+        console.log('Added accountSuffix column to transactions table');
+      } catch (error) {
+        console.log('accountSuffix column already exists in transactions table:', (error as Error).message);
+      }
+
+      // Add loan link column if it doesn't exist
+      try {
+        await this.db.execAsync('ALTER TABLE transactions ADD COLUMN loanId TEXT');
+        console.log('Added loanId column to transactions table');
+      } catch (error) {
+        console.log('loanId column already exists in transactions table:', (error as Error).message);
+      }
+
+      console.log('Creating transfers table...');
+      await this.db.execAsync(`
+        CREATE TABLE IF NOT EXISTS transfers (
+          id TEXT PRIMARY KEY,
+          fromTransactionId TEXT NOT NULL,
+          toTransactionId TEXT NOT NULL,
+          fromAccount TEXT NOT NULL,
+          toAccount TEXT NOT NULL,
+          amount REAL NOT NULL,
+          currency TEXT NOT NULL,
+          date TEXT NOT NULL,
+          createdAt TEXT NOT NULL
+        )
+      `);
+
       console.log('Creating budgets table...');
       await this.db.execAsync(`
         CREATE TABLE IF NOT EXISTS budgets (
@@ -202,14 +478,112 @@ export class DatabaseService {
       `);
 
       console.log('Creating accounts table...');
+      await this.db.execAsync(`CREATE TABLE IF NOT EXISTS accounts (${ACCOUNTS_COLUMNS})`);
+      await this.migrateAccountsTable();
+
+      console.log('Creating account_suggestions table...');
       await this.db.execAsync(`
-        CREATE TABLE IF NOT EXISTS accounts (
+        CREATE TABLE IF NOT EXISTS account_suggestions (
           id TEXT PRIMARY KEY,
+          sender TEXT NOT NULL,
+          senderKey TEXT NOT NULL,
+          accountSuffix TEXT NOT NULL DEFAULT '',
           name TEXT NOT NULL,
-          type TEXT NOT NULL CHECK (type IN ('bank', 'credit', 'cash', 'investment')),
-          balance REAL DEFAULT 0,
-          isActive INTEGER DEFAULT 1,
-          smsKeywords TEXT NOT NULL,
+          type TEXT NOT NULL,
+          messageCount INTEGER DEFAULT 1,
+          lastSeen TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'created', 'dismissed')),
+          accountId TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          UNIQUE (senderKey, accountSuffix)
+        )
+      `);
+
+      console.log('Creating account_balance_snapshots table...');
+      await this.db.execAsync(`
+        CREATE TABLE IF NOT EXISTS account_balance_snapshots (
+          id TEXT PRIMARY KEY,
+          accountId TEXT NOT NULL,
+          balance REAL NOT NULL,
+          currency TEXT NOT NULL DEFAULT 'GHS',
+          transactionId TEXT,
+          source TEXT NOT NULL CHECK (source IN ('sms', 'manual')),
+          reportedAt TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          FOREIGN KEY (accountId) REFERENCES accounts (id)
+        )
+      `);
+
+      console.log('Creating loans table...');
+      await this.db.execAsync(`
+        CREATE TABLE IF NOT EXISTS loans (
+          id TEXT PRIMARY KEY,
+          lender TEXT NOT NULL,
+          principal REAL NOT NULL,
+          currency TEXT NOT NULL DEFAULT 'GHS',
+          disbursedAt TEXT NOT NULL,
+          interestRate REAL,
+          interestAmount REAL,
+          totalDue REAL,
+          schedule TEXT CHECK (schedule IN ('once', 'weekly', 'monthly')),
+          dueDate TEXT,
+          reportedOutstanding REAL,
+          account TEXT,
+          disbursementTransactionId TEXT,
+          status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'repaid')),
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        )
+      `);
+
+      console.log('Creating review_items table...');
+      await this.db.execAsync(`CREATE TABLE IF NOT EXISTS review_items (${REVIEW_ITEMS_COLUMNS})`);
+
+      // Add fraud signals column to existing review_items table if it doesn't exist
+      try {
+        await this.db.execAsync('ALTER TABLE review_items ADD COLUMN fraudSignals TEXT');
+        console.log('Added fraudSignals column to review_items table');
+      } catch (error) {
+        console.log('fraudSignals column already exists in review_items table:', (error as Error).message);
+      }
+      await this.migrateReviewItemsTable();
+
+      console.log('Creating merchant_category_overrides table...');
+      await this.db.execAsync(`
+        CREATE TABLE IF NOT EXISTS merchant_category_overrides (
+          id TEXT PRIMARY KEY,
+          merchantKey TEXT NOT NULL,
+          merchant TEXT NOT NULL,
+          type TEXT NOT NULL CHECK (type IN ('income', 'expense')),
+          category TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          UNIQUE (merchantKey, type)
+        )
+      `);
+
+      console.log('Creating merchants table...');
+      await this.db.execAsync(`
+        CREATE TABLE IF NOT EXISTS merchants (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          aliases TEXT NOT NULL DEFAULT '[]',
+          patterns TEXT NOT NULL DEFAULT '[]',
+          defaultCategory TEXT,
+          icon TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        )
+      `);
+
+      console.log('Creating sms_senders table...');
+      await this.db.execAsync(`
+        CREATE TABLE IF NOT EXISTS sms_senders (
+          id TEXT PRIMARY KEY,
+          sender TEXT NOT NULL,
+          senderKey TEXT NOT NULL UNIQUE,
+          mode TEXT NOT NULL CHECK (mode IN ('always', 'never', 'review')),
           createdAt TEXT NOT NULL,
           updatedAt TEXT NOT NULL
         )
@@ -225,11 +599,22 @@ export class DatabaseService {
           accountId TEXT,
           amountExtraction TEXT NOT NULL,
           merchantExtraction TEXT,
+          type TEXT CHECK (type IN ('income', 'expense')),
+          sampleMessage TEXT,
           isActive INTEGER DEFAULT 1,
           createdAt TEXT NOT NULL
         )
       `);
 
+      // Add forced type and sample SMS columns to existing sms_rules table if they don't exist
+      try {
+        await this.db.execAsync('ALTER TABLE sms_rules ADD COLUMN type TEXT');
+        await this.db.execAsync('ALTER TABLE sms_rules ADD COLUMN sampleMessage TEXT');
+        console.log('Added type and sampleMessage columns to sms_rules table');
+      } catch (error) {
+        console.log('Rule columns already exist in sms_rules table:', (error as Error).message);
+      }
+
       console.log('Creating processed_sms table...');
       await this.db.execAsync(`
         CREATE TABLE IF NOT EXISTS processed_sms (
@@ -244,6 +629,53 @@ export class DatabaseService {
         )
       `);
 
+      // Add parse trace column to existing processed_sms table if it doesn't exist
+      try {
+        await this.db.execAsync('ALTER TABLE processed_sms ADD COLUMN parseTrace TEXT');
+        console.log('Added parseTrace column to processed_sms table');
+      } catch (error) {
+        console.log('parseTrace column already exists in processed_sms table:', (error as Error).message);
+      }
+
+      console.log('Creating processed_sms_transactions table...');
+      await this.db.execAsync(`
+        CREATE TABLE IF NOT EXISTS processed_sms_transactions (
+          smsId TEXT NOT NULL,
+          transactionId TEXT NOT NULL,
+          lineIndex INTEGER NOT NULL DEFAULT 0,
+          createdAt TEXT NOT NULL,
+          PRIMARY KEY (smsId, transactionId)
+        )
+      `);
+      // SMS processed before digests were supported link through processed_sms.transactionId
+      await this.db.execAsync(`
+        INSERT OR IGNORE INTO processed_sms_transactions (smsId, transactionId, lineIndex, createdAt)
+        SELECT smsId, transactionId, 0, createdAt FROM processed_sms WHERE transactionId IS NOT NULL
+      `);
+      // Email transactions used to be saved with source 'sms'; emails are the senders with an address
+      await this.db.execAsync(`
+        UPDATE transactions SET source = 'email'
+        WHERE source = 'sms'
+          AND id IN (SELECT l.transactionId FROM processed_sms_transactions l
+                     JOIN processed_sms p ON p.smsId = l.smsId WHERE p.sender LIKE '%@%')
+          AND id NOT IN (SELECT l.transactionId FROM processed_sms_transactions l
+                         JOIN processed_sms p ON p.smsId = l.smsId WHERE p.sender NOT LIKE '%@%')
+      `);
+
+      console.log('Creating transaction_evidence table...');
+      await this.db.execAsync(`
+        CREATE TABLE IF NOT EXISTS transaction_evidence (
+          id TEXT PRIMARY KEY,
+          transactionId TEXT NOT NULL,
+          source TEXT NOT NULL,
+          messageId TEXT,
+          sender TEXT,
+          matchedOn TEXT NOT NULL,
+          reportedAt TEXT NOT NULL,
+          createdAt TEXT NOT NULL
+        )
+      `);
+
       console.log('Creating currencies table...');
       await this.db.execAsync(`
         CREATE TABLE IF NOT EXISTS currencies (
@@ -280,6 +712,17 @@ export class DatabaseService {
       await this.db.execAsync(`
         CREATE INDEX IF NOT EXISTS idx_transactions_category ON transactions (category)
       `);
+      await this.db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_transactions_parent ON transactions (parentTransactionId)
+      `);
+      await this.db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_transactions_transfer ON transactions (transferId)
+      `);
+      // The same bank reference can only be recorded once per account
+      await this.db.execAsync(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_reference
+        ON transactions (IFNULL(account, ''), reference) WHERE reference IS NOT NULL
+      `);
       await this.db.execAsync(`
         CREATE INDEX IF NOT EXISTS idx_budgets_category ON budgets (category)
       `);
@@ -292,6 +735,21 @@ export class DatabaseService {
       await this.db.execAsync(`
         CREATE INDEX IF NOT EXISTS idx_processed_sms_sender ON processed_sms (sender)
       `);
+      await this.db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_processed_sms_transactions_transaction ON processed_sms_transactions (transactionId)
+      `);
+      await this.db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_transaction_evidence_transaction ON transaction_evidence (transactionId)
+      `);
+      await this.db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_balance_snapshots_account ON account_balance_snapshots (accountId, reportedAt)
+      `);
+      await this.db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_transactions_loan ON transactions (loanId)
+      `);
+      await this.db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_review_items_status ON review_items (status, receivedAt)
+      `);
       
       console.log('All tables and indexes created successfully');
     } catch (error) {
@@ -300,6 +758,84 @@ export class DatabaseService {
     }
   }
 
+  // SQLite cannot change a CHECK constraint in place, so a transactions table created before
+  // the 'transfer' type or the 'email'/'import' sources existed is copied into a fresh one.
+  // Indexes are recreated afterwards.
+  private async migrateTransactionsTable(): Promise<void> {
+    if (!this.db) return;
+    const db = this.db;
+
+    const table = await db.getFirstAsync(
+      `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'transactions'`
+    ) as { sql: string } | null;
+    if (!table || (table.sql.includes("'transfer'") && table.sql.includes("'import'"))) return;
+
+    console.log('Rebuilding transactions table for transfers and all transaction sources...');
+    const columns = (await db.getAllAsync('PRAGMA table_info(transactions)') as { name: string }[])
+      .map(column => column.name)
+      .join(', ');
+
+    await db.withTransactionAsync(async () => {
+      await db.execAsync('DROP TABLE IF EXISTS transactions_new');
+      await db.execAsync(`CREATE TABLE transactions_new (${TRANSACTIONS_COLUMNS})`);
+      await db.execAsync(`INSERT INTO transactions_new (${columns}) SELECT ${columns} FROM transactions`);
+      await db.execAsync('DROP TABLE transactions');
+      await db.execAsync('ALTER TABLE transactions_new RENAME TO transactions');
+    });
+    console.log('Transactions table rebuilt');
+  }
+
+  // Same approach as migrateTransactionsTable, for accounts created before the 'mobile_money' type
+  private async migrateAccountsTable(): Promise<void> {
+    if (!this.db) return;
+    const db = this.db;
+
+    const table = await db.getFirstAsync(
+      `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'accounts'`
+    ) as { sql: string } | null;
+    if (!table || table.sql.includes("'mobile_money'")) return;
+
+    console.log('Rebuilding accounts table to allow mobile money accounts...');
+    const columns = (await db.getAllAsync('PRAGMA table_info(accounts)') as { name: string }[])
+      .map(column => column.name)
+      .join(', ');
+
+    await db.withTransactionAsync(async () => {
+      await db.execAsync('DROP TABLE IF EXISTS accounts_new');
+      await db.execAsync(`CREATE TABLE accounts_new (${ACCOUNTS_COLUMNS})`);
+      await db.execAsync(`INSERT INTO accounts_new (${columns}) SELECT ${columns} FROM accounts`);
+      await db.execAsync('DROP TABLE accounts');
+      await db.execAsync('ALTER TABLE accounts_new RENAME TO accounts');
+    });
+    console.log('Accounts table rebuilt');
+  }
+
+  // Same approach again: review items held one SMS each (smsId UNIQUE) before digest entries
+  // from parse-with-review senders were queued one per line
+  private async migrateReviewItemsTable(): Promise<void> {
+    if (!this.db) return;
+    const db = this.db;
+
+    const table = await db.getFirstAsync(
+      `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'review_items'`
+    ) as { sql: string } | null;
+    if (!table || table.sql.includes('lineIndex')) return;
+
+    console.log('Rebuilding review_items table for digest entries...');
+    const columns = (await db.getAllAsync('PRAGMA table_info(review_items)') as { name: string }[])
+      .map(column => column.name)
+      .join(', ');
+
+    await db.withTransactionAsync(async () => {
+      await db.execAsync('DROP TABLE IF EXISTS review_items_new');
+      await db.execAsync(`CREATE TABLE review_items_new (${REVIEW_ITEMS_COLUMNS})`);
+      await db.execAsync(`INSERT INTO review_items_new (${columns}) SELECT ${columns} FROM review_items`);
+      await db.execAsync('DROP TABLE review_items');
+      await db.execAsync('ALTER TABLE review_items_new RENAME TO review_items');
+    });
+    console.log('Review items table rebuilt');
+  }
+
   // Method to clean up duplicate categories
   async cleanupDuplicateCategories(): Promise<void> {
     if (!this.db) return;
@@ -326,20 +862,7 @@ export class DatabaseService {
     // Clean up any existing duplicates first
     await this.cleanupDuplicateCategories();
 
-    const defaultCategories = [
-      { name: 'Food & Dining', type: 'expense', color: '#FF6B35', icon: 'restaurant', keywords: ['restaurant', 'food', 'dining', 'cafe', 'pizza', 'kfc', 'subway', 'chop bar'] },
-      { name: 'Transportation', type: 'expense', color: '#4ECDC4', icon: 'car', keywords: ['fuel', 'petrol', 'uber', 'taxi', 'bus', 'trotro', 'transport', 'goil', 'shell'] },
-      { name: 'Shopping', type: 'expense', color: '#45B7D1', icon: 'shopping-bag', keywords: ['shopping', 'store', 'purchase', 'market', 'mall', 'shoprite'] },
-      { name: 'Bills & Utilities', type: 'expense', color: '#F39C12', icon: 'receipt', keywords: ['electric', 'water', 'internet', 'phone', 'utility', 'bill', 'ecg', 'vodafone', 'mtn', 'airtel'] },
-      { name: 'Healthcare', type: 'expense', color: '#E74C3C', icon: 'medical-bag', keywords: ['hospital', 'pharmacy', 'doctor', 'medical', 'health', 'clinic'] },
-      { name: 'Entertainment', type: 'expense', color: '#9B59B6', icon: 'music', keywords: ['movie', 'entertainment', 'game', 'concert', 'cinema'] },
-      { name: 'Transfers', type: 'expense', color: '#8E44AD', icon: 'swap-horizontal', keywords: ['transfer', 'wallet', 'bank transfer', 'mobile money', 'momo'] },
-      { name: 'Salary', type: 'income', color: '#27AE60', icon: 'attach-money', keywords: ['salary', 'wage', 'payroll', 'income', 'pay'] },
-      { name: 'Transfers', type: 'income', color: '#16A085', icon: 'swap-horizontal', keywords: ['transfer', 'wallet to bank', 'bank transfer', 'mobile money', 'momo', 'received'] },
-      { name: 'Investment', type: 'income', color: '#2ECC71', icon: 'trending-up', keywords: ['dividend', 'interest', 'investment', 'profit', 'return'] },
-      { name: 'Other Income', type: 'income', color: '#1ABC9C', icon: 'plus-circle', keywords: ['bonus', 'gift', 'refund', 'cashback'] },
-      { name: 'Other Expense', type: 'expense', color: '#95A5A6', icon: 'more-horizontal', keywords: ['misc', 'other', 'miscellaneous'] }
-    ];
+    const defaultCategories = DEFAULT_CATEGORIES;
 
     // First check if categories already exist to prevent duplicates
     const existingCategories = await this.db.getAllAsync('SELECT COUNT(*) as count FROM categories');
@@ -347,6 +870,8 @@ export class DatabaseService {
     
     if (categoryCount > 0) {
       console.log(`Categories already exist (${categoryCount}), skipping default insertion`);
+      await this.insertMissingDefaultCategories([FEES_CATEGORY]);
+      await this.mergeMissingDefaultKeywords();
       return;
     }
     
@@ -373,6 +898,60 @@ export class DatabaseService {
     console.log(`Total categories after insertion: ${(finalCount[0] as any).count}`);
   }
 
+  // Adds default categories introduced after the user's first launch
+  private async insertMissingDefaultCategories(names: string[]): Promise<void> {
+    if (!this.db) return;
+
+    for (const category of DEFAULT_CATEGORIES.filter(c => names.includes(c.name))) {
+      const existing = await this.db.getFirstAsync(
+        'SELECT id FROM categories WHERE name = ? AND type = ?',
+        [category.name, category.type]
+      );
+      if (existing) continue;
+
+      const id = `cat_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      try {
+        await this.db.runAsync(
+          `INSERT INTO categories (id, name, type, color, icon, keywords, createdAt) 
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [id, category.name, category.type, category.color, category.icon, JSON.stringify(category.keywords), new Date().toISOString()]
+        );
+        console.log(`Inserted new default category: ${category.name}`);
+      } catch (error) {
+        console.error(`Failed to insert category ${category.name}:`, error);
+      }
+    }
+  }
+
+  // Adds keywords introduced after the user's first launch (M-Pesa, French SMS, ...) to the
+  // default categories they already have. Keywords are not editable in the app, so none were removed on purpose
+  private async mergeMissingDefaultKeywords(): Promise<void> {
+    if (!this.db) return;
+
+    for (const category of DEFAULT_CATEGORIES) {
+      const existing = await this.db.getFirstAsync(
+        'SELECT id, keywords FROM categories WHERE name = ? AND type = ?',
+        [category.name, category.type]
+      ) as { id: string; keywords: string } | null;
+      if (!existing) continue;
+
+      try {
+        const keywords: string[] = JSON.parse(existing.keywords);
+        const known = new Set(keywords.map(keyword => keyword.toLowerCase()));
+        const missing = category.keywords.filter(keyword => !known.has(keyword.toLowerCase()));
+        if (missing.length === 0) continue;
+
+        await this.db.runAsync(
+          'UPDATE categories SET keywords = ? WHERE id = ?',
+          [JSON.stringify([...keywords, ...missing]), existing.id]
+        );
+        console.log(`Added keywords to ${category.name}: ${missing.join(', ')}`);
+      } catch (error) {
+        console.error(`Failed to update keywords for category ${category.name}:`, error);
+      }
+    }
+  }
+
   private async insertDefaultCurrencies(): Promise<void> {
     if (!this.db) return;
     
@@ -487,6 +1066,10 @@ export class DatabaseService {
           'DELETE FROM processed_sms WHERE smsId LIKE ?',
           [pattern]
         );
+        await db.runAsync(
+          'DELETE FROM processed_sms_transactions WHERE smsId LIKE ?',
+          [pattern]
+        );
       }
 
       console.log(`Cleared ${totalDeleted} demo transactions`);
@@ -505,7 +1088,8 @@ export class DatabaseService {
 
       console.log('Scanning for duplicate transactions...');
 
-      // Find potential duplicates: same amount, type, and date within 1 minute window
+      // Find potential duplicates: same amount, type, and date within 1 minute window.
+      // Transactions with different bank references are never duplicates, and fee lines are skipped.
       const duplicateQuery = `
         SELECT 
           t1.id as keep_id,
@@ -521,6 +1105,9 @@ export class DatabaseService {
           AND t1.type = t2.type 
           AND t1.category = t2.category
           AND t1.id < t2.id
+          AND (t1.reference IS NULL OR t2.reference IS NULL OR t1.reference = t2.reference)
+          AND t1.parentTransactionId IS NULL
+          AND t2.parentTransactionId IS NULL
           AND ABS((julianday(t2.date) - julianday(t1.date)) * 86400) <= 60
         ORDER BY t1.date, t1.amount
       `;
@@ -541,12 +1128,12 @@ export class DatabaseService {
         }
       }
 
-      // Remove the duplicates
+      // Remove the duplicates along with their fee and levy lines
       if (idsToRemove.length > 0) {
         const placeholders = idsToRemove.map(() => '?').join(',');
         const result = await db.runAsync(
-          `DELETE FROM transactions WHERE id IN (${placeholders})`,
-          idsToRemove
+          `DELETE FROM transactions WHERE id IN (${placeholders}) OR parentTransactionId IN (${placeholders})`,
+          [...idsToRemove, ...idsToRemove]
         );
         removedCount = result.changes || 0;
       }
@@ -0,0 +1,377 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert
+} from 'react-native';
+import { Account, AccountSuggestion, AccountType } from '../database/schema';
+import { accountService } from '../services/accountService';
+import { accountDiscoveryService } from '../services/accountDiscoveryService';
+
+interface AccountsScreenProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const TYPE_OPTIONS: { type: AccountType; label: string }[] = [
+  { type: 'bank', label: 'Bank' },
+  { type: 'credit', label: 'Credit' },
+  { type: 'mobile_money', label: 'Mobile Money' },
+];
+
+const TYPE_LABELS: { [type: string]: string } = {
+  bank: '🏦 Bank',
+  credit: '💳 Credit',
+  mobile_money: '📱 Mobile Money',
+  cash: '💵 Cash',
+  investment: '📈 Investment',
+};
+
+export const AccountsScreen: React.FC<AccountsScreenProps> = ({ visible, onClose }) => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [suggestions, setSuggestions] = useState<AccountSuggestion[]>([]);
+  // Edits to a suggestion's name and type before it is created
+  const [drafts, setDrafts] = useState<{ [id: string]: { name: string; type: AccountType } }>({});
+
+  useEffect(() => {
+    if (visible) {
+      loadAccounts();
+    }
+  }, [visible]);
+
+  const loadAccounts = async () => {
+    try {
+      const [loadedAccounts, loadedSuggestions] = await Promise.all([
+        accountService.getAccounts(),
+        accountDiscoveryService.getSuggestions(),
+      ]);
+      setAccounts(loadedAccounts);
+      setSuggestions(loadedSuggestions);
+      setDrafts({});
+    } catch (error) {
+      console.error('Failed to load accounts:', error);
+    }
+  };
+
+  const draftFor = (suggestion: AccountSuggestion) =>
+    drafts[suggestion.id] || { name: suggestion.name, type: suggestion.type };
+
+  const updateDraft = (suggestion: AccountSuggestion, changes: Partial<{ name: string; type: AccountType }>) => {
+    setDrafts(prev => ({ ...prev, [suggestion.id]: { ...draftFor(suggestion), ...changes } }));
+  };
+
+  const createAccount = async (suggestion: AccountSuggestion) => {
+    const draft = draftFor(suggestion);
+    if (!draft.name.trim()) {
+      Alert.alert('Error', 'Give the account a name');
+      return;
+    }
+
+    try {
+      await accountDiscoveryService.createAccount(suggestion, draft.name, draft.type);
+      await loadAccounts();
+    } catch (error) {
+      console.error('Failed to create account:', error);
+      Alert.alert('Error', 'Failed to create the account');
+    }
+  };
+
+  const linkToAccount = async (suggestion: AccountSuggestion, account: Account) => {
+    try {
+      await accountDiscoveryService.linkToAccount(suggestion, account.id, account.name);
+      await loadAccounts();
+    } catch (error) {
+      console.error('Failed to link account:', error);
+      Alert.alert('Error', 'Failed to add the number to the account');
+    }
+  };
+
+  const dismiss = async (suggestion: AccountSuggestion) => {
+    try {
+      await accountDiscoveryService.dismiss(suggestion.id);
+      await loadAccounts();
+    } catch (error) {
+      console.error('Failed to dismiss account suggestion:', error);
+    }
+  };
+
+  const renderSuggestion = (suggestion: AccountSuggestion) => {
+    const draft = draftFor(suggestion);
+    return (
+      <View key={suggestion.id} style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.sender}>{suggestion.sender}</Text>
+          <Text style={styles.date}>{new Date(suggestion.lastSeen).toLocaleDateString()}</Text>
+        </View>
+        <Text style={styles.details}>
+          {suggestion.accountSuffix ? `Account ending ${suggestion.accountSuffix}` : 'No account set up for this sender'}
+          {' · '}{suggestion.messageCount} message{suggestion.messageCount === 1 ? '' : 's'}
+        </Text>
+
+        <TextInput
+          style={styles.input}
+          value={draft.name}
+          onChangeText={name => updateDraft(suggestion, { name })}
+          placeholder="Account name"
+        />
+
+        <View style={styles.chipRow}>
+          {TYPE_OPTIONS.map(option => {
+            const isActive = draft.type === option.type;
+            return (
+              <TouchableOpacity
+                key={option.type}
+                style={[styles.chip, isActive && styles.chipActive]}
+                onPress={() => updateDraft(suggestion, { type: option.type })}
+              >
+                <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <Text style={styles.keywords}>
+          Keywords: {accountDiscoveryService.keywordsFor(suggestion).join(', ')}
+        </Text>
+
+        {accounts.length > 0 && (
+          <>
+            <Text style={styles.linkLabel}>Or add to an existing account</Text>
+            <View style={styles.chipRow}>
+              {accounts.map(account => (
+                <TouchableOpacity key={account.id} style={styles.chip} onPress={() => linkToAccount(suggestion, account)}>
+                  <Text style={styles.chipText}>{account.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+
+        <View style={styles.actionRow}>
+          <TouchableOpacity style={styles.dismissButton} onPress={() => dismiss(suggestion)}>
+            <Text style={styles.dismissText}>Dismiss</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.createButton} onPress={() => createAccount(suggestion)}>
+            <Text style={styles.createText}>Create Account</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderAccount = (account: Account) => (
+    <View key={account.id} style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.sender}>{account.name}</Text>
+        <Text style={styles.type}>{TYPE_LABELS[account.type] || account.type}</Text>
+      </View>
+      <Text style={styles.details}>Balance: {account.balance.toLocaleString()}</Text>
+      {account.smsKeywords.length > 0 && (
+        <Text style={styles.keywords}>Keywords: {account.smsKeywords.join(', ')}</Text>
+      )}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.headerClose}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Accounts</Text>
+          <View style={styles.headerSpacing} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          {suggestions.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>Detected accounts</Text>
+              <Text style={styles.intro}>
+                Found in your messages. Creating one routes its future messages to it.
+              </Text>
+              {suggestions.map(renderSuggestion)}
+            </>
+          )}
+
+          <Text style={styles.sectionTitle}>Your accounts</Text>
+          {accounts.length > 0 ? accounts.map(renderAccount) : (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyIcon}>🏦</Text>
+              <Text style={styles.emptyText}>No accounts yet</Text>
+            </View>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  headerClose: {
+    fontSize: 16,
+    color: '#8B5CF6',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  headerSpacing: {
+    width: 50,
+  },
+  content: {
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyIcon: {
+    fontSize: 40,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  sender: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  date: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  type: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  details: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  keywords: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1F2937',
+    backgroundColor: '#F9FAFB',
+    marginTop: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  chipActive: {
+    backgroundColor: '#8B5CF6',
+    borderColor: '#8B5CF6',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  linkLabel: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 12,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  dismissButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#F3F4F6',
+  },
+  dismissText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  createButton: {
+    flex: 2,
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#8B5CF6',
+  },
+  createText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
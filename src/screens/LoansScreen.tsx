@@ -0,0 +1,288 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  FlatList,
+  Alert
+} from 'react-native';
+import { loanService, LoanSummary } from '../services/loanService';
+
+interface LoansScreenProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const formatAmount = (amount: number, currency: string) =>
+  `${currency} ${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const LoansScreen: React.FC<LoansScreenProps> = ({ visible, onClose }) => {
+  const [loans, setLoans] = useState<LoanSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      loadLoans();
+    }
+  }, [visible]);
+
+  const loadLoans = async () => {
+    try {
+      setIsLoading(true);
+      setLoans(await loanService.getLoans());
+    } catch (error) {
+      console.error('Failed to load loans:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const markRepaid = (loan: LoanSummary) => {
+    Alert.alert(
+      'Mark as Repaid',
+      `Close the ${loan.lender} loan? It will no longer show an outstanding balance.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Mark Repaid',
+          onPress: async () => {
+            try {
+              await loanService.markRepaid(loan.id);
+              await loadLoans();
+            } catch (error) {
+              console.error('Failed to mark loan as repaid:', error);
+              Alert.alert('Error', 'Failed to update the loan');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const activeLoans = loans.filter(loan => loan.status === 'active');
+
+  const renderLoan = ({ item }: { item: LoanSummary }) => {
+    const owed = item.repaid + item.outstanding;
+    const progress = owed > 0 ? Math.min(item.repaid / owed, 1) : 1;
+    const isOverdue = !!item.nextDueDate && new Date(item.nextDueDate).getTime() < Date.now();
+
+    return (
+      <View style={[styles.card, item.status === 'repaid' && styles.cardRepaid]}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.lender}>{item.lender}</Text>
+          <Text style={styles.date}>{new Date(item.disbursedAt).toLocaleDateString()}</Text>
+        </View>
+        <Text style={styles.principal}>Borrowed {formatAmount(item.principal, item.currency)}</Text>
+
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+        </View>
+
+        <View style={styles.statsRow}>
+          <View style={styles.stat}>
+            <Text style={styles.statLabel}>Outstanding</Text>
+            <Text style={styles.statValue}>{formatAmount(item.outstanding, item.currency)}</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statLabel}>Repaid</Text>
+            <Text style={styles.statValue}>{formatAmount(item.repaid, item.currency)}</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statLabel}>Interest paid</Text>
+            <Text style={styles.statValue}>{formatAmount(item.interestPaid, item.currency)}</Text>
+          </View>
+        </View>
+
+        {item.status === 'repaid' ? (
+          <Text style={styles.repaidText}>✅ Repaid</Text>
+        ) : (
+          <>
+            <Text style={[styles.dueText, isOverdue && styles.overdueText]}>
+              {item.nextDueDate
+                ? `${isOverdue ? '⚠️ Overdue since' : '📅 Next due'} ${new Date(item.nextDueDate).toLocaleDateString()}`
+                : 'No due date in the lender\'s messages'}
+            </Text>
+            <TouchableOpacity style={styles.repaidButton} onPress={() => markRepaid(item)}>
+              <Text style={styles.repaidButtonText}>Mark as Repaid</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.headerClose}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Loans</Text>
+          <View style={styles.headerSpacing} />
+        </View>
+
+        <FlatList
+          data={loans}
+          keyExtractor={item => item.id}
+          renderItem={renderLoan}
+          contentContainerStyle={styles.content}
+          refreshing={isLoading}
+          onRefresh={loadLoans}
+          ListHeaderComponent={loans.length > 0 ? (
+            <Text style={styles.intro}>
+              {activeLoans.length} active loan{activeLoans.length === 1 ? '' : 's'}.
+              Disbursements are not counted as income; repayments are linked from the lender's SMS.
+            </Text>
+          ) : null}
+          ListEmptyComponent={!isLoading ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyIcon}>💰</Text>
+              <Text style={styles.emptyText}>No loans detected</Text>
+            </View>
+          ) : null}
+        />
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  headerClose: {
+    fontSize: 16,
+    color: '#8B5CF6',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  headerSpacing: {
+    width: 50,
+  },
+  content: {
+    padding: 20,
+    flexGrow: 1,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyIcon: {
+    fontSize: 40,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardRepaid: {
+    opacity: 0.6,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  lender: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  date: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  principal: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#F3F4F6',
+    marginTop: 12,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#8B5CF6',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  stat: {
+    flex: 1,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginTop: 2,
+  },
+  dueText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 12,
+  },
+  overdueText: {
+    color: '#EF4444',
+  },
+  repaidText: {
+    fontSize: 13,
+    color: '#10B981',
+    marginTop: 12,
+  },
+  repaidButton: {
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#F3F4F6',
+    marginTop: 12,
+  },
+  repaidButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+});
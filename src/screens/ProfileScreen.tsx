@@ -17,6 +17,13 @@ import { useAppContext } from '../context/AppContext';
 import { smsListenerService } from '../services/smsListener';
 import { databaseService } from '../database/schema';
 import { currencyService } from '../services/currencyService';
+import { reviewInboxService } from '../services/reviewInboxService';
+import { transferService } from '../services/transferService';
+import { ReviewInboxScreen } from './ReviewInboxScreen';
+import { SMSRulesScreen } from './SMSRulesScreen';
+import { SMSSendersScreen } from './SMSSendersScreen';
+import { AccountsScreen } from './AccountsScreen';
+import { LoansScreen } from './LoansScreen';
 
 export const ProfileScreen: React.FC = () => {
   const { state, refreshData } = useAppContext();
@@ -29,11 +36,22 @@ export const ProfileScreen: React.FC = () => {
   const [hasPin, setHasPin] = useState(false);
   const [showPinModal, setShowPinModal] = useState(false);
   const [pinModalMode, setPinModalMode] = useState<'set' | 'change' | 'remove'>('set');
+  const [showReviewInbox, setShowReviewInbox] = useState(false);
+  const [pendingReviewCount, setPendingReviewCount] = useState(0);
+  const [showSMSRules, setShowSMSRules] = useState(false);
+  const [showSMSSenders, setShowSMSSenders] = useState(false);
+  const [showAccounts, setShowAccounts] = useState(false);
+  const [showLoans, setShowLoans] = useState(false);
 
   useEffect(() => {
     loadUserData();
+    loadPendingReviewCount();
   }, []);
 
+  const loadPendingReviewCount = async () => {
+    setPendingReviewCount(await reviewInboxService.getPendingCount());
+  };
+
   const loadUserData = async () => {
     try {
       const savedUserName = await AsyncStorage.getItem('userName');
@@ -133,6 +151,21 @@ export const ProfileScreen: React.FC = () => {
     );
   };
 
+  const handleFindTransfers = async () => {
+    try {
+      const linkedCount = await transferService.scanForTransfers();
+      Alert.alert(
+        'Transfers Matched',
+        linkedCount > 0
+          ? `Matched ${linkedCount} transfers between your accounts. They no longer count as income or spending.`
+          : 'No transfers between your accounts found.'
+      );
+      await refreshData();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to match transfers');
+    }
+  };
+
   const handleProcessSMSHistory = async () => {
     try {
       const result = await smsListenerService.processSMSHistory();
@@ -416,6 +449,65 @@ export const ProfileScreen: React.FC = () => {
         <View style={styles.actionsSection}>
           <Text style={styles.sectionTitle}>Actions</Text>
           
+          <TouchableOpacity style={styles.actionButton} onPress={() => setShowReviewInbox(true)}>
+            <View style={[styles.actionIcon, { backgroundColor: '#8B5CF6' }]}>
+              <Text style={styles.actionIconText}>📝</Text>
+            </View>
+            <View style={styles.actionInfo}>
+              <Text style={styles.actionLabel}>Review Inbox</Text>
+              <Text style={styles.actionDescription}>
+                {pendingReviewCount > 0
+                  ? `${pendingReviewCount} message${pendingReviewCount === 1 ? '' : 's'} to review`
+                  : 'Confirm uncertain SMS transactions'}
+              </Text>
+            </View>
+            <Text style={styles.actionChevron}>›</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => setShowSMSRules(true)}>
+            <View style={[styles.actionIcon, { backgroundColor: '#10B981' }]}>
+              <Text style={styles.actionIconText}>🧩</Text>
+            </View>
+            <View style={styles.actionInfo}>
+              <Text style={styles.actionLabel}>SMS Rules</Text>
+              <Text style={styles.actionDescription}>Teach the app new SMS formats</Text>
+            </View>
+            <Text style={styles.actionChevron}>›</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => setShowSMSSenders(true)}>
+            <View style={[styles.actionIcon, { backgroundColor: '#6366F1' }]}>
+              <Text style={styles.actionIconText}>📨</Text>
+            </View>
+            <View style={styles.actionInfo}>
+              <Text style={styles.actionLabel}>SMS Senders</Text>
+              <Text style={styles.actionDescription}>Always parse, review or ignore a sender</Text>
+            </View>
+            <Text style={styles.actionChevron}>›</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => setShowAccounts(true)}>
+            <View style={[styles.actionIcon, { backgroundColor: '#14B8A6' }]}>
+              <Text style={styles.actionIconText}>🏦</Text>
+            </View>
+            <View style={styles.actionInfo}>
+              <Text style={styles.actionLabel}>Accounts</Text>
+              <Text style={styles.actionDescription}>Add accounts detected in your messages</Text>
+            </View>
+            <Text style={styles.actionChevron}>›</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => setShowLoans(true)}>
+            <View style={[styles.actionIcon, { backgroundColor: '#EC4899' }]}>
+              <Text style={styles.actionIconText}>💰</Text>
+            </View>
+            <View style={styles.actionInfo}>
+              <Text style={styles.actionLabel}>Loans</Text>
+              <Text style={styles.actionDescription}>Outstanding balances and due dates</Text>
+            </View>
+            <Text style={styles.actionChevron}>›</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity style={styles.actionButton} onPress={handleProcessSMSHistory}>
             <View style={[styles.actionIcon, { backgroundColor: '#F59E0B' }]}>
               <Text style={styles.actionIconText}>📋</Text>
@@ -438,6 +530,17 @@ export const ProfileScreen: React.FC = () => {
             <Text style={styles.actionChevron}>›</Text>
           </TouchableOpacity>
 
+          <TouchableOpacity style={styles.actionButton} onPress={handleFindTransfers}>
+            <View style={[styles.actionIcon, { backgroundColor: '#3B82F6' }]}>
+              <Text style={styles.actionIconText}>🔁</Text>
+            </View>
+            <View style={styles.actionInfo}>
+              <Text style={styles.actionLabel}>Match Transfers</Text>
+              <Text style={styles.actionDescription}>Pair MoMo and bank legs of the same transfer</Text>
+            </View>
+            <Text style={styles.actionChevron}>›</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity style={styles.actionButton} onPress={handleRemoveDuplicates}>
             <View style={[styles.actionIcon, { backgroundColor: '#06B6D4' }]}>
               <Text style={styles.actionIconText}>🔍</Text>
@@ -468,6 +571,34 @@ export const ProfileScreen: React.FC = () => {
           loadUserData();
         }}
       />
+
+      <ReviewInboxScreen
+        visible={showReviewInbox}
+        onClose={() => {
+          setShowReviewInbox(false);
+          loadPendingReviewCount();
+        }}
+      />
+
+      <SMSRulesScreen
+        visible={showSMSRules}
+        onClose={() => setShowSMSRules(false)}
+      />
+
+      <SMSSendersScreen
+        visible={showSMSSenders}
+        onClose={() => setShowSMSSenders(false)}
+      />
+
+      <AccountsScreen
+        visible={showAccounts}
+        onClose={() => setShowAccounts(false)}
+      />
+
+      <LoansScreen
+        visible={showLoans}
+        onClose={() => setShowLoans(false)}
+      />
     </SafeAreaView>
   );
 };
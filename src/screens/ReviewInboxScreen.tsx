@@ -0,0 +1,510 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  FlatList,
+  TextInput,
+  ScrollView,
+  Alert
+} from 'react-native';
+import { useAppContext } from '../context/AppContext';
+import { Category, databaseService } from '../database/schema';
+import { reviewInboxService, ReviewInboxItem } from '../services/reviewInboxService';
+
+interface ReviewInboxScreenProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+interface ReviewDraft {
+  amount: string;
+  type: 'income' | 'expense';
+  category: string;
+  merchant: string;
+}
+
+export const ReviewInboxScreen: React.FC<ReviewInboxScreenProps> = ({ visible, onClose }) => {
+  const { refreshData } = useAppContext();
+  const [items, setItems] = useState<ReviewInboxItem[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ReviewDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      loadItems();
+      loadCategories();
+    }
+  }, [visible]);
+
+  const loadItems = async () => {
+    try {
+      setIsLoading(true);
+      setItems(await reviewInboxService.getItems());
+    } catch (error) {
+      console.error('Failed to load review items:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadCategories = async () => {
+    try {
+      const db = await databaseService.getDatabase();
+      if (!db) return;
+
+      const result = await db.getAllAsync('SELECT * FROM categories ORDER BY name');
+      setCategories(result.map((row: any) => ({
+        ...row,
+        keywords: JSON.parse(row.keywords)
+      })));
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+    }
+  };
+
+  const startEditing = (item: ReviewInboxItem) => {
+    setEditingId(item.id);
+    setDraft({
+      amount: String(item.candidate.amount),
+      type: item.candidate.type,
+      category: item.candidate.category,
+      merchant: item.candidate.merchant || ''
+    });
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const acceptItem = async (item: ReviewInboxItem, edited?: ReviewDraft) => {
+    const amount = edited ? parseFloat(edited.amount) : item.candidate.amount;
+    if (isNaN(amount) || amount <= 0) {
+      Alert.alert('Invalid Amount', 'Please enter an amount greater than zero');
+      return;
+    }
+    if (edited && !edited.category) {
+      Alert.alert('Missing Category', 'Please choose a category');
+      return;
+    }
+
+    try {
+      await reviewInboxService.acceptItem(item.id, {
+        ...item.candidate,
+        amount,
+        type: edited?.type || item.candidate.type,
+        category: edited?.category || item.candidate.category,
+        merchant: edited ? (edited.merchant.trim() || undefined) : item.candidate.merchant
+      });
+      cancelEditing();
+      await loadItems();
+      await refreshData();
+    } catch (error) {
+      console.error('Failed to accept review item:', error);
+      Alert.alert('Error', 'Failed to create the transaction');
+    }
+  };
+
+  // A suspected scam needs a second tap, since the money it claims may never have arrived
+  const confirmAccept = (item: ReviewInboxItem, edited?: ReviewDraft) => {
+    if (item.fraudSignals.length === 0) {
+      acceptItem(item, edited);
+      return;
+    }
+
+    Alert.alert(
+      'Possible Scam',
+      'Only record this message if your bank or wallet balance shows the money. Record it anyway?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Record', style: 'destructive', onPress: () => acceptItem(item, edited) },
+      ]
+    );
+  };
+
+  const dismissItem = async (item: ReviewInboxItem) => {
+    try {
+      await reviewInboxService.dismissItem(item.id);
+      if (editingId === item.id) cancelEditing();
+      await loadItems();
+    } catch (error) {
+      console.error('Failed to dismiss review item:', error);
+      Alert.alert('Error', 'Failed to dismiss the message');
+    }
+  };
+
+  const renderEditor = (item: ReviewInboxItem) => {
+    if (!draft) return null;
+
+    return (
+      <View style={styles.editor}>
+        <View style={styles.typeToggle}>
+          {(['expense', 'income'] as const).map(type => (
+            <TouchableOpacity
+              key={type}
+              style={[styles.typeButton, draft.type === type && styles.typeButtonActive]}
+              onPress={() => setDraft({ ...draft, type, category: '' })}
+            >
+              <Text style={[styles.typeButtonText, draft.type === type && styles.typeButtonTextActive]}>
+                {type === 'expense' ? 'Expense' : 'Income'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.inputLabel}>Amount ({item.candidate.currency})</Text>
+        <TextInput
+          style={styles.input}
+          value={draft.amount}
+          onChangeText={amount => setDraft({ ...draft, amount })}
+          keyboardType="decimal-pad"
+        />
+
+        <Text style={styles.inputLabel}>Category</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={styles.categoryContainer}>
+            {categories.filter(cat => cat.type === draft.type).map(cat => (
+              <TouchableOpacity
+                key={cat.id}
+                style={[styles.categoryChip, draft.category === cat.name && styles.categoryChipActive]}
+                onPress={() => setDraft({ ...draft, category: cat.name })}
+              >
+                <Text style={[styles.categoryChipText, draft.category === cat.name && styles.categoryChipTextActive]}>
+                  {cat.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+
+        <Text style={styles.inputLabel}>Merchant (Optional)</Text>
+        <TextInput
+          style={styles.input}
+          value={draft.merchant}
+          onChangeText={merchant => setDraft({ ...draft, merchant })}
+          placeholder="Store or person"
+        />
+
+        <View style={styles.actions}>
+          <TouchableOpacity style={[styles.actionButton, styles.secondaryButton]} onPress={cancelEditing}>
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.actionButton, styles.primaryButton]} onPress={() => confirmAccept(item, draft)}>
+            <Text style={styles.primaryButtonText}>Save & Accept</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderItem = ({ item }: { item: ReviewInboxItem }) => (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.sender}>{item.sender}</Text>
+        <Text style={styles.date}>{new Date(item.receivedAt).toLocaleDateString()}</Text>
+      </View>
+      <Text style={styles.body} numberOfLines={editingId === item.id ? undefined : 4}>{item.body}</Text>
+
+      {item.fraudSignals.length > 0 && (
+        <View style={styles.warning}>
+          <Text style={styles.warningTitle}>⚠️ Possible scam, not recorded</Text>
+          {item.fraudSignals.map(signal => (
+            <Text key={signal.kind} style={styles.warningText}>• {signal.detail}</Text>
+          ))}
+          <Text style={styles.warningText}>Don't send money back or share codes. Check your balance with your bank.</Text>
+        </View>
+      )}
+
+      {editingId === item.id ? renderEditor(item) : (
+        <>
+          <View style={styles.guess}>
+            <Text style={styles.guessLabel}>Best guess</Text>
+            <Text style={styles.guessValue}>
+              {item.candidate.type === 'income' ? '💰' : '💸'} {item.candidate.currency} {item.candidate.amount.toLocaleString()} · {item.candidate.category}
+              {item.candidate.merchant ? ` · ${item.candidate.merchant}` : ''}
+            </Text>
+            <Text style={styles.confidence}>Confidence {item.confidence.toFixed(2)}</Text>
+          </View>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={[styles.actionButton, styles.secondaryButton]} onPress={() => dismissItem(item)}>
+              <Text style={styles.secondaryButtonText}>Dismiss</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.actionButton, styles.outlineButton]} onPress={() => startEditing(item)}>
+              <Text style={styles.outlineButtonText}>Edit</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.actionButton, styles.primaryButton]} onPress={() => confirmAccept(item)}>
+              <Text style={styles.primaryButtonText}>Accept</Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.headerClose}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Review Inbox</Text>
+          <View style={styles.headerSpacing} />
+        </View>
+
+        <FlatList
+          data={items}
+          keyExtractor={item => item.id}
+          renderItem={renderItem}
+          contentContainerStyle={styles.content}
+          refreshing={isLoading}
+          onRefresh={loadItems}
+          ListHeaderComponent={items.length > 0 ? (
+            <Text style={styles.intro}>
+              These messages looked like transactions, but the parser was not sure or suspected a scam. Accept, edit or dismiss each one.
+            </Text>
+          ) : null}
+          ListEmptyComponent={!isLoading ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyIcon}>🎉</Text>
+              <Text style={styles.emptyText}>Nothing to review</Text>
+            </View>
+          ) : null}
+        />
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  headerClose: {
+    fontSize: 16,
+    color: '#8B5CF6',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  headerSpacing: {
+    width: 50,
+  },
+  content: {
+    padding: 20,
+    flexGrow: 1,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyIcon: {
+    fontSize: 40,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  sender: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  date: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  body: {
+    fontSize: 14,
+    color: '#4B5563',
+    lineHeight: 20,
+  },
+  warning: {
+    backgroundColor: '#FEF2F2',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+  },
+  warningTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#B91C1C',
+    marginBottom: 4,
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#7F1D1D',
+    marginTop: 2,
+  },
+  guess: {
+    backgroundColor: '#FFFBEB',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+  },
+  guessLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#92400E',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  guessValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  confidence: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#8B5CF6',
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    backgroundColor: '#F3F4F6',
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  outlineButton: {
+    borderWidth: 1,
+    borderColor: '#8B5CF6',
+  },
+  outlineButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8B5CF6',
+  },
+  editor: {
+    marginTop: 12,
+  },
+  typeToggle: {
+    flexDirection: 'row',
+    marginBottom: 12,
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    padding: 4,
+  },
+  typeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  typeButtonActive: {
+    backgroundColor: '#8B5CF6',
+  },
+  typeButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  typeButtonTextActive: {
+    color: '#FFFFFF',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1F2937',
+    backgroundColor: '#FFFFFF',
+  },
+  categoryContainer: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  categoryChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  categoryChipActive: {
+    backgroundColor: '#8B5CF6',
+    borderColor: '#8B5CF6',
+  },
+  categoryChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  categoryChipTextActive: {
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,802 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Switch,
+  Alert,
+  Share
+} from 'react-native';
+import { Account, Category, SMSRule, databaseService } from '../database/schema';
+import { smsParserService, RulePreview } from '../services/smsParser';
+import { rulePackService } from '../services/rulePackService';
+
+interface SMSRulesScreenProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+interface RuleDraft {
+  id?: string;
+  name: string;
+  pattern: string;
+  sampleMessage: string;
+  type: 'income' | 'expense';
+  categoryId: string;
+  accountId?: string;
+  isActive: boolean;
+}
+
+const GROUP_SNIPPETS = [
+  { label: 'amount', snippet: '(?<amount>[\\d,]+(?:\\.\\d{1,2})?)' },
+  { label: 'merchant', snippet: '(?<merchant>[A-Z0-9 &.-]+?)' },
+  { label: 'balance', snippet: '(?<balance>[\\d,]+(?:\\.\\d{1,2})?)' },
+  { label: 'reference', snippet: '(?<reference>[A-Z0-9.]+)' },
+];
+
+const emptyDraft = (): RuleDraft => ({
+  name: '',
+  pattern: '',
+  sampleMessage: '',
+  type: 'expense',
+  categoryId: '',
+  isActive: true,
+});
+
+export const SMSRulesScreen: React.FC<SMSRulesScreenProps> = ({ visible, onClose }) => {
+  const [rules, setRules] = useState<SMSRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [packMode, setPackMode] = useState<'import' | 'export' | null>(null);
+  const [packJSON, setPackJSON] = useState('');
+  const [packMetadata, setPackMetadata] = useState({ name: '', bank: '', country: '' });
+
+  useEffect(() => {
+    if (visible) {
+      loadRules();
+      loadOptions();
+    } else {
+      setDraft(null);
+      setPackMode(null);
+    }
+  }, [visible]);
+
+  const loadRules = async () => {
+    try {
+      setRules(await smsParserService.getSMSRules());
+    } catch (error) {
+      console.error('Failed to load SMS rules:', error);
+    }
+  };
+
+  const loadOptions = async () => {
+    try {
+      const db = await databaseService.getDatabase();
+      if (!db) return;
+
+      const categoryRows = await db.getAllAsync('SELECT * FROM categories ORDER BY name');
+      setCategories(categoryRows.map((row: any) => ({
+        ...row,
+        keywords: JSON.parse(row.keywords)
+      })));
+
+      const accountRows = await db.getAllAsync('SELECT * FROM accounts WHERE isActive = 1 ORDER BY name');
+      setAccounts(accountRows.map((row: any) => ({
+        ...row,
+        smsKeywords: JSON.parse(row.smsKeywords)
+      })));
+    } catch (error) {
+      console.error('Failed to load rule options:', error);
+    }
+  };
+
+  const toRule = (ruleDraft: RuleDraft): Omit<SMSRule, 'id' | 'createdAt'> => ({
+    name: ruleDraft.name.trim(),
+    pattern: ruleDraft.pattern,
+    categoryId: ruleDraft.categoryId,
+    accountId: ruleDraft.accountId,
+    amountExtraction: 'amount',
+    merchantExtraction: 'merchant',
+    type: ruleDraft.type,
+    sampleMessage: ruleDraft.sampleMessage.trim() || undefined,
+    isActive: ruleDraft.isActive,
+  });
+
+  // Re-run the rule against the sample on every edit
+  const preview: RulePreview | null = useMemo(() => {
+    if (!draft || !draft.pattern || !draft.sampleMessage.trim()) return null;
+    return smsParserService.previewRule(draft.sampleMessage, {
+      ...toRule(draft),
+      id: draft.id || 'preview',
+      createdAt: new Date().toISOString(),
+    });
+  }, [draft, categories, accounts]);
+
+  const editRule = (rule: SMSRule) => {
+    const category = categories.find(c => c.id === rule.categoryId);
+    setDraft({
+      id: rule.id,
+      name: rule.name,
+      pattern: rule.pattern,
+      sampleMessage: rule.sampleMessage || '',
+      type: rule.type || category?.type || 'expense',
+      categoryId: rule.categoryId,
+      accountId: rule.accountId,
+      isActive: rule.isActive,
+    });
+  };
+
+  const saveDraft = async (force: boolean = false) => {
+    if (!draft) return;
+
+    if (!draft.name.trim()) {
+      Alert.alert('Missing Name', 'Please give the rule a name');
+      return;
+    }
+    if (!draft.pattern) {
+      Alert.alert('Missing Pattern', 'Please enter a pattern');
+      return;
+    }
+    try {
+      new RegExp(draft.pattern, 'i');
+    } catch (error) {
+      Alert.alert('Invalid Pattern', (error as Error).message);
+      return;
+    }
+    if (!draft.categoryId) {
+      Alert.alert('Missing Category', 'Please choose a category');
+      return;
+    }
+    if (!force && preview?.error) {
+      Alert.alert('Sample Not Parsed', `${preview.error}. Save the rule anyway?`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Save', onPress: () => saveDraft(true) }
+      ]);
+      return;
+    }
+
+    try {
+      if (draft.id) {
+        await smsParserService.updateSMSRule(draft.id, toRule(draft));
+      } else {
+        await smsParserService.createSMSRule(toRule(draft));
+      }
+      setDraft(null);
+      await loadRules();
+    } catch (error) {
+      console.error('Failed to save SMS rule:', error);
+      Alert.alert('Error', 'Failed to save rule');
+    }
+  };
+
+  const toggleRule = async (rule: SMSRule, isActive: boolean) => {
+    try {
+      await smsParserService.setSMSRuleActive(rule.id, isActive);
+      await loadRules();
+    } catch (error) {
+      console.error('Failed to toggle SMS rule:', error);
+    }
+  };
+
+  const deleteRule = (ruleId: string) => {
+    Alert.alert('Delete Rule', 'Are you sure you want to delete this rule?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await smsParserService.deleteSMSRule(ruleId);
+            setDraft(null);
+            await loadRules();
+          } catch (error) {
+            console.error('Failed to delete SMS rule:', error);
+            Alert.alert('Error', 'Failed to delete rule');
+          }
+        }
+      }
+    ]);
+  };
+
+  const exportPack = async () => {
+    if (!packMetadata.name.trim() || !packMetadata.bank.trim() || !packMetadata.country.trim()) {
+      Alert.alert('Missing Details', 'Please enter a pack name, bank and country');
+      return;
+    }
+
+    try {
+      const json = await rulePackService.exportRulePack({
+        name: packMetadata.name.trim(),
+        bank: packMetadata.bank.trim(),
+        country: packMetadata.country.trim().toUpperCase()
+      });
+      await Share.share({ title: packMetadata.name.trim(), message: json });
+      setPackMode(null);
+    } catch (error) {
+      console.error('Failed to export rule pack:', error);
+      Alert.alert('Export Failed', (error as Error).message);
+    }
+  };
+
+  const importPack = async () => {
+    try {
+      const { pack, rules: imported } = await rulePackService.importRulePack(packJSON);
+      const added = imported.filter(rule => !rule.duplicate);
+      const activated = added.filter(rule => rule.activated).length;
+      const duplicates = imported.length - added.length;
+      const problems = added
+        .filter(rule => !rule.activated || rule.notes.length > 0)
+        .map(rule => `${rule.name}: ${[...rule.failures, ...rule.notes].join('; ')}`);
+
+      Alert.alert(
+        `Imported ${pack.name}`,
+        [
+          `${added.length} rule(s) from ${pack.bank} (${pack.country}), ${activated} activated.` +
+            (duplicates > 0 ? ` ${duplicates} already installed.` : ''),
+          ...problems
+        ].join('\n\n')
+      );
+      setPackJSON('');
+      setPackMode(null);
+      await loadRules();
+    } catch (error) {
+      console.error('Failed to import rule pack:', error);
+      Alert.alert('Import Failed', (error as Error).message);
+    }
+  };
+
+  const renderPackPanel = () => {
+    if (packMode === 'export') {
+      return (
+        <View style={styles.packPanel}>
+          <Text style={styles.previewHint}>Rules with a sample SMS are exported with their samples and expected results.</Text>
+          <TextInput
+            style={[styles.input, styles.packInput]}
+            value={packMetadata.name}
+            onChangeText={name => setPackMetadata({ ...packMetadata, name })}
+            placeholder="Pack name"
+          />
+          <TextInput
+            style={[styles.input, styles.packInput]}
+            value={packMetadata.bank}
+            onChangeText={bank => setPackMetadata({ ...packMetadata, bank })}
+            placeholder="Bank (e.g. Fidelity Bank)"
+          />
+          <TextInput
+            style={[styles.input, styles.packInput]}
+            value={packMetadata.country}
+            onChangeText={country => setPackMetadata({ ...packMetadata, country })}
+            placeholder="Country code (e.g. GH)"
+            autoCapitalize="characters"
+          />
+          <TouchableOpacity style={styles.packSubmit} onPress={exportPack}>
+            <Text style={styles.packSubmitText}>Share Pack</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (packMode === 'import') {
+      return (
+        <View style={styles.packPanel}>
+          <Text style={styles.previewHint}>Rules are activated only when all of their sample SMS parse as expected.</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput, styles.packInput, styles.patternInput]}
+            value={packJSON}
+            onChangeText={setPackJSON}
+            placeholder="Paste rule pack JSON"
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+          />
+          <TouchableOpacity style={styles.packSubmit} onPress={importPack}>
+            <Text style={styles.packSubmitText}>Import Pack</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return null;
+  };
+
+  const renderPreview = () => {
+    if (!draft?.sampleMessage.trim() || !draft.pattern) {
+      return (
+        <Text style={styles.previewHint}>Paste a sample SMS and write a pattern to see what the rule extracts.</Text>
+      );
+    }
+    if (!preview?.transaction) {
+      return (
+        <View style={[styles.previewCard, styles.previewError]}>
+          <Text style={styles.previewTitle}>🚫 No match</Text>
+          <Text style={styles.previewText}>{preview?.error}</Text>
+        </View>
+      );
+    }
+
+    const transaction = preview.transaction;
+    const rows: [string, string | undefined][] = [
+      ['Amount', `${transaction.currency} ${transaction.amount.toLocaleString()}`],
+      ['Type', transaction.type === 'income' ? 'Income' : 'Expense'],
+      ['Category', transaction.category],
+      ['Merchant', transaction.merchant],
+      ['Account', transaction.account],
+      ['Balance', transaction.balance !== undefined ? transaction.balance.toLocaleString() : undefined],
+      ['Reference', transaction.reference],
+    ];
+
+    return (
+      <View style={[styles.previewCard, styles.previewSuccess]}>
+        <Text style={styles.previewTitle}>✅ Rule matches</Text>
+        {rows.filter(([, value]) => value).map(([label, value]) => (
+          <View key={label} style={styles.previewRow}>
+            <Text style={styles.previewLabel}>{label}</Text>
+            <Text style={styles.previewValue}>{value}</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderEditor = (ruleDraft: RuleDraft) => (
+    <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <Text style={styles.inputLabel}>Name</Text>
+      <TextInput
+        style={styles.input}
+        value={ruleDraft.name}
+        onChangeText={name => setDraft({ ...ruleDraft, name })}
+        placeholder="e.g. Zeepay payments"
+      />
+
+      <Text style={styles.inputLabel}>Sample SMS</Text>
+      <TextInput
+        style={[styles.input, styles.multilineInput]}
+        value={ruleDraft.sampleMessage}
+        onChangeText={sampleMessage => setDraft({ ...ruleDraft, sampleMessage })}
+        placeholder="Paste an SMS this rule should parse"
+        multiline
+      />
+
+      <Text style={styles.inputLabel}>Pattern</Text>
+      <TextInput
+        style={[styles.input, styles.multilineInput, styles.patternInput]}
+        value={ruleDraft.pattern}
+        onChangeText={pattern => setDraft({ ...ruleDraft, pattern })}
+        placeholder="paid (?<amount>[\d,.]+) to (?<merchant>.+?)\."
+        autoCapitalize="none"
+        autoCorrect={false}
+        multiline
+      />
+      <View style={styles.snippetRow}>
+        {GROUP_SNIPPETS.map(({ label, snippet }) => (
+          <TouchableOpacity
+            key={label}
+            style={styles.snippetChip}
+            onPress={() => setDraft({ ...ruleDraft, pattern: ruleDraft.pattern + snippet })}
+          >
+            <Text style={styles.snippetText}>+ {label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.previewHint}>
+        Matching is case-insensitive. Only the amount group is required; the others are read from the SMS when missing.
+      </Text>
+
+      <Text style={styles.inputLabel}>Type</Text>
+      <View style={styles.typeToggle}>
+        {(['expense', 'income'] as const).map(type => (
+          <TouchableOpacity
+            key={type}
+            style={[styles.typeButton, ruleDraft.type === type && styles.typeButtonActive]}
+            onPress={() => setDraft({ ...ruleDraft, type, categoryId: '' })}
+          >
+            <Text style={[styles.typeButtonText, ruleDraft.type === type && styles.typeButtonTextActive]}>
+              {type === 'expense' ? 'Expense' : 'Income'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.inputLabel}>Category</Text>
+      <View style={styles.chipContainer}>
+        {categories.filter(cat => cat.type === ruleDraft.type).map(cat => (
+          <TouchableOpacity
+            key={cat.id}
+            style={[styles.chip, ruleDraft.categoryId === cat.id && styles.chipActive]}
+            onPress={() => setDraft({ ...ruleDraft, categoryId: cat.id })}
+          >
+            <Text style={[styles.chipText, ruleDraft.categoryId === cat.id && styles.chipTextActive]}>
+              {cat.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.inputLabel}>Account (Optional)</Text>
+      <View style={styles.chipContainer}>
+        <TouchableOpacity
+          style={[styles.chip, !ruleDraft.accountId && styles.chipActive]}
+          onPress={() => setDraft({ ...ruleDraft, accountId: undefined })}
+        >
+          <Text style={[styles.chipText, !ruleDraft.accountId && styles.chipTextActive]}>None</Text>
+        </TouchableOpacity>
+        {accounts.map(account => (
+          <TouchableOpacity
+            key={account.id}
+            style={[styles.chip, ruleDraft.accountId === account.id && styles.chipActive]}
+            onPress={() => setDraft({ ...ruleDraft, accountId: account.id })}
+          >
+            <Text style={[styles.chipText, ruleDraft.accountId === account.id && styles.chipTextActive]}>
+              {account.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.sectionTitle}>Live Preview</Text>
+      {renderPreview()}
+
+      {ruleDraft.id && (
+        <TouchableOpacity style={styles.deleteButton} onPress={() => deleteRule(ruleDraft.id!)}>
+          <Text style={styles.deleteButtonText}>Delete Rule</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+
+  const renderList = () => (
+    <ScrollView contentContainerStyle={styles.content}>
+      <Text style={styles.intro}>
+        Rules run before the built-in bank templates. Use them for senders the app does not understand yet.
+      </Text>
+
+      <View style={styles.packButtons}>
+        {(['import', 'export'] as const).map(mode => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.packButton, packMode === mode && styles.packButtonActive]}
+            onPress={() => setPackMode(packMode === mode ? null : mode)}
+          >
+            <Text style={[styles.packButtonText, packMode === mode && styles.packButtonTextActive]}>
+              {mode === 'import' ? '📥 Import Pack' : '📤 Export Pack'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {renderPackPanel()}
+
+      {rules.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyIcon}>🧩</Text>
+          <Text style={styles.emptyText}>No custom rules yet</Text>
+        </View>
+      ) : rules.map(rule => {
+        const category = categories.find(c => c.id === rule.categoryId);
+        return (
+          <TouchableOpacity key={rule.id} style={styles.ruleCard} onPress={() => editRule(rule)}>
+            <View style={styles.ruleInfo}>
+              <Text style={styles.ruleName}>{rule.name}</Text>
+              <Text style={styles.rulePattern} numberOfLines={1}>{rule.pattern}</Text>
+              <Text style={styles.ruleMeta}>
+                {(rule.type || category?.type) === 'income' ? 'Income' : 'Expense'} · {category?.name || 'Unknown category'}
+              </Text>
+            </View>
+            <Switch
+              value={rule.isActive}
+              onValueChange={value => toggleRule(rule, value)}
+              trackColor={{ false: '#E5E7EB', true: '#8B5CF6' }}
+              thumbColor="#FFFFFF"
+            />
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={draft ? () => setDraft(null) : onClose}>
+            <Text style={styles.headerButton}>{draft ? 'Cancel' : 'Close'}</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{draft ? (draft.id ? 'Edit Rule' : 'New Rule') : 'SMS Rules'}</Text>
+          <TouchableOpacity onPress={draft ? () => saveDraft() : () => setDraft(emptyDraft())}>
+            <Text style={[styles.headerButton, styles.headerAction]}>{draft ? 'Save' : 'New'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {draft ? renderEditor(draft) : renderList()}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  headerButton: {
+    fontSize: 16,
+    color: '#8B5CF6',
+    minWidth: 50,
+  },
+  headerAction: {
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  content: {
+    padding: 20,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  packButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  packButton: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  packButtonActive: {
+    borderColor: '#8B5CF6',
+    backgroundColor: '#F5F3FF',
+  },
+  packButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  packButtonTextActive: {
+    color: '#8B5CF6',
+  },
+  packPanel: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  packInput: {
+    marginTop: 12,
+  },
+  packSubmit: {
+    backgroundColor: '#8B5CF6',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  packSubmitText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyIcon: {
+    fontSize: 40,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  ruleCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  ruleInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  ruleName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 4,
+  },
+  rulePattern: {
+    fontSize: 12,
+    color: '#4B5563',
+    fontFamily: 'monospace',
+    marginBottom: 4,
+  },
+  ruleMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1F2937',
+    backgroundColor: '#FFFFFF',
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  patternInput: {
+    fontFamily: 'monospace',
+    fontSize: 13,
+  },
+  snippetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  snippetChip: {
+    backgroundColor: '#F5F3FF',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  snippetText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8B5CF6',
+    fontFamily: 'monospace',
+  },
+  typeToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    padding: 4,
+  },
+  typeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  typeButtonActive: {
+    backgroundColor: '#8B5CF6',
+  },
+  typeButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  typeButtonTextActive: {
+    color: '#FFFFFF',
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  chipActive: {
+    backgroundColor: '#8B5CF6',
+    borderColor: '#8B5CF6',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  previewHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+  previewCard: {
+    borderRadius: 12,
+    padding: 16,
+  },
+  previewSuccess: {
+    backgroundColor: '#ECFDF5',
+  },
+  previewError: {
+    backgroundColor: '#FEF2F2',
+  },
+  previewTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  previewText: {
+    fontSize: 14,
+    color: '#4B5563',
+  },
+  previewRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  previewLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  previewValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+    flex: 1,
+    textAlign: 'right',
+    marginLeft: 12,
+  },
+  deleteButton: {
+    backgroundColor: '#FEF2F2',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    color: '#EF4444',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  FlatList,
+  Alert
+} from 'react-native';
+import { SMSSenderMode } from '../database/schema';
+import { smsSenderService, SenderSummary } from '../services/smsSenderService';
+
+interface SMSSendersScreenProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const MODE_OPTIONS: { mode: SMSSenderMode | null; label: string }[] = [
+  { mode: null, label: 'Auto' },
+  { mode: 'always', label: 'Always' },
+  { mode: 'review', label: 'Review' },
+  { mode: 'never', label: 'Never' },
+];
+
+const MODE_DESCRIPTIONS: { [mode: string]: string } = {
+  always: 'Always parsed, even without the usual transaction keywords',
+  review: 'Parsed transactions wait in the Review Inbox',
+  never: 'Ignored by the parser and the SMS history scan',
+};
+
+export const SMSSendersScreen: React.FC<SMSSendersScreenProps> = ({ visible, onClose }) => {
+  const [senders, setSenders] = useState<SenderSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      loadSenders();
+    }
+  }, [visible]);
+
+  const loadSenders = async () => {
+    try {
+      setIsLoading(true);
+      setSenders(await smsSenderService.getSeenSenders());
+    } catch (error) {
+      console.error('Failed to load SMS senders:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const changeMode = async (summary: SenderSummary, mode: SMSSenderMode | null) => {
+    if ((summary.mode || null) === mode) return;
+
+    try {
+      await smsSenderService.setSenderMode(summary.sender, mode);
+      await loadSenders();
+    } catch (error) {
+      console.error('Failed to update SMS sender:', error);
+      Alert.alert('Error', 'Failed to update the sender');
+    }
+  };
+
+  const totalMessages = senders.reduce((total, summary) => total + summary.messageCount, 0);
+
+  const renderSender = ({ item }: { item: SenderSummary }) => (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.sender}>{item.sender}</Text>
+        {item.lastSeen && (
+          <Text style={styles.date}>{new Date(item.lastSeen).toLocaleDateString()}</Text>
+        )}
+      </View>
+      <Text style={styles.counts}>
+        {item.messageCount} message{item.messageCount === 1 ? '' : 's'} · {item.transactionCount} transaction{item.transactionCount === 1 ? '' : 's'}
+      </Text>
+
+      <View style={styles.modeRow}>
+        {MODE_OPTIONS.map(option => {
+          const isActive = (item.mode || null) === option.mode;
+          return (
+            <TouchableOpacity
+              key={option.label}
+              style={[styles.modeChip, isActive && styles.modeChipActive, isActive && option.mode === 'never' && styles.modeChipBlocked]}
+              onPress={() => changeMode(item, option.mode)}
+            >
+              <Text style={[styles.modeChipText, isActive && styles.modeChipTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {item.mode && (
+        <Text style={styles.modeDescription}>{MODE_DESCRIPTIONS[item.mode]}</Text>
+      )}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.headerClose}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>SMS Senders</Text>
+          <View style={styles.headerSpacing} />
+        </View>
+
+        <FlatList
+          data={senders}
+          keyExtractor={item => item.sender}
+          renderItem={renderSender}
+          contentContainerStyle={styles.content}
+          refreshing={isLoading}
+          onRefresh={loadSenders}
+          ListHeaderComponent={senders.length > 0 ? (
+            <Text style={styles.intro}>
+              {senders.length} sender{senders.length === 1 ? '' : 's'} · {totalMessages} message{totalMessages === 1 ? '' : 's'} processed.
+              Auto uses the built-in filters; choose Always, Review or Never to override them.
+            </Text>
+          ) : null}
+          ListEmptyComponent={!isLoading ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyIcon}>📨</Text>
+              <Text style={styles.emptyText}>No SMS processed yet</Text>
+            </View>
+          ) : null}
+        />
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  headerClose: {
+    fontSize: 16,
+    color: '#8B5CF6',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  headerSpacing: {
+    width: 50,
+  },
+  content: {
+    padding: 20,
+    flexGrow: 1,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyIcon: {
+    fontSize: 40,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  sender: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  date: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  counts: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  modeChip: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 20,
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  modeChipActive: {
+    backgroundColor: '#8B5CF6',
+    borderColor: '#8B5CF6',
+  },
+  modeChipBlocked: {
+    backgroundColor: '#EF4444',
+    borderColor: '#EF4444',
+  },
+  modeChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  modeChipTextActive: {
+    color: '#FFFFFF',
+  },
+  modeDescription: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,69 @@
+// Pairs of alerts for scripts/runServiceChecks.ts: the incoming alert and a transaction another
+// source already recorded, with the fields compareCandidate should match on (null: no match).
+
+import type { Transaction } from '../../database/schema';
+import type { ParsedTransaction } from '../smsParsingEngine';
+
+export interface CrossSourceMatchFixture {
+  id: string;
+  incoming: Partial<ParsedTransaction> & { amount: number; date: string };
+  recorded: Pick<Transaction, 'id' | 'date'> & Partial<Pick<Transaction, 'receivedAt' | 'reference' | 'accountSuffix' | 'account' | 'merchant'>>;
+  matchedOn: string[] | null;
+}
+
+export const CROSS_SOURCE_MATCHES: CrossSourceMatchFixture[] = [
+  {
+    id: 'card-purchase-sms-and-email',
+    incoming: { amount: 245, date: '2024-06-01T10:04:00.000Z', accountSuffix: '4521', merchant: 'SHOPRITE ACCRA MALL' },
+    recorded: { id: 'txn_sms', date: '2024-06-01T10:00:00.000Z', accountSuffix: '**4521', merchant: 'SHOPRITE' },
+    matchedOn: ['amount', 'account suffix', 'merchant', 'time']
+  },
+  {
+    id: 'shared-reference-days-apart',
+    incoming: { amount: 1200, date: '2024-06-03T08:00:00.000Z', reference: 'FT24153XK2' },
+    recorded: { id: 'txn_sms', date: '2024-06-01T10:00:00.000Z', reference: 'ft24153xk2' },
+    matchedOn: ['amount', 'reference']
+  },
+  {
+    id: 'merchant-only-within-window',
+    incoming: { amount: 64.2, date: '2024-06-01T11:30:00.000Z', merchant: 'Maxmart East Legon' },
+    recorded: { id: 'txn_sms', date: '2024-06-01T10:00:00.000Z', merchant: 'MAXMART' },
+    matchedOn: ['amount', 'merchant', 'time']
+  },
+  {
+    id: 'near-miss-airtime-top-ups',
+    incoming: { amount: 50, date: '2024-06-01T11:00:00.000Z', merchant: 'MTN Airtime' },
+    recorded: { id: 'txn_sms', date: '2024-06-01T10:00:00.000Z' },
+    matchedOn: null
+  },
+  {
+    id: 'near-miss-different-merchants',
+    incoming: { amount: 50, date: '2024-06-01T10:30:00.000Z', merchant: 'STC BUS' },
+    recorded: { id: 'txn_sms', date: '2024-06-01T10:00:00.000Z', merchant: 'VIP JEOUN' },
+    matchedOn: null
+  },
+  {
+    id: 'different-card-suffix',
+    incoming: { amount: 245, date: '2024-06-01T10:04:00.000Z', accountSuffix: '7788', merchant: 'SHOPRITE' },
+    recorded: { id: 'txn_sms', date: '2024-06-01T10:00:00.000Z', accountSuffix: '4521', merchant: 'SHOPRITE' },
+    matchedOn: null
+  },
+  {
+    id: 'different-reference',
+    incoming: { amount: 1200, date: '2024-06-01T10:01:00.000Z', reference: 'FT24153XK2' },
+    recorded: { id: 'txn_sms', date: '2024-06-01T10:00:00.000Z', reference: 'FT24153XK3' },
+    matchedOn: null
+  },
+  {
+    id: 'same-suffix-outside-window',
+    incoming: { amount: 245, date: '2024-06-01T13:00:00.000Z', accountSuffix: '4521' },
+    recorded: { id: 'txn_sms', date: '2024-06-01T10:00:00.000Z', accountSuffix: '4521' },
+    matchedOn: null
+  },
+  {
+    id: 'body-date-with-receive-time',
+    incoming: { amount: 245, date: '2024-05-31T00:00:00.000Z', receivedAt: '2024-06-01T10:10:00.000Z', account: 'GTBank Current' },
+    recorded: { id: 'txn_sms', date: '2024-06-01T10:00:00.000Z', account: 'GTBank Current' },
+    matchedOn: ['amount', 'account', 'time']
+  }
+];
@@ -0,0 +1,70 @@
+// Loan lifecycles for scripts/runServiceChecks.ts. Each repayment adds to what the loan's
+// linked transactions sum to, and the summary after it must match.
+
+import type { Loan } from '../../database/schema';
+
+export interface LoanRepaymentStep {
+  amount: number;
+  reportedOutstanding?: number; // Balance quoted in the repayment SMS, if any
+  expected: {
+    outstanding: number;
+    interestPaid: number;
+    nextDueDate?: string;
+    settled: boolean;
+  };
+}
+
+export interface LoanFixture {
+  id: string;
+  loan: Omit<Loan, 'status' | 'createdAt' | 'updatedAt'>;
+  // Outstanding right after the disbursement
+  openingOutstanding: number;
+  repayments: LoanRepaymentStep[];
+}
+
+export const LOAN_LIFECYCLES: LoanFixture[] = [
+  {
+    // GHS 1,000 with GHS 100 interest and a GHS 50 facility fee: GHS 1,150 to repay
+    id: 'fees-in-total-due-partial-then-settled',
+    loan: {
+      id: 'loan_qwikloan', lender: 'QwikLoan', principal: 1000, currency: 'GHS',
+      disbursedAt: '2024-06-01T10:00:00.000Z', interestAmount: 100, totalDue: 1150,
+      schedule: 'once', dueDate: '2024-07-01T10:00:00.000Z'
+    },
+    openingOutstanding: 1150,
+    repayments: [
+      { amount: 500, expected: { outstanding: 650, interestPaid: 0, nextDueDate: '2024-07-01T10:00:00.000Z', settled: false } },
+      { amount: 650, expected: { outstanding: 0, interestPaid: 150, settled: true } }
+    ]
+  },
+  {
+    // No total quoted: principal plus interest, paid weekly
+    id: 'weekly-instalments-without-total',
+    loan: {
+      id: 'loan_fido', lender: 'Fido', principal: 300, currency: 'GHS',
+      disbursedAt: '2024-06-01T10:00:00.000Z', interestAmount: 30, schedule: 'weekly',
+      dueDate: '2024-06-08T10:00:00.000Z'
+    },
+    openingOutstanding: 330,
+    repayments: [
+      { amount: 110, expected: { outstanding: 220, interestPaid: 0, nextDueDate: '2024-06-15T10:00:00.000Z', settled: false } },
+      { amount: 110, expected: { outstanding: 110, interestPaid: 0, nextDueDate: '2024-06-22T10:00:00.000Z', settled: false } },
+      { amount: 110, expected: { outstanding: 0, interestPaid: 30, settled: true } }
+    ]
+  },
+  {
+    // M-Shwari quotes the balance after each repayment, late fees included; it wins over the sum
+    id: 'reported-balance-includes-late-fee',
+    loan: {
+      id: 'loan_mshwari', lender: 'M-Shwari', principal: 2000, currency: 'KES',
+      disbursedAt: '2024-06-01T10:00:00.000Z', interestRate: 7.5, totalDue: 2150
+    },
+    openingOutstanding: 2150,
+    repayments: [
+      { amount: 1000, reportedOutstanding: 1250, expected: { outstanding: 1250, interestPaid: 0, settled: false } },
+      // Without a quoted balance the total due less the repayments applies again
+      { amount: 1000, expected: { outstanding: 150, interestPaid: 0, settled: false } },
+      { amount: 250, reportedOutstanding: 0, expected: { outstanding: 0, interestPaid: 250, settled: true } }
+    ]
+  }
+];
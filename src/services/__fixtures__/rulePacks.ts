@@ -0,0 +1,137 @@
+// Rule pack checks used by scripts/runServiceChecks.ts: pack validation, sample comparison
+// and spotting rules that are already installed.
+
+import type { SMSRule } from '../../database/schema';
+import type { ParsedTransaction } from '../smsParsingEngine';
+import type { RulePackExpectation } from '../rulePacks';
+
+export interface RulePackValidationFixture {
+  id: string;
+  pack: unknown;
+  // Text the validation error must contain; null means the pack is valid
+  error: string | null;
+}
+
+export interface RulePackSampleFixture {
+  id: string;
+  expected: RulePackExpectation;
+  actual: Partial<ParsedTransaction> & { amount: number };
+  // Fields reported as mismatched, in order
+  mismatches: string[];
+}
+
+export interface InstalledRuleFixture {
+  id: string;
+  installed: Pick<SMSRule, 'id' | 'pattern' | 'categoryId' | 'accountId' | 'type'>[];
+  rule: Pick<SMSRule, 'pattern' | 'categoryId' | 'accountId' | 'type'>;
+  // Id of the installed rule it duplicates, or null
+  duplicateOf: string | null;
+}
+
+const ZENITH_PATTERN = 'debit of GHS\\s*(?<amount>[\\d,]+\\.\\d{2}) at (?<merchant>.+?)\\. Bal: GHS\\s*(?<balance>[\\d,]+\\.\\d{2})';
+
+const validPack = {
+  format: 'transtracker-rule-pack',
+  version: 1,
+  name: 'Zenith Ghana alerts',
+  bank: 'Zenith Bank',
+  country: 'GH',
+  exportedAt: '2024-06-01T10:00:00.000Z',
+  rules: [{
+    name: 'Zenith debit',
+    pattern: ZENITH_PATTERN,
+    type: 'expense',
+    category: 'Shopping',
+    account: 'Zenith Current',
+    samples: [{
+      message: 'Zenith: debit of GHS 64.20 at MAXMART EAST LEGON. Bal: GHS 1,904.55',
+      expected: { amount: 64.2, currency: 'GHS', merchant: 'MAXMART EAST LEGON', balance: 1904.55 }
+    }]
+  }]
+};
+
+const withRule = (changes: object) => ({ ...validPack, rules: [{ ...validPack.rules[0], ...changes }] });
+
+export const RULE_PACK_VALIDATION: RulePackValidationFixture[] = [
+  { id: 'valid-pack', pack: validPack, error: null },
+  { id: 'valid-pack-without-account', pack: withRule({ account: undefined }), error: null },
+  { id: 'not-an-object', pack: 'rules', error: 'must be a JSON object' },
+  { id: 'wrong-format', pack: { ...validPack, format: 'other-app-rules' }, error: 'Not a rule pack' },
+  { id: 'newer-version', pack: { ...validPack, version: 2 }, error: 'Unsupported rule pack version 2' },
+  { id: 'missing-bank', pack: { ...validPack, bank: '' }, error: 'missing "bank"' },
+  { id: 'no-rules', pack: { ...validPack, rules: [] }, error: 'has no rules' },
+  { id: 'rule-missing-category', pack: withRule({ category: undefined }), error: 'Rule 1 (Zenith debit) is missing "category"' },
+  { id: 'rule-invalid-type', pack: withRule({ type: 'transfer' }), error: 'invalid type "transfer"' },
+  { id: 'rule-invalid-account', pack: withRule({ account: 42 }), error: 'invalid "account"' },
+  { id: 'rule-invalid-pattern', pack: withRule({ pattern: 'debit of (GHS' }), error: 'invalid pattern' },
+  { id: 'rule-without-samples', pack: withRule({ samples: [] }), error: 'has no sample messages' },
+  { id: 'sample-without-amount', pack: withRule({ samples: [{ message: 'Zenith: debit', expected: {} }] }), error: 'sample 1 needs a message and an expected amount' }
+];
+
+export const RULE_PACK_SAMPLES: RulePackSampleFixture[] = [
+  {
+    id: 'sample-matches',
+    expected: { amount: 64.2, currency: 'GHS', merchant: 'MAXMART EAST LEGON', balance: 1904.55 },
+    actual: { amount: 64.2, currency: 'GHS', type: 'expense', merchant: 'MAXMART EAST LEGON', balance: 1904.55, reference: 'ZB123' },
+    mismatches: []
+  },
+  {
+    id: 'sample-unchecked-fields-ignored',
+    expected: { amount: 64.2 },
+    actual: { amount: 64.2, currency: 'NGN', merchant: 'ELSEWHERE' },
+    mismatches: []
+  },
+  {
+    id: 'sample-amount-within-half-a-cent',
+    expected: { amount: 64.2 },
+    actual: { amount: 64.204 },
+    mismatches: []
+  },
+  {
+    id: 'sample-wrong-amount-and-merchant',
+    expected: { amount: 64.2, merchant: 'MAXMART EAST LEGON' },
+    actual: { amount: 6420, merchant: 'MAXMART' },
+    mismatches: ['amount', 'merchant']
+  },
+  {
+    id: 'sample-missing-balance',
+    expected: { amount: 64.2, balance: 1904.55 },
+    actual: { amount: 64.2 },
+    mismatches: ['balance']
+  },
+  {
+    id: 'sample-wrong-type-and-reference',
+    expected: { amount: 64.2, type: 'expense', reference: 'ZB123' },
+    actual: { amount: 64.2, type: 'income', reference: 'ZB124' },
+    mismatches: ['type', 'reference']
+  }
+];
+
+const installedZenith = { id: 'rule_1', pattern: ZENITH_PATTERN, categoryId: 'cat_shopping', accountId: 'acc_zenith', type: 'expense' as const };
+
+export const INSTALLED_RULES: InstalledRuleFixture[] = [
+  {
+    id: 'same-rule-imported-twice',
+    installed: [installedZenith],
+    rule: { pattern: ZENITH_PATTERN, categoryId: 'cat_shopping', accountId: 'acc_zenith', type: 'expense' },
+    duplicateOf: 'rule_1'
+  },
+  {
+    id: 'same-pattern-other-category',
+    installed: [installedZenith],
+    rule: { pattern: ZENITH_PATTERN, categoryId: 'cat_food', accountId: 'acc_zenith', type: 'expense' },
+    duplicateOf: null
+  },
+  {
+    id: 'same-pattern-other-account',
+    installed: [installedZenith],
+    rule: { pattern: ZENITH_PATTERN, categoryId: 'cat_shopping', accountId: undefined, type: 'expense' },
+    duplicateOf: null
+  },
+  {
+    id: 'unforced-type-matches-unforced',
+    installed: [{ ...installedZenith, type: undefined, accountId: undefined }],
+    rule: { pattern: ZENITH_PATTERN, categoryId: 'cat_shopping' },
+    duplicateOf: 'rule_1'
+  }
+];
@@ -0,0 +1,625 @@
+// Golden corpus of anonymised real-world SMS used by scripts/runParserCorpus.ts.
+// Names, account numbers and references have been replaced with fake values.
+
+export interface SMSFixtureExpectation {
+  amount: number;
+  currency: string;
+  type: 'income' | 'expense';
+  merchant: string | null;
+  category: string;
+  // Optional fields are only checked when present
+  balance?: number;
+  reference?: string;
+  // Total of fee, levy and tax lines
+  charges?: number;
+  status?: 'reversal' | 'refund';
+  // Local transaction date, "YYYY-MM-DD" or "YYYY-MM-DD HH:mm"
+  date?: string;
+  // Loan disbursement or repayment, and the repayment date the SMS quotes ("YYYY-MM-DD")
+  loan?: 'disbursement' | 'repayment';
+  loanDueDate?: string;
+}
+
+export interface SMSFixture {
+  id: string;
+  region: string;
+  sender: string;
+  message: string;
+  // null means the parser must reject the message; a digest SMS lists one expectation per entry
+  expected: SMSFixtureExpectation | SMSFixtureExpectation[] | null;
+  // Known parser gap: reported but does not fail the run
+  pending?: string;
+  // Categories the user already picked for merchants (merchant_category_overrides)
+  merchantCategories?: {[merchant: string]: string};
+  // Local time the SMS arrived, defaults to 2024-06-01 10:00 UTC
+  receivedAt?: string;
+  // Canonical merchants the user has set up (merchants table)
+  merchants?: SMSFixtureMerchant[];
+  // The user's setting for this fixture's sender (sms_senders table)
+  senderMode?: 'always' | 'never' | 'review';
+  // Suspected scam the parser must quarantine instead of recording (expected is null)
+  quarantined?: boolean;
+  // The parse must go to the review inbox instead of being recorded; expected lists the review items
+  review?: boolean;
+}
+
+export interface SMSFixtureMerchant {
+  name: string;
+  aliases?: string[];
+  patterns?: string[];
+  defaultCategory?: string;
+}
+
+export const SMS_CORPUS: SMSFixture[] = [
+  // Ghana
+  {
+    id: 'gh-gtbank-pos',
+    region: 'Ghana',
+    sender: 'GTBank',
+    message: 'GTBank Alert: Transaction successful. Amt: GHS150.00 debited from Acct: ****1234. Desc: POS Purchase at SHOPRITE. Current Balance: GHS1,250.45',
+    expected: { amount: 150, currency: 'GHS', type: 'expense', merchant: 'SHOPRITE', category: 'Shopping', balance: 1250.45 }
+  },
+  {
+    id: 'gh-mtn-momo-received',
+    region: 'Ghana',
+    sender: 'MTN-MoMo',
+    message: 'MTN MoMo: Payment received for GHS75.50 from CHRIS ADJEI DEBRAH. Current balance: GHS2,500.00. Trans ID: MOM240815.1234',
+    expected: { amount: 75.5, currency: 'GHS', type: 'income', merchant: 'CHRIS ADJEI DEBRAH', category: 'Transfers', balance: 2500, reference: 'MOM240815.1234' }
+  },
+  {
+    id: 'gh-momo-received-plain',
+    region: 'Ghana',
+    sender: 'MobileMoney',
+    message: 'Payment received for GHS 45.00 from KOFI MENSAH Current Balance: GHS 312.40. Available Balance: GHS 312.40. Reference: 1. Transaction ID: 41829375612. TRANSACTION FEE: 0.00',
+    expected: { amount: 45, currency: 'GHS', type: 'income', merchant: 'KOFI MENSAH', category: 'Transfers', balance: 312.4, reference: '41829375612' }
+  },
+  {
+    id: 'gh-momo-received-round',
+    region: 'Ghana',
+    sender: 'MobileMoney',
+    message: 'Payment received for GHS 50.00 from JOHN DOE Current Balance: GHS 1,250.45 . Available Balance: GHS 1,250.45. Reference: Lunch. Transaction ID: 45123456789. TRANSACTION FEE: 0.00',
+    expected: { amount: 50, currency: 'GHS', type: 'income', merchant: 'JOHN DOE', category: 'Transfers', balance: 1250.45, reference: '45123456789' }
+  },
+  {
+    id: 'gh-momo-cash-out-low-balance',
+    region: 'Ghana',
+    sender: 'MobileMoney',
+    message: 'Cash Out made for GHS 300.00 to ESSIEN AGENT. Current Balance: GHS 0.750. Transaction ID: 41829377777. Fee charged: GHS 3.00.',
+    expected: { amount: 300, currency: 'GHS', type: 'expense', merchant: 'ESSIEN AGENT', category: 'Other Expense', balance: 0.75, reference: '41829377777' }
+  },
+  {
+    id: 'gh-momo-payment-sent',
+    region: 'Ghana',
+    sender: 'MobileMoney',
+    message: 'Payment made for GHS 32.50 to ABENA STORES. Current Balance: GHS 279.90. Transaction ID: 41829375999.',
+    expected: { amount: 32.5, currency: 'GHS', type: 'expense', merchant: 'ABENA STORES', category: 'Shopping', balance: 279.9, reference: '41829375999' }
+  },
+  {
+    id: 'gh-momo-payment-with-levy',
+    region: 'Ghana',
+    sender: 'MobileMoney',
+    message: 'Payment made for GHS 120.50 to KOJO STORES. Current Balance: GHS 512.30. Fee charged: GHS 0.75. E-levy charged: GHS 1.21. Transaction ID: 41829376001.',
+    expected: { amount: 120.5, currency: 'GHS', type: 'expense', merchant: 'KOJO STORES', category: 'Shopping', balance: 512.3, reference: '41829376001', charges: 1.96 }
+  },
+  {
+    id: 'gh-momo-payment-unknown-merchant',
+    region: 'Ghana',
+    sender: 'MobileMoney',
+    message: 'Payment made for GHS 23.40 to KOFI BROKE MAN. Current Balance: GHS 256.50. Transaction ID: 41829376120.',
+    expected: { amount: 23.4, currency: 'GHS', type: 'expense', merchant: 'KOFI BROKE MAN', category: 'Other Expense', balance: 256.5, reference: '41829376120' }
+  },
+  {
+    id: 'gh-momo-payment-merchant-override',
+    region: 'Ghana',
+    sender: 'MobileMoney',
+    message: 'Payment made for GHS 18.60 to KOFI BROKE MAN. Current Balance: GHS 237.90. Transaction ID: 41829376184.',
+    merchantCategories: { 'Kofi Broke-Man': 'Food & Dining' },
+    expected: { amount: 18.6, currency: 'GHS', type: 'expense', merchant: 'KOFI BROKE MAN', category: 'Food & Dining', balance: 237.9, reference: '41829376184' }
+  },
+  {
+    id: 'gh-momo-payment-merchant-alias',
+    region: 'Ghana',
+    sender: 'MobileMoney',
+    message: 'Payment made for GHS 64.35 to AUNTIE ESI ENTERPRISE. Current Balance: GHS 173.55. Transaction ID: 41829376233.',
+    merchants: [{ name: 'Auntie Esi', aliases: ['AUNTIE ESI ENTERPRISE'], defaultCategory: 'Food & Dining' }],
+    expected: { amount: 64.35, currency: 'GHS', type: 'expense', merchant: 'Auntie Esi', category: 'Food & Dining', balance: 173.55, reference: '41829376233' }
+  },
+  {
+    id: 'gh-momo-payment-delayed',
+    region: 'Ghana',
+    sender: 'MobileMoney',
+    message: 'Payment made for GHS 42.15 to ABENA STORES. Current Balance: GHS 214.35. Transaction ID: 41829376301. Date: 2024-05-31 18:42:10.',
+    receivedAt: '2024-06-02T07:05:00',
+    expected: { amount: 42.15, currency: 'GHS', type: 'expense', merchant: 'ABENA STORES', category: 'Shopping', balance: 214.35, reference: '41829376301', date: '2024-05-31 18:42' }
+  },
+  {
+    id: 'gh-gcb-pos-date-only',
+    region: 'Ghana',
+    sender: 'GCB Bank',
+    message: 'Dear Customer, GHS 86.20 has been debited from your account ****1234 on 30/05/2024 for POS purchase at MELCOM. Avail Bal: GHS 743.90',
+    receivedAt: '2024-06-02T07:05:00',
+    expected: { amount: 86.2, currency: 'GHS', type: 'expense', merchant: 'MELCOM', category: 'Shopping', balance: 743.9, date: '2024-05-30' }
+  },
+  {
+    id: 'gh-gcb-mini-statement',
+    region: 'Ghana',
+    sender: 'GCB Bank',
+    message: 'GCB Mini Statement Acct ****4521\n28/05 DR 45.30 KFC ACHIMOTA\n29/05 CR 1,250.75 SALARY ACME LTD\n30/05 DR 120.45 ECG PREPAID Ref: FT2405301234\nAvail Bal: GHS 3,410.62',
+    receivedAt: '2024-06-01T08:15:00',
+    expected: [
+      { amount: 45.3, currency: 'GHS', type: 'expense', merchant: 'KFC ACHIMOTA', category: 'Food & Dining', date: '2024-05-28' },
+      { amount: 1250.75, currency: 'GHS', type: 'income', merchant: 'SALARY ACME LTD', category: 'Salary', date: '2024-05-29' },
+      { amount: 120.45, currency: 'GHS', type: 'expense', merchant: 'ECG PREPAID', category: 'Bills & Utilities', reference: 'FT2405301234', date: '2024-05-30' }
+    ]
+  },
+  {
+    id: 'gh-ecobank-daily-summary',
+    region: 'Ghana',
+    sender: 'Ecobank',
+    message: 'Ecobank daily summary 31-May-24: Debit GHS 23.80 at MELCOM; Credit GHS 310.25 from KWAME MENSAH; Debit GHS 9.15 VODAFONE AIRTIME. Bal GHS 890.40',
+    receivedAt: '2024-06-01T08:15:00',
+    expected: [
+      { amount: 23.8, currency: 'GHS', type: 'expense', merchant: 'MELCOM', category: 'Other Expense', date: '2024-05-31' },
+      { amount: 310.25, currency: 'GHS', type: 'income', merchant: 'KWAME MENSAH', category: 'Other Income', date: '2024-05-31' },
+      { amount: 9.15, currency: 'GHS', type: 'expense', merchant: 'VODAFONE AIRTIME', category: 'Bills & Utilities', date: '2024-05-31' }
+    ]
+  },
+  {
+    id: 'gh-kwikpay-allowed-sender',
+    region: 'Ghana',
+    sender: 'KwikPay',
+    message: 'KwikPay: You paid GHS 37.45 to UBER TRIP ACCRA. Thank you for using KwikPay.',
+    senderMode: 'always',
+    expected: { amount: 37.45, currency: 'GHS', type: 'expense', merchant: 'UBER TRIP ACCRA', category: 'Transportation' }
+  },
+  {
+    id: 'gh-gtbank-pos-blocked-sender',
+    region: 'Ghana',
+    sender: 'GTBank',
+    message: 'GTBank Alert: Transaction successful. Amt: GHS64.35 debited from Acct: ****1234. Desc: POS Purchase at GAME ACCRA MALL. Current Balance: GHS918.20',
+    senderMode: 'never',
+    expected: null
+  },
+  {
+    id: 'gh-gtbank-pos-review-sender',
+    region: 'Ghana',
+    sender: 'GTBank',
+    message: 'GTBank Alert: Transaction successful. Amt: GHS64.35 debited from Acct: ****1234. Desc: POS Purchase at GAME ACCRA MALL. Current Balance: GHS918.20',
+    senderMode: 'review',
+    review: true,
+    expected: { amount: 64.35, currency: 'GHS', type: 'expense', merchant: 'GAME ACCRA MALL', category: 'Shopping' }
+  },
+  {
+    id: 'gh-ecobank-daily-summary-review-sender',
+    region: 'Ghana',
+    sender: 'Ecobank',
+    message: 'Ecobank daily summary 31-May-24: Debit GHS 23.80 at MELCOM; Credit GHS 310.25 from KWAME MENSAH; Debit GHS 9.15 VODAFONE AIRTIME. Bal GHS 890.40',
+    receivedAt: '2024-06-01T08:15:00',
+    senderMode: 'review',
+    review: true,
+    expected: [
+      { amount: 23.8, currency: 'GHS', type: 'expense', merchant: 'MELCOM', category: 'Other Expense', date: '2024-05-31' },
+      { amount: 310.25, currency: 'GHS', type: 'income', merchant: 'KWAME MENSAH', category: 'Other Income', date: '2024-05-31' },
+      { amount: 9.15, currency: 'GHS', type: 'expense', merchant: 'VODAFONE AIRTIME', category: 'Bills & Utilities', date: '2024-05-31' }
+    ]
+  },
+  {
+    id: 'gh-calbank-transfer-charges-first',
+    region: 'Ghana',
+    sender: 'CalBank',
+    message: 'Your account 1400****77 has been debited with E-Levy: GHS 3.40 and Fee: GHS 2.00 for transfer of GHS 340.00 to KWAKU BOATENG. Available balance: GHS 1,210.55',
+    expected: { amount: 340, currency: 'GHS', type: 'expense', merchant: 'KWAKU BOATENG', category: 'Transfers', balance: 1210.55, charges: 5.4 }
+  },
+  {
+    id: 'gh-gcb-maintenance-fee',
+    region: 'Ghana',
+    sender: 'GCB Bank',
+    message: 'Dear Customer, account maintenance fee of GHS 5.35 has been debited from your account ****1234. Avail Bal: GHS 830.10',
+    expected: { amount: 5.35, currency: 'GHS', type: 'expense', merchant: null, category: 'Fees & Charges', balance: 830.1 }
+  },
+  {
+    id: 'gh-gcb-loan-disbursed',
+    region: 'Ghana',
+    sender: 'GCB-Bank',
+    message: 'GCB-Bank: Loan of GHS5,000.00 was paid into your account ****5678. Loan facility approved. Available balance: GHS7,250.25',
+    expected: { amount: 5000, currency: 'GHS', type: 'income', merchant: null, category: 'Other Income', balance: 7250.25, loan: 'disbursement' }
+  },
+  {
+    id: 'gh-fidelity-loan-repayment',
+    region: 'Ghana',
+    sender: 'Fidelity-Bank',
+    message: 'Fidelity Bank: Loan repayment of GHS850.00 debited from account ****3456. Monthly installment successful. Remaining balance: GHS12,150.00',
+    expected: { amount: 850, currency: 'GHS', type: 'expense', merchant: null, category: 'Other Expense' }
+  },
+  {
+    id: 'gh-mtn-qwikloan-disbursed',
+    region: 'Ghana',
+    sender: 'MobileMoney',
+    message: 'You have received a QwikLoan of GHS 450.00 in your MoMo wallet. Amount due: GHS 495.00 by 15/06/2024. Transaction ID: 4412345678',
+    expected: { amount: 450, currency: 'GHS', type: 'income', merchant: null, category: 'Transfers', reference: '4412345678', loan: 'disbursement', loanDueDate: '2024-06-15' }
+  },
+  {
+    id: 'gh-mtn-qwikloan-repaid',
+    region: 'Ghana',
+    sender: 'MobileMoney',
+    message: 'You have repaid GHS 165.00 of your QwikLoan. Outstanding loan balance: GHS 330.00. Transaction ID: 4412349999',
+    expected: { amount: 165, currency: 'GHS', type: 'expense', merchant: null, category: 'Other Expense', reference: '4412349999', loan: 'repayment' }
+  },
+  {
+    id: 'gh-hubtel-sent-you',
+    region: 'Ghana',
+    sender: 'HUBTEL',
+    message: 'KWAME ASANTE 233244567890 has sent you GHS 50.00 via https://hbtl.co/app with a Note: Thank you.',
+    expected: { amount: 50, currency: 'GHS', type: 'income', merchant: 'KWAME ASANTE', category: 'Transfers' }
+  },
+  {
+    id: 'gh-adb-balance-first',
+    region: 'Ghana',
+    sender: 'ADB',
+    message: 'ADB: Available Balance: GHS 2,450.75 after GHS1,250 was debited from Acct: ****4521 at MELCOM ACCRA MALL on 30/05/2024. Ref: ADB2405301122',
+    expected: { amount: 1250, currency: 'GHS', type: 'expense', merchant: 'MELCOM ACCRA MALL', category: 'Shopping', balance: 2450.75, reference: 'ADB2405301122' }
+  },
+  {
+    id: 'gh-adb-one-decimal',
+    region: 'Ghana',
+    sender: 'ADB',
+    message: 'ADB: GHS 12.5 debited from Acct: ****4521 for ECG PREPAID. Available Balance: GHS 2,438.25. Ref: ADB2405301130',
+    expected: { amount: 12.5, currency: 'GHS', type: 'expense', merchant: null, category: 'Bills & Utilities', balance: 2438.25, reference: 'ADB2405301130' }
+  },
+  {
+    id: 'gh-gcb-debit-shoprite',
+    region: 'Ghana',
+    sender: 'GCB-BANK',
+    message: 'GHS 250.00 has been debited from your account ending 1234 at SHOPRITE. Available balance: GHS 3,750.00.',
+    expected: { amount: 250, currency: 'GHS', type: 'expense', merchant: 'SHOPRITE', category: 'Shopping', balance: 3750 }
+  },
+  {
+    id: 'gh-absa-salary',
+    region: 'Ghana',
+    sender: 'ABSA-BANK',
+    message: 'Credit Alert. Acct: 0412****81 Amt: GHS4,820.00 credited. Desc: SALARY ACME GHANA LTD. Avail Bal: GHS6,105.33',
+    expected: { amount: 4820, currency: 'GHS', type: 'income', merchant: 'SALARY ACME GHANA LTD', category: 'Salary', balance: 6105.33 }
+  },
+  {
+    id: 'gh-vodafone-cash-sent',
+    region: 'Ghana',
+    sender: 'Vodafone-Cash',
+    message: 'You have sent GHS 120.00 to AMA OWUSU. Transaction successful. Your Vodafone Cash balance is GHS 88.20. Transaction ID: VC2405111234',
+    expected: { amount: 120, currency: 'GHS', type: 'expense', merchant: 'AMA OWUSU', category: 'Transfers', balance: 88.2, reference: 'VC2405111234' }
+  },
+  {
+    id: 'gh-ecobank-fuel',
+    region: 'Ghana',
+    sender: 'Ecobank-Ghana',
+    message: 'Ecobank: Acct 1441****22 debited with GHS 300.00 at GOIL ACHIMOTA on 12-MAR-24. Avail Bal: GHS 2,140.10. Ref: EB240312998',
+    expected: { amount: 300, currency: 'GHS', type: 'expense', merchant: 'GOIL ACHIMOTA', category: 'Transportation', balance: 2140.1, reference: 'EB240312998' }
+  },
+  {
+    id: 'gh-momo-payment-failed',
+    region: 'Ghana',
+    sender: 'MobileMoney',
+    message: 'Payment for GHS 45.50 to KOFI STORES failed. Insufficient funds. Your balance is GHS 12.30. Transaction ID: 41829377001.',
+    expected: null
+  },
+  {
+    id: 'gh-momo-reversal',
+    region: 'Ghana',
+    sender: 'MobileMoney',
+    message: 'Reversal of GHS 32.50 for Transaction ID: 41829375999 has been credited to your wallet. Current Balance: GHS 312.40.',
+    expected: { amount: 32.5, currency: 'GHS', type: 'income', merchant: null, category: 'Other Income', balance: 312.4, status: 'reversal' }
+  },
+  {
+    id: 'gh-ecobank-refund',
+    region: 'Ghana',
+    sender: 'Ecobank',
+    message: 'Ecobank: Acct 1441****22 credited with GHS 89.99 being refund from JUMIA GHANA. Avail Bal: GHS 2,230.09. Ref: EB240320117',
+    expected: { amount: 89.99, currency: 'GHS', type: 'income', merchant: 'JUMIA GHANA', category: 'Other Income', balance: 2230.09, status: 'refund' }
+  },
+  {
+    id: 'gh-gtbank-promo',
+    region: 'Ghana',
+    sender: 'GTBank',
+    message: 'Get up to 20% cashback on your next purchase! Use your GTBank card at participating merchants. Terms and conditions apply. Visit gtbank.com for details.',
+    expected: null
+  },
+  {
+    id: 'gh-momo-promo',
+    region: 'Ghana',
+    sender: 'MTN-MoMo',
+    message: 'Enjoy FREE MoMo transfers this weekend! Dial *170# to send money to loved ones. T&C apply.',
+    expected: null
+  },
+  {
+    id: 'gh-card-reminder',
+    region: 'Ghana',
+    sender: 'CalBank',
+    message: 'Dear Customer, your credit card payment due date is 25th May. Please ensure you have sufficient funds. Plan ahead.',
+    expected: null
+  },
+
+  // Nigeria
+  {
+    id: 'ng-gtbank-purchase',
+    region: 'Nigeria',
+    sender: 'GTBank-NG',
+    message: 'GTBank: NGN12,500.00 debited from account ****5678. Purchase at SHOPRITE LAGOS. Transaction ID: GTB123456789. Current balance: NGN45,230.80',
+    expected: { amount: 12500, currency: 'NGN', type: 'expense', merchant: 'SHOPRITE LAGOS', category: 'Shopping', balance: 45230.8, reference: 'GTB123456789' }
+  },
+  {
+    id: 'ng-gtbank-purchase-merchant-pattern',
+    region: 'Nigeria',
+    sender: 'GTBank-NG',
+    message: 'GTBank: NGN8,315.40 debited from account ****5678. Purchase at SHOPRITE-IKEJA CITY MALL. Transaction ID: GTB123457011. Current balance: NGN36,915.40',
+    merchants: [{ name: 'Shoprite', patterns: ['^shoprite\\b'] }],
+    expected: { amount: 8315.4, currency: 'NGN', type: 'expense', merchant: 'Shoprite', category: 'Shopping', balance: 36915.4, reference: 'GTB123457011' }
+  },
+  {
+    id: 'ng-opay-received',
+    region: 'Nigeria',
+    sender: 'OPay',
+    message: 'OPay: Payment received for NGN8,750 from ADEBAYO WILLIAMS via mobile transfer. Available balance: NGN125,400. Ref: OPY240815',
+    expected: { amount: 8750, currency: 'NGN', type: 'income', merchant: 'ADEBAYO WILLIAMS', category: 'Transfers', balance: 125400, reference: 'OPY240815' }
+  },
+  {
+    id: 'ng-access-loan-disbursed',
+    region: 'Nigeria',
+    sender: 'Access-Bank',
+    message: 'Access Bank: Personal loan of NGN250,000.00 disbursed to account ****7890. Loan facility activated. Available balance: NGN275,400.00',
+    expected: { amount: 250000, currency: 'NGN', type: 'income', merchant: null, category: 'Other Income' }
+  },
+  {
+    id: 'ng-zenith-transfer',
+    region: 'Nigeria',
+    sender: 'ZenithBank',
+    message: 'Acct:22****901 DR Amt:NGN15,000.00 Desc: Transfer to CHIDI OKAFOR via NIP Date:14-Jun-24 Bal:NGN61,220.45',
+    expected: { amount: 15000, currency: 'NGN', type: 'expense', merchant: 'CHIDI OKAFOR', category: 'Transfers', balance: 61220.45 }
+  },
+  {
+    id: 'ng-uba-credit',
+    region: 'Nigeria',
+    sender: 'UBA',
+    message: 'Credit Alert! Acct: 20XX7733 Amt: NGN45,000.00 credited. Desc: SALARY JUNE ACME NIG LTD. Bal: NGN92,130.00',
+    expected: { amount: 45000, currency: 'NGN', type: 'income', merchant: 'SALARY JUNE ACME NIG LTD', category: 'Salary', balance: 92130 }
+  },
+  {
+    id: 'ng-opay-promo',
+    region: 'Nigeria',
+    sender: 'OPay-Marketing',
+    message: 'OPay Nigeria: Enjoy free transfers up to NGN1,000 this weekend! Download our app and take advantage of this amazing offer. T&C apply.',
+    expected: null
+  },
+
+  // East Africa
+  {
+    id: 'ke-mpesa-sent',
+    region: 'Kenya',
+    sender: 'MPESA',
+    message: 'QJK3H7XY2P Confirmed. Ksh1,450.00 sent to JOHN KAMAU 0712345678 on 31/5/24 at 3:45 PM. New M-PESA balance is Ksh8,250.50. Transaction cost, Ksh23.00. Amount you can transact within the day is 298,550.00.',
+    expected: { amount: 1450, currency: 'KES', type: 'expense', merchant: 'JOHN KAMAU', category: 'Transfers', balance: 8250.5, reference: 'QJK3H7XY2P', charges: 23 }
+  },
+  {
+    id: 'ke-mpesa-received',
+    region: 'Kenya',
+    sender: 'MPESA',
+    message: 'QJL8K2MN4R Confirmed.You have received Ksh2,350.00 from MARY WANJIKU 0722334455 on 30/5/24 at 9:12 AM  New M-PESA balance is Ksh10,600.50.',
+    expected: { amount: 2350, currency: 'KES', type: 'income', merchant: 'MARY WANJIKU', category: 'Transfers', balance: 10600.5, reference: 'QJL8K2MN4R' }
+  },
+  {
+    id: 'ke-mpesa-paybill',
+    region: 'Kenya',
+    sender: 'MPESA',
+    message: 'QJM1P5RT8S Confirmed. Ksh1,275.00 sent to KPLC PREPAID for account 37128456921 on 29/5/24 at 7:30 PM New M-PESA balance is Ksh6,975.50. Transaction cost, Ksh15.00.',
+    expected: { amount: 1275, currency: 'KES', type: 'expense', merchant: 'KPLC PREPAID', category: 'Bills & Utilities', balance: 6975.5, reference: 'QJM1P5RT8S', charges: 15 }
+  },
+  {
+    id: 'ke-mpesa-till',
+    region: 'Kenya',
+    sender: 'MPESA',
+    message: 'QJN4S9UV1W Confirmed. Ksh845.00 paid to NAIVAS SUPERMARKET. on 28/5/24 at 6:05 PM.New M-PESA balance is Ksh5,130.50. Transaction cost, Ksh0.00.',
+    expected: { amount: 845, currency: 'KES', type: 'expense', merchant: 'NAIVAS SUPERMARKET', category: 'Shopping', balance: 5130.5, reference: 'QJN4S9UV1W' }
+  },
+  {
+    id: 'ke-mpesa-withdraw',
+    region: 'Kenya',
+    sender: 'MPESA',
+    message: 'QJP7W2XY5Z Confirmed.on 27/5/24 at 1:20 PMWithdraw Ksh2,150.00 from 123456 - JUJA AGENT SHOP New M-PESA balance is Ksh3,980.50. Transaction cost, Ksh29.00.',
+    expected: { amount: 2150, currency: 'KES', type: 'expense', merchant: 'JUJA AGENT SHOP', category: 'Other Expense', balance: 3980.5, reference: 'QJP7W2XY5Z', charges: 29 }
+  },
+  {
+    id: 'ke-airtel-money-sent',
+    region: 'Kenya',
+    sender: 'AirtelMoney',
+    message: 'Airtel Money: You have sent Ksh 1,320.00 to PETER OTIENO 0733445566 on 30/05/2024. Trans ID: MP240530.1245.A12345. Fee Ksh 11.00. New balance Ksh 4,210.00.',
+    expected: { amount: 1320, currency: 'KES', type: 'expense', merchant: 'PETER OTIENO', category: 'Transfers', balance: 4210, reference: 'MP240530.1245.A12345', charges: 11 }
+  },
+  {
+    id: 'ug-airtel-money-received',
+    region: 'Uganda',
+    sender: 'AirtelMoney',
+    message: 'You have received UGX 85,750 from 0701234567 SARAH NAKATO. Bal UGX 312,450. TID: 45678912345. Thank you for using Airtel Money.',
+    expected: { amount: 85750, currency: 'UGX', type: 'income', merchant: 'SARAH NAKATO', category: 'Transfers', balance: 312450, reference: '45678912345' }
+  },
+  {
+    id: 'ug-mtn-momo-received',
+    region: 'Uganda',
+    sender: 'MTNMobileMoney',
+    message: 'Y\'ello. You have received UGX 127,500 from DAVID MUKASA (256772123456) on 2024-05-30 14:22:10. Reason: rent share. Your new balance: UGX 408,300. Financial Transaction Id: 21987654321.',
+    expected: { amount: 127500, currency: 'UGX', type: 'income', merchant: 'DAVID MUKASA', category: 'Transfers', balance: 408300, reference: '21987654321' }
+  },
+  {
+    id: 'ug-mtn-momo-paid',
+    region: 'Uganda',
+    sender: 'MTNMobileMoney',
+    message: 'Y\'ello. You have paid UGX 64,300 to UMEME LTD on 2024-05-29 10:05:44. Fee UGX 750. Your new balance: UGX 280,800. Financial Transaction Id: 21987650011.',
+    expected: { amount: 64300, currency: 'UGX', type: 'expense', merchant: 'UMEME LTD', category: 'Bills & Utilities', balance: 280800, reference: '21987650011', charges: 750 }
+  },
+  {
+    id: 'tz-mpesa-sent',
+    region: 'Tanzania',
+    sender: 'M-PESA',
+    message: 'QK29HT5L7M Confirmed. Tsh36,500.00 sent to JUMA HAMISI 0754123456 on 30/5/24 at 4:10 PM. New M-PESA balance is Tsh142,350.00. Transaction cost, Tsh1,150.00.',
+    expected: { amount: 36500, currency: 'TZS', type: 'expense', merchant: 'JUMA HAMISI', category: 'Transfers', balance: 142350, reference: 'QK29HT5L7M', charges: 1150 }
+  },
+  // Francophone West and Central Africa
+  {
+    id: 'ci-orange-money-received',
+    region: "Côte d'Ivoire",
+    sender: 'OrangeMoney',
+    message: 'Vous avez reçu 10.000 FCFA de KOUADIO JEAN (0707123456). Nouveau solde: 45.250 FCFA. ID Transaction: CI240530.1542.A12345.',
+    expected: { amount: 10000, currency: 'XOF', type: 'income', merchant: 'KOUADIO JEAN', category: 'Transfers', balance: 45250, reference: 'CI240530.1542.A12345' }
+  },
+  {
+    id: 'ci-orange-money-withdrawal',
+    region: "Côte d'Ivoire",
+    sender: 'OrangeMoney',
+    message: 'Retrait de 5 000 F CFA chez AGENT COCODY 2 le 30/05/2024. Frais: 75 FCFA. Nouveau solde: 40 175 FCFA. ID Transaction: CO240530.1610.B23456.',
+    expected: { amount: 5000, currency: 'XOF', type: 'expense', merchant: 'AGENT COCODY', category: 'Other Expense', balance: 40175, reference: 'CO240530.1610.B23456', charges: 75, date: '2024-05-30' }
+  },
+  {
+    id: 'ci-orange-money-bill',
+    region: "Côte d'Ivoire",
+    sender: 'OrangeMoney',
+    message: 'Paiement de 18 750 FCFA à CIE FACTURE effectué avec succès. Frais: 0 FCFA. Nouveau solde: 27 520 FCFA. ID Transaction: PP240529.0930.C34567.',
+    expected: { amount: 18750, currency: 'XOF', type: 'expense', merchant: 'CIE FACTURE', category: 'Bills & Utilities', balance: 27520, reference: 'PP240529.0930.C34567' }
+  },
+  {
+    id: 'sn-wave-sent',
+    region: 'Senegal',
+    sender: 'Wave',
+    message: 'Vous avez envoyé 12.500F à AMINATA DIOP (77 123 45 67). Frais: 125F. Nouveau solde: 38.420F. Réf: T_4GH7K2LP9QW',
+    expected: { amount: 12500, currency: 'XOF', type: 'expense', merchant: 'AMINATA DIOP', category: 'Transfers', balance: 38420, reference: 'T_4GH7K2LP9QW', charges: 125 }
+  },
+  {
+    id: 'sn-wave-received',
+    region: 'Senegal',
+    sender: 'Wave',
+    message: 'Vous avez reçu 7.850F de OUSMANE FALL (78 456 12 34). Nouveau solde: 46.270F. Réf: T_9KD2M4PX7RS',
+    expected: { amount: 7850, currency: 'XOF', type: 'income', merchant: 'OUSMANE FALL', category: 'Transfers', balance: 46270, reference: 'T_9KD2M4PX7RS' }
+  },
+  {
+    id: 'tg-orabank-card-debit',
+    region: 'Togo',
+    sender: 'ORABANK',
+    message: 'ORABANK: Votre compte ****4521 a été débité de 32.750 FCFA le 29/05/2024. Libellé: ACHAT CARTE RAMCO LOME. Solde disponible: 154.300 FCFA.',
+    expected: { amount: 32750, currency: 'XOF', type: 'expense', merchant: 'ACHAT CARTE RAMCO LOME', category: 'Shopping', balance: 154300 }
+  },
+  {
+    id: 'cm-afriland-salary',
+    region: 'Cameroon',
+    sender: 'AFRILAND',
+    message: 'Afriland First Bank: Votre compte ****7810 a été crédité de 385 400 XAF. Libellé: VIREMENT SALAIRE MAI. Nouveau solde: 512 650 XAF.',
+    expected: { amount: 385400, currency: 'XAF', type: 'income', merchant: 'VIREMENT SALAIRE MAI', category: 'Salary', balance: 512650 }
+  },
+  {
+    id: 'ci-sgbci-grouped-decimal',
+    region: "Côte d'Ivoire",
+    sender: 'SGBCI',
+    message: 'SGBCI: Votre compte ****3307 a été débité de 1 254 300,00 XOF le 28/05/2024. Libellé: ACHAT CARTE CARREFOUR MARCORY. Solde disponible: 3 418 950,50 XOF.',
+    expected: { amount: 1254300, currency: 'XOF', type: 'expense', merchant: 'ACHAT CARTE CARREFOUR MARCORY', category: 'Shopping', balance: 3418950.5, date: '2024-05-28' }
+  },
+  {
+    id: 'ci-orange-money-failed',
+    region: "Côte d'Ivoire",
+    sender: 'OrangeMoney',
+    message: 'Echec du transfert de 15.000 FCFA vers 0505123456: solde insuffisant. Nouveau solde: 2.150 FCFA.',
+    expected: null
+  },
+  {
+    id: 'ci-orange-money-promo',
+    region: "Côte d'Ivoire",
+    sender: 'OrangeMoney',
+    message: "Orange Money: Gagnez jusqu'à 100.000 FCFA en bonus! Envoyez de l'argent avant le 30/06 et tentez votre chance. Composez #144#.",
+    expected: null
+  },
+  {
+    id: 'ci-orange-money-loan-disbursed',
+    region: "Côte d'Ivoire",
+    sender: 'OrangeMoney',
+    message: 'Vous avez reçu un prêt de 50 000 FCFA. Montant à rembourser 55 000 FCFA avant le 30/06/2024. Nouveau solde: 62 500 FCFA. ID transaction: PP240601.1234',
+    expected: { amount: 50000, currency: 'XOF', type: 'income', merchant: null, category: 'Transfers', balance: 62500, reference: 'PP240601.1234' }
+  },
+  {
+    id: 'ci-orange-money-loan-repaid',
+    region: "Côte d'Ivoire",
+    sender: 'OrangeMoney',
+    message: 'Remboursement de votre prêt de 27 500 FCFA effectué. Reste à rembourser 27 500 FCFA. Nouveau solde: 35 000 FCFA. ID transaction: PP240615.5678',
+    expected: { amount: 27500, currency: 'XOF', type: 'expense', merchant: null, category: 'Other Expense', balance: 35000, reference: 'PP240615.5678' }
+  },
+  // South Africa
+  {
+    id: 'za-fnb-atm',
+    region: 'South Africa',
+    sender: 'FNB',
+    message: 'FNB: R2,350.00 withdrawn from ATM at SANDTON CITY. Acct: ****9012. Available balance: R15,420.80',
+    expected: { amount: 2350, currency: 'ZAR', type: 'expense', merchant: 'SANDTON CITY', category: 'Other Expense', balance: 15420.8 }
+  },
+  {
+    id: 'za-standard-bank-purchase',
+    region: 'South Africa',
+    sender: 'StandardBank',
+    message: 'Standard Bank: Purchase R459.99 at WOOLWORTHS ROSEBANK from cheque acc ..4471. Available balance R8,212.30.',
+    expected: { amount: 459.99, currency: 'ZAR', type: 'expense', merchant: 'WOOLWORTHS ROSEBANK', category: 'Shopping', balance: 8212.3 }
+  },
+  {
+    id: 'za-capitec-payment-received',
+    region: 'South Africa',
+    sender: 'Capitec',
+    message: 'Capitec: Payment from THABO NKOSI ref RENT JUNE of R3,500.00 received into acc ..1289. Available balance R4,902.15',
+    expected: { amount: 3500, currency: 'ZAR', type: 'income', merchant: 'THABO NKOSI', category: 'Transfers', balance: 4902.15 }
+  },
+  {
+    id: 'za-nedbank-debit-order',
+    region: 'South Africa',
+    sender: 'Nedbank',
+    message: 'Nedbank: Debit order of R699.00 to VODACOM debited from acc ..5520. Available balance: R3,120.44',
+    expected: { amount: 699, currency: 'ZAR', type: 'expense', merchant: 'VODACOM', category: 'Bills & Utilities', balance: 3120.44 }
+  },
+  {
+    id: 'za-fnb-contest',
+    region: 'South Africa',
+    sender: 'FNB-Contest',
+    message: 'FNB: Win R10,000 in our monthly prize draw! Just spend R500 or more at any participating retailer. Visit fnb.co.za for terms.',
+    expected: null
+  },
+
+  // Scams and spoofed senders
+  {
+    id: 'gh-scam-momo-reverse',
+    region: 'Ghana',
+    sender: '0244123987',
+    message: 'MTN MoMo: You have received GHS 450.00 from KWAKU BOATENG. Current Balance: GHS 462.30. Trans ID: 51234567890. This was sent to you by mistake, kindly reverse it by dialing *170# and approve the reversal.',
+    expected: null,
+    quarantined: true
+  },
+  {
+    id: 'gh-scam-gtbank-lookalike',
+    region: 'Ghana',
+    sender: 'GTBank-Alerts',
+    message: 'GTBank Alert: Acct: ****1234 credited with GHS 2,300.00. Desc: TRANSFER FROM ESI OWUSU. Avail Bal: GHS 2,415.60. Confirm receipt at www.gtbank-gh-secure.com',
+    expected: null,
+    quarantined: true
+  },
+  {
+    id: 'gh-scam-momo-link-call',
+    region: 'Ghana',
+    sender: 'MobileMoney',
+    message: 'Payment received for GHS 850.00 from ALHAJI IDDRISU. Current Balance: GHS 902.15. Transaction ID: 41829371111. Confirm receipt at momo-gh-secure.xyz or contact 0559876543.',
+    expected: null,
+    quarantined: true
+  },
+  {
+    id: 'ci-scam-orange-money-par-erreur',
+    region: "Côte d'Ivoire",
+    sender: '+2250707123456',
+    message: 'Orange Money: Vous avez reçu 50000 FCFA de KONE IBRAHIM. Envoyé par erreur, merci de renvoyer le montant au 0707123456.',
+    expected: null,
+    quarantined: true
+  },
+  {
+    id: 'gh-ecobank-credit-with-link',
+    region: 'Ghana',
+    sender: 'Ecobank',
+    message: 'Ecobank: Your account ****5678 has been credited with GHS 1,240.50 on 30/05/2024. Ref: ECO2405309911. Avail Bal: GHS 3,410.75. Help: www.ecobank.com',
+    expected: { amount: 1240.5, currency: 'GHS', type: 'income', merchant: null, category: 'Other Income', balance: 3410.75, reference: 'ECO2405309911' }
+  }
+];
@@ -0,0 +1,32 @@
+// Transactions for scripts/runServiceChecks.ts holding both transfer representations: a manual
+// 'transfer' row and a detected MoMo → bank pair whose legs stay expense and income.
+
+import type { Transaction, TransactionType } from '../../database/schema';
+
+export type TransferFixtureTransaction = Pick<Transaction, 'id' | 'type' | 'amount' | 'transferId' | 'account' | 'fromAccount' | 'toAccount'>;
+
+export const TRANSFER_TRANSACTIONS: TransferFixtureTransaction[] = [
+  { id: 'txn_salary', type: 'income', amount: 4200, account: 'GCB Current' },
+  { id: 'txn_kfc', type: 'expense', amount: 45.3, account: 'MTN MoMo' },
+  { id: 'txn_manual', type: 'transfer', amount: 500, account: 'GCB Current', fromAccount: 'GCB Current', toAccount: 'Cash' },
+  { id: 'txn_momo_debit', type: 'expense', amount: 300, account: 'MTN MoMo', transferId: 'transfer_1' },
+  { id: 'txn_bank_credit', type: 'income', amount: 300, account: 'Fidelity Savings', transferId: 'transfer_1' }
+];
+
+export interface TransferFilterExpectation {
+  type: TransactionType;
+  // Ids listed under this type filter
+  listed: string[];
+}
+
+export const TRANSFER_FILTERS: TransferFilterExpectation[] = [
+  { type: 'income', listed: ['txn_salary'] },
+  { type: 'expense', listed: ['txn_kfc'] },
+  { type: 'transfer', listed: ['txn_manual', 'txn_momo_debit', 'txn_bank_credit'] }
+];
+
+// The Transfers chart counts each transfer once, broken down by route
+export const TRANSFER_BREAKDOWN: { route: string; amount: number }[] = [
+  { route: 'GCB Current → Cash', amount: 500 },
+  { route: 'MTN MoMo → Fidelity Savings', amount: 300 }
+];
@@ -0,0 +1,145 @@
+import * as Notifications from 'expo-notifications';
+import { databaseService, AccountSuggestion, AccountType } from '../database/schema';
+import { ParsedTransaction } from './smsParser';
+import { accountService } from './accountService';
+import { smsTemplateRegistry } from './smsTemplates';
+import { normalizeSenderKey } from './smsParsingEngine';
+import { accountSuffixKeyword, suffixFromKeyword, suffixesMatch } from './accountSuffix';
+
+export class AccountDiscoveryService {
+  // Called for every saved transaction. An account number no account claims, or a known bank or
+  // wallet sender with no account at all, becomes a suggestion; the first sighting notifies.
+  async observe(transaction: ParsedTransaction, sender: string): Promise<void> {
+    const suffix = transaction.accountSuffix || '';
+    const senderKey = normalizeSenderKey(sender);
+    if (!senderKey) return;
+
+    if (!suffix) {
+      const template = smsTemplateRegistry.findBySender(sender, transaction.rawMessage);
+      if (transaction.account || !template || template.accountType === 'payment_gateway') return;
+    }
+
+    try {
+      const db = await databaseService.getDatabase();
+      if (!db) return;
+
+      if (suffix) {
+        const accounts = await accountService.getAccounts();
+        const claimed = accounts.some(account => account.smsKeywords.some(keyword => {
+          const keywordSuffix = suffixFromKeyword(keyword);
+          return keywordSuffix !== undefined && suffixesMatch(keywordSuffix, suffix);
+        }));
+        if (claimed) return;
+      }
+
+      const now = new Date().toISOString();
+      const existing = await db.getFirstAsync(
+        'SELECT id FROM account_suggestions WHERE senderKey = ? AND accountSuffix = ?',
+        [senderKey, suffix]
+      ) as { id: string } | null;
+
+      if (existing) {
+        await db.runAsync(
+          'UPDATE account_suggestions SET messageCount = messageCount + 1, lastSeen = MAX(lastSeen, ?), updatedAt = ? WHERE id = ?',
+          [transaction.date, now, existing.id]
+        );
+        return;
+      }
+
+      const { name, type } = this.suggestDetails(transaction, sender, suffix);
+      const id = `accsug_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      await db.runAsync(
+        `INSERT INTO account_suggestions
+         (id, sender, senderKey, accountSuffix, name, type, messageCount, lastSeen, status, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?, 1, ?, 'pending', ?, ?)`,
+        [id, sender.trim(), senderKey, suffix, name, type, transaction.date, now, now]
+      );
+
+      await this.notifySuggestion(name);
+    } catch (error) {
+      console.error('Error recording account suggestion:', error);
+    }
+  }
+
+  private suggestDetails(transaction: ParsedTransaction, sender: string, suffix: string): { name: string; type: AccountType } {
+    const template = smsTemplateRegistry.findBySender(sender, transaction.rawMessage);
+    const type: AccountType = template?.accountType === 'mobile_money'
+      ? 'mobile_money'
+      : /\bcredit\s*card\b/i.test(transaction.rawMessage) ? 'credit' : 'bank';
+    const bank = template?.bank || sender.trim();
+
+    return { name: suffix ? `${bank} ${accountSuffixKeyword(suffix)}` : bank, type };
+  }
+
+  private async notifySuggestion(name: string): Promise<void> {
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: '🏦 New Account Detected',
+        body: `${name} appears in your messages. Add it from Profile → Accounts.`,
+        data: { type: 'account_suggestion' },
+      },
+      trigger: null,
+    });
+  }
+
+  async getSuggestions(): Promise<AccountSuggestion[]> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    return await db.getAllAsync(
+      `SELECT * FROM account_suggestions WHERE status = 'pending' ORDER BY messageCount DESC, lastSeen DESC`
+    ) as AccountSuggestion[];
+  }
+
+  // Keywords that route the suggestion's future messages to an account
+  keywordsFor(suggestion: AccountSuggestion): string[] {
+    return suggestion.accountSuffix
+      ? [suggestion.senderKey, accountSuffixKeyword(suggestion.accountSuffix)]
+      : [suggestion.senderKey];
+  }
+
+  async createAccount(suggestion: AccountSuggestion, name: string, type: AccountType): Promise<string> {
+    const accountId = await accountService.createAccount({ name, type, smsKeywords: this.keywordsFor(suggestion) });
+    await this.resolve(suggestion, accountId, name.trim());
+    return accountId;
+  }
+
+  // The number belongs to an account the user already has
+  async linkToAccount(suggestion: AccountSuggestion, accountId: string, accountName: string): Promise<void> {
+    await accountService.addKeywords(accountId, this.keywordsFor(suggestion));
+    await this.resolve(suggestion, accountId, accountName);
+  }
+
+  async dismiss(suggestionId: string): Promise<void> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    await db.runAsync(
+      `UPDATE account_suggestions SET status = 'dismissed', updatedAt = ? WHERE id = ?`,
+      [new Date().toISOString(), suggestionId]
+    );
+  }
+
+  // Marks the suggestion done and gives its earlier, unassigned transactions the account
+  private async resolve(suggestion: AccountSuggestion, accountId: string, accountName: string): Promise<void> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const now = new Date().toISOString();
+    await db.runAsync(
+      `UPDATE account_suggestions SET status = 'created', accountId = ?, updatedAt = ? WHERE id = ?`,
+      [accountId, now, suggestion.id]
+    );
+    await db.runAsync(
+      `UPDATE transactions SET account = ?, updatedAt = ?
+       WHERE account IS NULL
+         AND IFNULL(accountSuffix, '') = ?
+         AND id IN (SELECT l.transactionId FROM processed_sms_transactions l
+                    JOIN processed_sms p ON p.smsId = l.smsId
+                    WHERE LOWER(TRIM(p.sender)) = ?)`,
+      [accountName, now, suggestion.accountSuffix, suggestion.senderKey]
+    );
+  }
+}
+
+export const accountDiscoveryService = new AccountDiscoveryService();
@@ -0,0 +1,157 @@
+import { databaseService, Account, AccountBalanceSnapshot } from '../database/schema';
+
+export class AccountService {
+  async getAccounts(): Promise<Account[]> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const result = await db.getAllAsync('SELECT * FROM accounts WHERE isActive = 1 ORDER BY name');
+    return result.map((row: any) => ({
+      ...row,
+      isActive: row.isActive === 1,
+      smsKeywords: JSON.parse(row.smsKeywords)
+    }));
+  }
+
+  async createAccount(account: Pick<Account, 'name' | 'type' | 'smsKeywords'> & { balance?: number }): Promise<string> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const name = account.name.trim();
+    if (!name) throw new Error('Account name is required');
+
+    const id = `acc_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    const now = new Date().toISOString();
+
+    await db.runAsync(
+      `INSERT INTO accounts (id, name, type, balance, isActive, smsKeywords, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, 1, ?, ?, ?)`,
+      [id, name, account.type, account.balance || 0, JSON.stringify(account.smsKeywords), now, now]
+    );
+
+    return id;
+  }
+
+  // Routes future messages that quote these keywords to the account
+  async addKeywords(accountId: string, keywords: string[]): Promise<void> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const row = await db.getFirstAsync('SELECT smsKeywords FROM accounts WHERE id = ?', [accountId]) as { smsKeywords: string } | null;
+    if (!row) throw new Error('Account not found');
+
+    const existing: string[] = JSON.parse(row.smsKeywords);
+    const merged = [...existing, ...keywords.filter(keyword => !existing.some(k => k.toLowerCase() === keyword.toLowerCase()))];
+    await db.runAsync(
+      'UPDATE accounts SET smsKeywords = ?, updatedAt = ? WHERE id = ?',
+      [JSON.stringify(merged), new Date().toISOString(), accountId]
+    );
+  }
+
+  // Store a bank-reported balance and move accounts.balance to the latest figure
+  async recordBalanceSnapshot(snapshot: Omit<AccountBalanceSnapshot, 'id' | 'createdAt'>): Promise<string> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const id = `bal_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    const now = new Date().toISOString();
+
+    await db.runAsync(
+      `INSERT INTO account_balance_snapshots 
+       (id, accountId, balance, currency, transactionId, source, reportedAt, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, snapshot.accountId, snapshot.balance, snapshot.currency, snapshot.transactionId || null,
+       snapshot.source, snapshot.reportedAt, now]
+    );
+
+    // History is processed out of order, so only the newest report wins
+    const latest = await this.getLatestSnapshot(snapshot.accountId);
+    if (latest && latest.id === id) {
+      await db.runAsync(
+        'UPDATE accounts SET balance = ?, updatedAt = ? WHERE id = ?',
+        [snapshot.balance, now, snapshot.accountId]
+      );
+    }
+
+    return id;
+  }
+
+  async getAccount(accountId: string): Promise<Account | null> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const row = await db.getFirstAsync('SELECT * FROM accounts WHERE id = ?', [accountId]) as any;
+    return row ? { ...row, isActive: row.isActive === 1, smsKeywords: JSON.parse(row.smsKeywords) } : null;
+  }
+
+  // A transfer moves money between two of the user's accounts; pass the accounts swapped to undo it.
+  // An account whose balance the bank reports is left alone: its next report already includes the transfer.
+  async applyTransfer(fromAccountId: string, toAccountId: string, amount: number): Promise<void> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const movements: [string, number][] = [[fromAccountId, -amount], [toAccountId, amount]];
+    for (const [accountId] of movements) {
+      if (!await this.getAccount(accountId)) throw new Error(`Account not found: ${accountId}`);
+    }
+
+    const now = new Date().toISOString();
+    for (const [accountId, change] of movements) {
+      if (await this.getLatestSnapshot(accountId)) continue;
+      await db.runAsync(
+        'UPDATE accounts SET balance = balance + ?, updatedAt = ? WHERE id = ?',
+        [change, now, accountId]
+      );
+    }
+  }
+
+  async getLatestSnapshot(accountId: string): Promise<AccountBalanceSnapshot | null> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const row = await db.getFirstAsync(
+      `SELECT * FROM account_balance_snapshots 
+       WHERE accountId = ? 
+       ORDER BY reportedAt DESC, createdAt DESC 
+       LIMIT 1`,
+      [accountId]
+    );
+
+    return (row as AccountBalanceSnapshot) || null;
+  }
+
+  // One snapshot per account, the most recently reported
+  async getLatestSnapshots(): Promise<AccountBalanceSnapshot[]> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const result = await db.getAllAsync(
+      `SELECT s.* FROM account_balance_snapshots s
+       WHERE s.id = (
+         SELECT id FROM account_balance_snapshots
+         WHERE accountId = s.accountId
+         ORDER BY reportedAt DESC, createdAt DESC
+         LIMIT 1
+       )`
+    );
+
+    return result as AccountBalanceSnapshot[];
+  }
+
+  async getBalanceHistory(accountId: string, limit: number = 90): Promise<AccountBalanceSnapshot[]> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const result = await db.getAllAsync(
+      `SELECT * FROM account_balance_snapshots 
+       WHERE accountId = ? 
+       ORDER BY reportedAt DESC 
+       LIMIT ?`,
+      [accountId, limit]
+    );
+
+    return result as AccountBalanceSnapshot[];
+  }
+}
+
+export const accountService = new AccountService();
@@ -0,0 +1,28 @@
+// Trailing digits of the account or card number an alert quotes ("Acct ****4521",
+// "Acct 1441****22", "card ending in 1234").
+
+const ACCOUNT_NUMBER = /\b(?:a\/c|acct|account|card)(?:\s*(?:no|number))?\.?\s*[:#]?\s*(?:ending\s*(?:in|with)?\s*)?([0-9*xX]{4,})(?![0-9*xX])/i;
+
+export function extractAccountSuffix(text: string): string | undefined {
+  const match = ACCOUNT_NUMBER.exec(text);
+  if (!match) return undefined;
+
+  const token = match[1];
+  // Masked numbers keep only the digits after the mask; a full number keeps its last four
+  const digits = /[*xX]/.test(token) ? /(\d{2,})$/.exec(token)?.[1] : token.slice(-4);
+  return digits && /^\d+$/.test(digits) ? digits : undefined;
+}
+
+// Banks mask differently, so "22" from one alert and "0422" from another can be the same account
+export function suffixesMatch(a: string, b: string): boolean {
+  return a.length <= b.length ? b.endsWith(a) : a.endsWith(b);
+}
+
+// Account keywords written as "****4521" match on the suffix instead of as plain text
+export function accountSuffixKeyword(suffix: string): string {
+  return `****${suffix}`;
+}
+
+export function suffixFromKeyword(keyword: string): string | undefined {
+  return /^\*+(\d{2,})$/.exec(keyword.trim())?.[1];
+}
@@ -1,6 +1,10 @@
 import { databaseService, Budget, Transaction } from '../database/schema';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
+// Reversed transactions and their reversals cancel out, and transfers between the user's
+// own accounts are not spending, so both are left out
+const COUNTED_TRANSACTIONS = `IFNULL(status, 'completed') NOT IN ('reversed', 'reversal') AND transferId IS NULL`;
+
 export interface BudgetSummary {
   totalBudget: number;
   totalSpent: number;
@@ -142,7 +146,7 @@ export class BudgetService {
       const transactionCount = await db.getFirstAsync(
         `SELECT COUNT(*) as count FROM transactions 
          WHERE category = ? AND type = 'expense' 
-         AND date BETWEEN ? AND ?`,
+         AND date BETWEEN ? AND ? AND ${COUNTED_TRANSACTIONS}`,
         [budget.category, budget.startDate, budget.endDate]
       ) as any;
 
@@ -174,7 +178,7 @@ export class BudgetService {
     const result = await db.getAllAsync(
       `SELECT date(date) as date, SUM(amount) as amount, category
        FROM transactions 
-       WHERE type = 'expense' AND date >= ? AND date <= ?
+       WHERE type = 'expense' AND date >= ? AND date <= ? AND ${COUNTED_TRANSACTIONS}
        GROUP BY date(date), category
        ORDER BY date DESC, amount DESC`,
       [startDate.toISOString(), endDate.toISOString()]
@@ -193,7 +197,7 @@ export class BudgetService {
     const result = await db.getAllAsync(
       `SELECT category, SUM(amount) as amount, COUNT(*) as count
        FROM transactions 
-       WHERE type = 'expense' AND date >= ?
+       WHERE type = 'expense' AND date >= ? AND ${COUNTED_TRANSACTIONS}
        GROUP BY category
        ORDER BY amount DESC
        LIMIT ?`,
@@ -214,7 +218,7 @@ export class BudgetService {
     const result = await db.getFirstAsync(
       `SELECT SUM(amount) as total FROM transactions 
        WHERE category = ? AND type = 'expense' 
-       AND date BETWEEN ? AND ?`,
+       AND date BETWEEN ? AND ? AND ${COUNTED_TRANSACTIONS}`,
       [budget.category, budget.startDate, budget.endDate]
     ) as any;
 
@@ -0,0 +1,80 @@
+// Deciding whether an alert from one source (SMS, email) reports a transaction another
+// source already recorded. Kept free of the database so the fixtures can run in Node.
+
+import type { Transaction } from '../database/schema';
+import { normalizeMerchantKey, ParsedTransaction } from './smsParsingEngine';
+import { suffixesMatch } from './accountSuffix';
+
+// An email alert can trail the SMS for the same card purchase, or arrive first
+export const MATCH_WINDOW_MINUTES = 120;
+// A shared reference is enough on its own, even when one alert was delayed by days
+export const REFERENCE_WINDOW_DAYS = 3;
+
+export interface CrossSourceMatch {
+  transactionId: string;
+  matchedOn: string[];
+  minutesApart: number;
+}
+
+// Fields that tie two alerts to the same payment beyond amount and time
+const CORROBORATING_FIELDS = ['reference', 'account suffix', 'account', 'merchant'];
+
+const minutesBetween = (a: string, b: string): number =>
+  Math.abs(new Date(a).getTime() - new Date(b).getTime()) / (60 * 1000);
+
+// Banks shorten merchant names differently: "MAXMART" and "MAXMART EAST LEGON" agree
+const merchantsAgree = (a: string, b: string): boolean => {
+  const [keyA, keyB] = [normalizeMerchantKey(a), normalizeMerchantKey(b)];
+  if (!keyA || !keyB) return false;
+  return keyA === keyB || ` ${keyA} `.includes(` ${keyB} `) || ` ${keyB} `.includes(` ${keyA} `);
+};
+
+// The candidate must agree on amount, currency and type already (the query filters on them).
+// A reference, account suffix or account that both sides quote must agree, and at least one
+// of those or the merchant must corroborate the match. Without a shared reference the two
+// alerts must also fall within MATCH_WINDOW_MINUTES.
+export function compareCandidate(
+  transaction: ParsedTransaction,
+  candidate: Pick<Transaction, 'id' | 'date' | 'receivedAt' | 'reference' | 'accountSuffix' | 'account' | 'merchant'>
+): CrossSourceMatch | null {
+  const matchedOn = ['amount'];
+
+  if (transaction.reference && candidate.reference) {
+    if (transaction.reference.toLowerCase() !== candidate.reference.toLowerCase()) return null;
+    matchedOn.push('reference');
+  }
+  if (transaction.accountSuffix && candidate.accountSuffix) {
+    if (!suffixesMatch(transaction.accountSuffix, candidate.accountSuffix)) return null;
+    matchedOn.push('account suffix');
+  }
+  if (transaction.account && candidate.account) {
+    if (transaction.account !== candidate.account) return null;
+    matchedOn.push('account');
+  }
+  if (transaction.merchant && candidate.merchant && merchantsAgree(transaction.merchant, candidate.merchant)) {
+    matchedOn.push('merchant');
+  }
+
+  // Two same-sized payments close together (airtime top-ups, bus fares) are not one payment
+  if (!matchedOn.some(field => CORROBORATING_FIELDS.includes(field))) return null;
+
+  // Either side may have taken its date from the body and kept the receive time separately
+  const times = (item: { date: string; receivedAt?: string }) => [item.date, ...(item.receivedAt ? [item.receivedAt] : [])];
+  const minutesApart = Math.min(...times(transaction).flatMap(a => times(candidate).map(b => minutesBetween(a, b))));
+
+  if (minutesApart <= MATCH_WINDOW_MINUTES) {
+    matchedOn.push('time');
+  } else if (!matchedOn.includes('reference')) {
+    return null;
+  }
+
+  return { transactionId: candidate.id, matchedOn, minutesApart };
+}
+
+// A shared reference wins, then the most agreeing fields, then the closest in time
+export function isBetterMatch(match: CrossSourceMatch, best: CrossSourceMatch): boolean {
+  const byReference = Number(match.matchedOn.includes('reference')) - Number(best.matchedOn.includes('reference'));
+  if (byReference !== 0) return byReference > 0;
+  if (match.matchedOn.length !== best.matchedOn.length) return match.matchedOn.length > best.matchedOn.length;
+  return match.minutesApart < best.minutesApart;
+}
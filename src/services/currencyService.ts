@@ -149,8 +149,9 @@ export class CurrencyConversionService {
     const balances = await db.getAllAsync(`
       SELECT 
         currency,
-        SUM(CASE WHEN type = 'income' THEN amount ELSE -amount END) as balance
+        SUM(CASE WHEN type = 'income' THEN amount WHEN type = 'expense' THEN -amount ELSE 0 END) as balance
       FROM transactions 
+      WHERE IFNULL(status, 'completed') NOT IN ('reversed', 'reversal') AND transferId IS NULL
       GROUP BY currency
     `);
 
@@ -3,6 +3,7 @@ import * as Notifications from 'expo-notifications';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { gmailService, GmailMessage } from './gmailService';
 import { emailParserService } from './emailParser';
+import { transactionPipeline } from './transactionPipeline';
 import { smsListenerService } from './smsListener'; // For notifications
 
 export interface EmailMonitorStats {
@@ -88,54 +89,14 @@ export class EmailMonitorService {
 
       console.log(`Syncing emails since: ${syncSince.toISOString()}`);
 
-      let processed = 0;
-      let transactionsCreated = 0;
-      let errors = 0;
-      let nextPageToken: string | undefined;
-      
-      do {
-        const result = await gmailService.getFinancialEmails(50, nextPageToken);
-        
-        for (const email of result.messages) {
-          try {
-            // Skip if email is older than our sync window
-            if (email.date < syncSince) {
-              continue;
-            }
-
-            // Skip if already processed
-            if (await emailParserService.isEmailProcessed(email.id)) {
-              processed++;
-              continue;
-            }
-
-            // Parse email for transaction data
-            const parsedTransaction = await emailParserService.parseEmail(email);
-            
-            if (parsedTransaction) {
-              // Save the transaction
-              const transactionId = await emailParserService.saveEmailTransaction(email, parsedTransaction);
-              
-              // Send notification to user
-              await this.notifyUserOfEmailTransaction(email, parsedTransaction, transactionId);
-              
-              transactionsCreated++;
-              console.log(`Email transaction created: ${transactionId}`);
-            }
-            
-            processed++;
-          } catch (error) {
-            console.error(`Error processing email ${email.id}:`, error);
-            errors++;
-          }
+      const { processed, transactionsCreated, errors, created } = await transactionPipeline.sync(emailParserService, syncSince);
 
-          // Small delay to avoid rate limiting
-          await new Promise(resolve => setTimeout(resolve, 100));
+      // An email already recorded from an SMS alert is linked to it without a second notification
+      for (const { message, transactions } of created) {
+        for (const item of transactions) {
+          await this.notifyUserOfEmailTransaction(message, item.transaction, item.transactionId);
         }
-
-        nextPageToken = result.nextPageToken;
-        
-      } while (nextPageToken && processed < 200); // Limit to prevent excessive API calls
+      }
 
       // Update last sync time
       this.lastSyncTime = now;
@@ -1,7 +1,7 @@
-import { Transaction, Category, Account, databaseService } from '../database/schema';
-import { smsParserService, ParsedTransaction } from './smsParser';
-import { GmailMessage } from './gmailService';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { databaseService } from '../database/schema';
+import { ParsedTransaction } from './smsParser';
+import { gmailService, GmailMessage } from './gmailService';
+import { TransactionSource, SourceMessageIdentity } from './transactionPipeline';
 
 export interface ParsedEmail {
   emailId: string;
@@ -14,45 +14,35 @@ export interface ParsedEmail {
   createdAt: string;
 }
 
-export class EmailParserService {
-  private categories: Category[] = [];
-  private accounts: Account[] = [];
+// Account, category and canonical merchant are filled in by transactionPipeline,
+// the same way as for SMS
+export class EmailParserService implements TransactionSource<GmailMessage> {
+  readonly type = 'email' as const;
 
-  constructor() {
-    this.initializeParser();
-  }
+  async fetch(since: Date): Promise<GmailMessage[]> {
+    const emails: GmailMessage[] = [];
+    let nextPageToken: string | undefined;
 
-  private async initializeParser() {
-    try {
-      // Ensure database is initialized first
-      await databaseService.init();
-      await this.loadCategories();
-      await this.loadAccounts();
-    } catch (error) {
-      console.error('Error initializing email parser:', error);
-    }
-  }
+    do {
+      const result = await gmailService.getFinancialEmails(50, nextPageToken);
+      emails.push(...result.messages.filter(email => email.date >= since));
+      nextPageToken = result.nextPageToken;
+    } while (nextPageToken && emails.length < 200); // Limit to prevent excessive API calls
 
-  private async loadCategories(): Promise<void> {
-    const db = await databaseService.getDatabase();
-    if (!db) return;
+    return emails;
+  }
 
-    const result = await db.getAllAsync('SELECT * FROM categories');
-    this.categories = result.map((row: any) => ({
-      ...row,
-      keywords: JSON.parse(row.keywords)
-    }));
+  identify(email: GmailMessage): SourceMessageIdentity {
+    return { id: email.id, sender: email.from };
   }
 
-  private async loadAccounts(): Promise<void> {
-    const db = await databaseService.getDatabase();
-    if (!db) return;
+  async parse(email: GmailMessage): Promise<ParsedTransaction[]> {
+    const transaction = await this.parseEmail(email);
+    return transaction ? [transaction] : [];
+  }
 
-    const result = await db.getAllAsync('SELECT * FROM accounts WHERE isActive = 1');
-    this.accounts = result.map((row: any) => ({
-      ...row,
-      smsKeywords: JSON.parse(row.smsKeywords)
-    }));
+  async save(email: GmailMessage): Promise<void> {
+    await this.recordProcessedEmail(email);
   }
 
   async parseEmail(email: GmailMessage): Promise<ParsedTransaction | null> {
@@ -61,11 +51,6 @@ export class EmailParserService {
     console.log('Subject:', email.subject);
     console.log('Body preview:', email.body.substring(0, 200));
 
-    // Ensure categories are loaded
-    if (!this.categories || this.categories.length === 0) {
-      await this.loadCategories();
-    }
-
     // Check if this is a financial email
     if (!this.isFinancialEmail(email)) {
       console.log('Not a financial email');
@@ -74,7 +59,7 @@ export class EmailParserService {
     }
 
     // Extract transaction data from email
-    const amount = this.extractAmountFromEmail(email);
+    const { amount, currency } = this.extractAmountFromEmail(email);
     if (amount === 0) {
       console.log('No amount found in email');
       console.log('=== EMAIL PARSING END (No Amount) ===');
@@ -83,19 +68,19 @@ export class EmailParserService {
 
     const type = this.determineTransactionType(email);
     const merchant = this.extractMerchantFromEmail(email);
-    const account = this.identifyAccountFromEmail(email);
-    const category = this.categorizeEmailTransaction(email, merchant, type);
     const description = this.createDescriptionFromEmail(email);
+    const reference = this.extractReferenceFromEmail(email);
 
     const result: ParsedTransaction = {
       amount,
+      currency,
       description,
       merchant,
-      account: account?.name,
       type,
-      category: category.name,
+      category: '', // Left to the pipeline's categoriser
       date: email.date.toISOString(),
       rawMessage: `${email.subject}\n\n${email.body}`,
+      reference,
     };
 
     console.log('Parsed email transaction:', result);
@@ -135,7 +120,7 @@ export class EmailParserService {
     return hasFinancialKeywords || isFromFinancialSender;
   }
 
-  private extractAmountFromEmail(email: GmailMessage): number {
+  private extractAmountFromEmail(email: GmailMessage): { amount: number; currency: string } {
     const text = `${email.subject} ${email.body}`;
     
     // Enhanced patterns for email amounts
@@ -152,7 +137,7 @@ export class EmailParserService {
       /charged[:\s]*(?:ghs|₵)?\s*([0-9,]+(?:\.[0-9]{2})?)/gi,
       
       // PayPal/Stripe formats
-      /\$([0-9,]+(?:\.[0-9]{2})?)/g,
+      /(\$)([0-9,]+(?:\.[0-9]{2})?)/g,
       
       // Generic number extraction (last resort)
       /([0-9,]+\.[0-9]{2})/g
@@ -161,17 +146,25 @@ export class EmailParserService {
     for (const pattern of patterns) {
       const matches = text.matchAll(pattern);
       for (const match of matches) {
-        const amountStr = match[1].replace(/,/g, '');
+        const amountStr = match[match.length - 1].replace(/,/g, '');
         const amount = parseFloat(amountStr);
         
         if (!isNaN(amount) && amount > 0 && amount < 1000000) { // Reasonable amount range
           console.log(`Extracted amount: ${amount} from pattern: ${pattern}`);
-          return amount;
+          return { amount, currency: match[1] === '$' ? 'USD' : 'GHS' };
         }
       }
     }
 
-    return 0;
+    return { amount: 0, currency: 'GHS' };
+  }
+
+  private extractReferenceFromEmail(email: GmailMessage): string | undefined {
+    const text = `${email.subject} ${email.body}`;
+    const match = text.match(/(?:transaction\s*id|reference(?:\s*(?:no|number))?|ref(?:\s*no)?)[.:\s#]+([A-Z0-9][A-Z0-9./-]{2,}[A-Z0-9])/i);
+
+    // Receipts often carry a free-text reference; only keep ids containing digits
+    return match && /\d/.test(match[1]) ? match[1] : undefined;
   }
 
   private determineTransactionType(email: GmailMessage): 'income' | 'expense' {
@@ -247,67 +240,6 @@ export class EmailParserService {
     return undefined;
   }
 
-  private identifyAccountFromEmail(email: GmailMessage): Account | undefined {
-    const text = `${email.from} ${email.subject} ${email.body}`.toLowerCase();
-
-    return this.accounts.find(account =>
-      account.smsKeywords.some(keyword =>
-        text.includes(keyword.toLowerCase())
-      )
-    );
-  }
-
-  private categorizeEmailTransaction(email: GmailMessage, merchant: string | undefined, type: 'income' | 'expense'): Category {
-    const text = `${email.subject} ${email.body} ${merchant || ''}`.toLowerCase();
-
-    // Ensure categories are loaded
-    if (!this.categories || this.categories.length === 0) {
-      return this.getDefaultCategory(type);
-    }
-
-    // Find the best matching category
-    const relevantCategories = this.categories.filter(c => c && c.type === type);
-    let bestMatch: Category | undefined;
-    let bestScore = 0;
-
-    for (const category of relevantCategories) {
-      if (!category || !category.keywords) continue;
-
-      let score = 0;
-      for (const keyword of category.keywords) {
-        if (text.includes(keyword.toLowerCase())) {
-          score++;
-        }
-      }
-
-      if (score > bestScore) {
-        bestScore = score;
-        bestMatch = category;
-      }
-    }
-
-    return bestMatch || this.getDefaultCategory(type);
-  }
-
-  private getDefaultCategory(type: 'income' | 'expense'): Category {
-    const defaultCategory = this.categories.find(c =>
-      c && c.name === (type === 'income' ? 'Other Income' : 'Other Expense')
-    ) || this.categories.find(c => c && c.type === type);
-
-    if (defaultCategory) return defaultCategory;
-
-    // Final fallback
-    return {
-      id: 'default',
-      name: type === 'income' ? 'Other Income' : 'Other Expense',
-      type: type,
-      color: type === 'income' ? '#27AE60' : '#95A5A6',
-      icon: type === 'income' ? 'plus-circle' : 'more-horizontal',
-      keywords: [],
-      createdAt: new Date().toISOString()
-    };
-  }
-
   private createDescriptionFromEmail(email: GmailMessage): string {
     // Create a clean description from email subject and key body content
     let description = email.subject;
@@ -331,43 +263,20 @@ export class EmailParserService {
       .substring(0, 200); // Limit length
   }
 
-  async saveEmailTransaction(email: GmailMessage, parsedTransaction: ParsedTransaction): Promise<string> {
+  // transactionPipeline links the email to its transaction once the row exists
+  private async recordProcessedEmail(email: GmailMessage): Promise<void> {
     const db = await databaseService.getDatabase();
     if (!db) throw new Error('Database not available');
 
-    // Save the transaction
-    const transactionId = await smsParserService.saveTransaction(parsedTransaction);
-
-    // Record processed email
     const emailRecordId = `email_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
     const now = new Date().toISOString();
 
     await db.runAsync(
       `INSERT INTO processed_sms 
        (id, smsId, sender, body, date, transactionId, isProcessed, createdAt)
-       VALUES (?, ?, ?, ?, ?, ?, 1, ?)`,
-      [emailRecordId, email.id, email.from, email.subject, email.date.toISOString(), transactionId, now]
+       VALUES (?, ?, ?, ?, ?, NULL, 1, ?)`,
+      [emailRecordId, email.id, email.from, email.subject, email.date.toISOString(), now]
     );
-
-    console.log('Email transaction saved:', transactionId);
-    return transactionId;
-  }
-
-  async isEmailProcessed(emailId: string): Promise<boolean> {
-    try {
-      const db = await databaseService.getDatabase();
-      if (!db) return false;
-
-      const result = await db.getFirstAsync(
-        'SELECT id FROM processed_sms WHERE smsId = ?',
-        [emailId]
-      );
-
-      return !!result;
-    } catch (error) {
-      console.error('Error checking if email is processed:', error);
-      return false;
-    }
   }
 }
 
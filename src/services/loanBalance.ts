@@ -0,0 +1,44 @@
+// What is left on a loan given the repayments linked to it. Kept free of the database so
+// the fixtures can run in Node.
+
+import type { Loan, LoanSchedule } from '../database/schema';
+
+export interface LoanSummary extends Loan {
+  repaid: number;
+  repaymentCount: number;
+  outstanding: number;
+  interestPaid: number; // Repaid beyond the principal
+  nextDueDate?: string;
+}
+
+const addPeriods = (date: Date, schedule: LoanSchedule, count: number): Date => {
+  const next = new Date(date);
+  if (schedule === 'weekly') next.setDate(next.getDate() + 7 * count);
+  if (schedule === 'monthly') next.setMonth(next.getMonth() + count);
+  return next;
+};
+
+// Instalment schedules move on one period per repayment; a one-off loan keeps its due date
+export function nextDueDate(loan: Loan, repaymentCount: number): string | undefined {
+  if (!loan.schedule || loan.schedule === 'once') return loan.dueDate;
+
+  const first = loan.dueDate ? new Date(loan.dueDate) : addPeriods(new Date(loan.disbursedAt), loan.schedule, 1);
+  return addPeriods(first, loan.schedule, repaymentCount).toISOString();
+}
+
+// The lender's latest quoted balance wins; otherwise the total due (fees included) less what was repaid
+export function summariseLoan(loan: Loan & { repaid: number; repaymentCount: number }): LoanSummary {
+  const owed = loan.totalDue ?? loan.principal + (loan.interestAmount ?? 0);
+  const outstanding = loan.status === 'repaid' ? 0 : loan.reportedOutstanding ?? Math.max(0, owed - loan.repaid);
+
+  return {
+    ...loan,
+    outstanding,
+    interestPaid: Math.max(0, loan.repaid - loan.principal),
+    nextDueDate: loan.status === 'repaid' ? undefined : nextDueDate(loan, loan.repaymentCount),
+  };
+}
+
+export function isSettled(summary: LoanSummary): boolean {
+  return summary.outstanding < 0.005;
+}
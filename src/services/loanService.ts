@@ -0,0 +1,106 @@
+import { databaseService, Loan } from '../database/schema';
+import { ParsedTransaction } from './smsParser';
+import { isSettled, summariseLoan, LoanSummary } from './loanBalance';
+
+export type { LoanSummary } from './loanBalance';
+
+export class LoanService {
+  // Called by the transaction pipeline for a saved transaction the parser marked as a loan
+  // disbursement or repayment. The transaction is linked to the loan through loanId.
+  async recordTransaction(transactionId: string, transaction: ParsedTransaction): Promise<string | null> {
+    if (!transaction.loan) return null;
+
+    try {
+      return transaction.loan.event === 'disbursement'
+        ? await this.openLoan(transactionId, transaction)
+        : await this.recordRepayment(transactionId, transaction);
+    } catch (error) {
+      console.error('Error recording loan transaction:', error);
+      return null;
+    }
+  }
+
+  private async openLoan(transactionId: string, transaction: ParsedTransaction): Promise<string> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const loan = transaction.loan!;
+    const id = `loan_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    const now = new Date().toISOString();
+
+    await db.runAsync(
+      `INSERT INTO loans
+       (id, lender, principal, currency, disbursedAt, interestRate, interestAmount, totalDue, schedule, dueDate,
+        account, disbursementTransactionId, status, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'active', ?, ?)`,
+      [id, loan.lender, transaction.amount, transaction.currency, transaction.date,
+       loan.interestRate ?? null, loan.interestAmount ?? null, loan.totalDue ?? null, loan.schedule || null,
+       loan.dueDate || null, transaction.account || null, transactionId, now, now]
+    );
+    await db.runAsync('UPDATE transactions SET loanId = ?, updatedAt = ? WHERE id = ?', [id, now, transactionId]);
+
+    console.log(`Opened loan from ${loan.lender}: ${transaction.amount}`);
+    return id;
+  }
+
+  // Pays down the lender's oldest active loan, or the only active loan when the lender is unknown
+  private async recordRepayment(transactionId: string, transaction: ParsedTransaction): Promise<string | null> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const active = await db.getAllAsync(
+      `SELECT * FROM loans WHERE status = 'active' AND currency = ? ORDER BY disbursedAt`,
+      [transaction.currency]
+    ) as Loan[];
+    const lender = transaction.loan!.lender.toLowerCase();
+    const loan = active.find(candidate => candidate.lender.toLowerCase() === lender)
+      || (active.length === 1 ? active[0] : undefined);
+    if (!loan) return null;
+
+    const now = new Date().toISOString();
+    await db.runAsync('UPDATE transactions SET loanId = ?, updatedAt = ? WHERE id = ?', [loan.id, now, transactionId]);
+    // A repayment SMS without a balance leaves nothing to trust from an earlier one
+    await db.runAsync(
+      'UPDATE loans SET reportedOutstanding = ?, updatedAt = ? WHERE id = ?',
+      [transaction.loan!.outstanding ?? null, now, loan.id]
+    );
+
+    const summary = await this.getLoan(loan.id);
+    if (summary && isSettled(summary)) {
+      await this.markRepaid(loan.id);
+    }
+
+    return loan.id;
+  }
+
+  async getLoans(): Promise<LoanSummary[]> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const loans = await db.getAllAsync(
+      `SELECT l.*, IFNULL(SUM(t.amount), 0) AS repaid, COUNT(t.id) AS repaymentCount
+       FROM loans l
+       LEFT JOIN transactions t ON t.loanId = l.id AND t.type = 'expense'
+       GROUP BY l.id
+       ORDER BY l.status, l.disbursedAt DESC`
+    ) as (Loan & { repaid: number; repaymentCount: number })[];
+
+    return loans.map(summariseLoan);
+  }
+
+  async getLoan(loanId: string): Promise<LoanSummary | null> {
+    return (await this.getLoans()).find(loan => loan.id === loanId) || null;
+  }
+
+  async markRepaid(loanId: string): Promise<void> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    await db.runAsync(
+      `UPDATE loans SET status = 'repaid', updatedAt = ? WHERE id = ?`,
+      [new Date().toISOString(), loanId]
+    );
+  }
+}
+
+export const loanService = new LoanService();
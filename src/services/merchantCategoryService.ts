@@ -0,0 +1,82 @@
+import { databaseService, MerchantCategoryOverride, Transaction } from '../database/schema';
+import { normalizeMerchantKey } from './smsParsingEngine';
+import { budgetService } from './budgetService';
+
+export class MerchantCategoryService {
+  private overrides: MerchantCategoryOverride[] | null = null;
+
+  async getOverrides(): Promise<MerchantCategoryOverride[]> {
+    if (this.overrides) return this.overrides;
+
+    try {
+      const db = await databaseService.getDatabase();
+      if (!db) return [];
+
+      const result = await db.getAllAsync('SELECT * FROM merchant_category_overrides ORDER BY merchant');
+      this.overrides = result as MerchantCategoryOverride[];
+      return this.overrides;
+    } catch (error) {
+      console.error('Error loading merchant category overrides:', error);
+      return [];
+    }
+  }
+
+  async findCategory(merchant: string | undefined, type: 'income' | 'expense'): Promise<string | null> {
+    if (!merchant) return null;
+
+    const merchantKey = normalizeMerchantKey(merchant);
+    const overrides = await this.getOverrides();
+    return overrides.find(o => o.merchantKey === merchantKey && o.type === type)?.category || null;
+  }
+
+  // Remember the category the user picked so future SMS/email from this merchant use it
+  async recordOverride(merchant: string, type: 'income' | 'expense', category: string): Promise<void> {
+    const merchantKey = normalizeMerchantKey(merchant);
+    if (!merchantKey) return;
+
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const id = `override_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    const now = new Date().toISOString();
+
+    await db.runAsync(
+      `INSERT INTO merchant_category_overrides (id, merchantKey, merchant, type, category, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (merchantKey, type) DO UPDATE SET
+         merchant = excluded.merchant, category = excluded.category, updatedAt = excluded.updatedAt`,
+      [id, merchantKey, merchant.trim(), type, category, now, now]
+    );
+
+    this.overrides = null;
+  }
+
+  async deleteOverride(id: string): Promise<void> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    await db.runAsync('DELETE FROM merchant_category_overrides WHERE id = ?', [id]);
+    this.overrides = null;
+  }
+
+  // Manual recategorisation from the transaction detail view
+  async recategorizeTransaction(transaction: Transaction, category: string): Promise<void> {
+    if (transaction.category === category || transaction.type === 'transfer') return;
+
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    await db.runAsync(
+      'UPDATE transactions SET category = ?, updatedAt = ? WHERE id = ?',
+      [category, new Date().toISOString(), transaction.id]
+    );
+
+    if (transaction.merchant) {
+      await this.recordOverride(transaction.merchant, transaction.type, category);
+    }
+
+    await budgetService.recalculateAllBudgets();
+  }
+}
+
+export const merchantCategoryService = new MerchantCategoryService();
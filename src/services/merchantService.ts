@@ -0,0 +1,162 @@
+import { databaseService, Merchant } from '../database/schema';
+import { findMerchant, normalizeMerchantKey } from './smsParsingEngine';
+
+export interface NewMerchant {
+  name: string;
+  aliases?: string[];
+  patterns?: string[];
+  defaultCategory?: string;
+  icon?: string;
+}
+
+export class MerchantService {
+  private merchants: Merchant[] | null = null;
+
+  async getMerchants(): Promise<Merchant[]> {
+    if (this.merchants) return this.merchants;
+
+    try {
+      const db = await databaseService.getDatabase();
+      if (!db) return [];
+
+      const result = await db.getAllAsync('SELECT * FROM merchants ORDER BY name');
+      this.merchants = result.map((row: any) => ({
+        ...row,
+        aliases: JSON.parse(row.aliases),
+        patterns: JSON.parse(row.patterns),
+        defaultCategory: row.defaultCategory || undefined,
+        icon: row.icon || undefined
+      }));
+      return this.merchants;
+    } catch (error) {
+      console.error('Error loading merchants:', error);
+      return [];
+    }
+  }
+
+  async findMerchant(merchant: string | undefined): Promise<Merchant | undefined> {
+    return findMerchant(await this.getMerchants(), merchant);
+  }
+
+  // Canonical name for a raw SMS/email merchant, or the raw name when it is not known
+  async resolveMerchantName(merchant: string | undefined): Promise<string | undefined> {
+    return (await this.findMerchant(merchant))?.name || merchant;
+  }
+
+  async createMerchant(merchant: NewMerchant): Promise<Merchant> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const id = `merchant_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    const now = new Date().toISOString();
+    const created: Merchant = {
+      id,
+      name: merchant.name.trim(),
+      aliases: merchant.aliases || [],
+      patterns: merchant.patterns || [],
+      defaultCategory: merchant.defaultCategory,
+      icon: merchant.icon,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await db.runAsync(
+      `INSERT INTO merchants (id, name, aliases, patterns, defaultCategory, icon, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, created.name, JSON.stringify(created.aliases), JSON.stringify(created.patterns),
+       created.defaultCategory || null, created.icon || null, now, now]
+    );
+
+    this.merchants = null;
+    return created;
+  }
+
+  async updateMerchant(id: string, updates: Partial<NewMerchant>): Promise<void> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const fields: string[] = [];
+    const values: (string | null)[] = [];
+    if (updates.name !== undefined) { fields.push('name = ?'); values.push(updates.name.trim()); }
+    if (updates.aliases !== undefined) { fields.push('aliases = ?'); values.push(JSON.stringify(updates.aliases)); }
+    if (updates.patterns !== undefined) { fields.push('patterns = ?'); values.push(JSON.stringify(updates.patterns)); }
+    if (updates.defaultCategory !== undefined) { fields.push('defaultCategory = ?'); values.push(updates.defaultCategory || null); }
+    if (updates.icon !== undefined) { fields.push('icon = ?'); values.push(updates.icon || null); }
+    if (fields.length === 0) return;
+
+    await db.runAsync(
+      `UPDATE merchants SET ${fields.join(', ')}, updatedAt = ? WHERE id = ?`,
+      [...values, new Date().toISOString(), id]
+    );
+
+    this.merchants = null;
+  }
+
+  async deleteMerchant(id: string): Promise<void> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    await db.runAsync('DELETE FROM merchants WHERE id = ?', [id]);
+    this.merchants = null;
+  }
+
+  // Folds `source` (a raw merchant string or another merchant's name) into `targetName`.
+  // The target is created if needed, and stored transactions are renamed to it.
+  async mergeMerchant(source: string, targetName: string): Promise<Merchant> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const targetKey = normalizeMerchantKey(targetName);
+    const sourceKey = normalizeMerchantKey(source);
+    if (!targetKey || !sourceKey) throw new Error('Merchant name is required');
+
+    const merchants = await this.getMerchants();
+    const target = merchants.find(m => normalizeMerchantKey(m.name) === targetKey)
+      || await this.createMerchant({ name: targetName });
+    const sourceMerchant = findMerchant(merchants, source);
+
+    // Everything the source was known as now points at the target
+    const absorbed = sourceMerchant && sourceMerchant.id !== target.id
+      ? [sourceMerchant.name, ...sourceMerchant.aliases]
+      : [source];
+    const aliases = [...target.aliases];
+    for (const alias of absorbed) {
+      const aliasKey = normalizeMerchantKey(alias);
+      if (aliasKey !== targetKey && !aliases.some(a => normalizeMerchantKey(a) === aliasKey)) {
+        aliases.push(alias.trim());
+      }
+    }
+
+    if (sourceMerchant && sourceMerchant.id !== target.id) {
+      await this.updateMerchant(target.id, {
+        aliases,
+        patterns: [...new Set([...target.patterns, ...sourceMerchant.patterns])],
+        defaultCategory: target.defaultCategory || sourceMerchant.defaultCategory,
+        icon: target.icon || sourceMerchant.icon
+      });
+      await this.deleteMerchant(sourceMerchant.id);
+    } else {
+      await this.updateMerchant(target.id, { aliases });
+    }
+
+    const absorbedKeys = new Set([sourceKey, ...absorbed.map(normalizeMerchantKey)]);
+    const stored = await db.getAllAsync(
+      'SELECT DISTINCT merchant FROM transactions WHERE merchant IS NOT NULL AND merchant != ?',
+      [target.name]
+    ) as { merchant: string }[];
+    const now = new Date().toISOString();
+    for (const { merchant } of stored) {
+      if (absorbedKeys.has(normalizeMerchantKey(merchant))) {
+        await db.runAsync(
+          'UPDATE transactions SET merchant = ?, updatedAt = ? WHERE merchant = ?',
+          [target.name, now, merchant]
+        );
+      }
+    }
+
+    console.log(`Merged merchant "${source}" into "${target.name}"`);
+    return (await this.getMerchants()).find(m => m.id === target.id) || target;
+  }
+}
+
+export const merchantService = new MerchantService();
@@ -1,5 +1,8 @@
 import { Platform, PermissionsAndroid } from 'react-native';
 import { SMSMessage } from './smsListener';
+import { SMSSender } from '../database/schema';
+import { findSenderMode } from './smsParsingEngine';
+import { smsSenderService } from './smsSenderService';
 
 // Try to import the SMS module, but handle cases where it's not available
 let SmsAndroid: any = null;
@@ -69,6 +72,8 @@ class AndroidSMSReader implements NativeSMSReader {
     }
 
     try {
+      const senders = await smsSenderService.getSenders();
+
       return new Promise((resolve) => {
         // Filter criteria for financial SMS
         const filter = {
@@ -114,7 +119,7 @@ class AndroidSMSReader implements NativeSMSReader {
               }));
 
               // Filter for financial messages
-              const financialMessages = this.filterFinancialMessages(messages);
+              const financialMessages = this.filterFinancialMessages(messages, senders);
               
               console.log(`✅ Found ${financialMessages.length} REAL financial SMS messages!`);
               
@@ -137,8 +142,12 @@ class AndroidSMSReader implements NativeSMSReader {
     }
   }
 
-  private filterFinancialMessages(messages: SMSMessage[]): SMSMessage[] {
+  private filterFinancialMessages(messages: SMSMessage[], senders: SMSSender[]): SMSMessage[] {
     return messages.filter(sms => {
+      // Senders the user has set up skip the keyword checks
+      const senderMode = findSenderMode(senders, sms.address);
+      if (senderMode) return senderMode !== 'never';
+
       const bodyLower = sms.body.toLowerCase();
       const addressLower = sms.address.toLowerCase();
       
@@ -147,14 +156,15 @@ class AndroidSMSReader implements NativeSMSReader {
         'debit', 'credit', 'payment', 'transaction', 'balance', 'withdraw',
         'deposit', 'transfer', 'purchase', 'spent', 'charged', 'refund',
         'salary', 'atm', 'pos', 'momo', 'mobile money', 'wallet',
-        'bank', 'account', 'card', 'cedis', 'ghs', '$', '₵', 'sent you'
+        'bank', 'account', 'card', 'cedis', 'ghs', '$', '₵', 'sent you',
+        'solde', 'retrait', 'paiement', 'transfert', 'dépôt', 'vous avez reçu', 'fcfa', 'xof', 'xaf'
       ];
       
       // Financial senders
       const financialSenders = [
         'bank', 'momo', 'gtbank', 'gcb', 'uba', 'absa',
         'fidelity', 'cal', 'ecobank', 'stanbic', 'vodafone', 'mtn',
-        'airtel', 'hubtel', 'zenith', 'access'
+        'airtel', 'hubtel', 'zenith', 'access', 'orange', 'wave'
       ];
       
       const hasFinancialKeyword = financialKeywords.some(keyword => 
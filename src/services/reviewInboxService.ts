@@ -0,0 +1,112 @@
+import { databaseService, ReviewItem } from '../database/schema';
+import { ParsedTransaction, ParseTrace } from './smsParser';
+import { transactionPipeline, PipelineTransaction } from './transactionPipeline';
+import { FraudSignal } from './smsFraud';
+
+export interface ReviewInboxItem extends Omit<ReviewItem, 'candidate' | 'fraudSignals'> {
+  candidate: ParsedTransaction;
+  fraudSignals: FraudSignal[]; // Empty unless the parser suspected a scam
+}
+
+export interface ReviewSMS {
+  id: string;
+  address: string;
+  body: string;
+  date: number;
+}
+
+export class ReviewInboxService {
+  // Queue a low-confidence or quarantined parse, or one digest entry, so the user can confirm it
+  async addItem(sms: ReviewSMS, candidate: ParsedTransaction, trace: ParseTrace): Promise<string> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const id = `review_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    const now = new Date().toISOString();
+
+    await db.runAsync(
+      `INSERT OR IGNORE INTO review_items
+       (id, smsId, lineIndex, sender, body, receivedAt, candidate, confidence, reason, fraudSignals, status, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?)`,
+      [id, sms.id, candidate.digestLine ?? 0, sms.address, sms.body, new Date(sms.date).toISOString(),
+       JSON.stringify(candidate), trace.confidence?.score || 0, trace.reason,
+       trace.fraudSignals ? JSON.stringify(trace.fraudSignals) : null, now]
+    );
+
+    return id;
+  }
+
+  async getItems(status: ReviewItem['status'] = 'pending'): Promise<ReviewInboxItem[]> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const result = await db.getAllAsync(
+      'SELECT * FROM review_items WHERE status = ? ORDER BY receivedAt DESC, lineIndex',
+      [status]
+    );
+
+    return result.map((row: any) => ({
+      ...row,
+      candidate: JSON.parse(row.candidate),
+      fraudSignals: row.fraudSignals ? JSON.parse(row.fraudSignals) : []
+    }));
+  }
+
+  async getPendingCount(): Promise<number> {
+    try {
+      const db = await databaseService.getDatabase();
+      if (!db) return 0;
+
+      const result = await db.getFirstAsync(
+        `SELECT COUNT(*) as count FROM review_items WHERE status = 'pending'`
+      ) as { count: number } | null;
+
+      return result?.count || 0;
+    } catch (error) {
+      console.error('Error counting review items:', error);
+      return 0;
+    }
+  }
+
+  // Create the transaction from the (possibly edited) guess, through the same pipeline as a parsed SMS
+  async acceptItem(itemId: string, transaction: ParsedTransaction): Promise<string> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const item = await db.getFirstAsync('SELECT * FROM review_items WHERE id = ?', [itemId]) as ReviewItem | null;
+    if (!item) throw new Error('Review item not found');
+    if (item.status !== 'pending') throw new Error(`Review item already ${item.status}`);
+
+    // Claim the item first so a second tap cannot record the transaction twice
+    const claimed = await db.runAsync(
+      `UPDATE review_items SET status = 'accepted', resolvedAt = ? WHERE id = ? AND status = 'pending'`,
+      [new Date().toISOString(), itemId]
+    );
+    if (!claimed.changes) throw new Error('Review item already resolved');
+
+    let recorded: PipelineTransaction;
+    try {
+      [recorded] = await transactionPipeline.record([transaction], 'sms', item.sender, item.smsId);
+    } catch (error) {
+      await db.runAsync(`UPDATE review_items SET status = 'pending', resolvedAt = NULL WHERE id = ?`, [itemId]);
+      throw error;
+    }
+
+    await db.runAsync('UPDATE review_items SET transactionId = ? WHERE id = ?', [recorded.transactionId, itemId]);
+    await transactionPipeline.linkMessage(item.smsId, recorded.transactionId, item.lineIndex);
+
+    return recorded.transactionId;
+  }
+
+  async dismissItem(itemId: string): Promise<void> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    await db.runAsync(
+      `UPDATE review_items SET status = 'dismissed', resolvedAt = ? WHERE id = ?`,
+      [new Date().toISOString(), itemId]
+    );
+  }
+}
+
+export const reviewInboxService = new ReviewInboxService();
@@ -0,0 +1,161 @@
+import { Category, SMSRule, databaseService } from '../database/schema';
+import { smsParserService } from './smsParser';
+import { accountService } from './accountService';
+import {
+  RULE_PACK_FORMAT, RULE_PACK_VERSION, RulePack, RulePackRule, compareSample, findInstalledRule, validateRulePack
+} from './rulePacks';
+
+export interface RulePackMetadata {
+  name: string;
+  bank: string;
+  country: string;
+}
+
+export interface RuleImportResult {
+  name: string;
+  ruleId?: string;
+  activated: boolean;
+  // Already installed from an earlier import; nothing was saved
+  duplicate?: boolean;
+  failures: string[];
+  // Things the user should know that did not stop the rule, e.g. an account that does not exist here
+  notes: string[];
+}
+
+export interface RulePackImportResult {
+  pack: RulePack;
+  rules: RuleImportResult[];
+}
+
+export class RulePackService {
+  private async loadCategories(): Promise<Category[]> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const result = await db.getAllAsync('SELECT * FROM categories');
+    return result.map((row: any) => ({
+      ...row,
+      keywords: JSON.parse(row.keywords)
+    }));
+  }
+
+  // Rules without a sample SMS are skipped, since an importer could not check them
+  async exportRulePack(metadata: RulePackMetadata, ruleIds?: string[]): Promise<string> {
+    const categories = await this.loadCategories();
+    const accounts = await accountService.getAccounts();
+    const rules = (await smsParserService.getSMSRules())
+      .filter(rule => !ruleIds || ruleIds.includes(rule.id));
+
+    const packRules: RulePackRule[] = [];
+    for (const rule of rules) {
+      const category = categories.find(c => c.id === rule.categoryId);
+      if (!category || !rule.sampleMessage) continue;
+
+      const { transaction } = smsParserService.previewRule(rule.sampleMessage, rule);
+      if (!transaction) continue;
+
+      packRules.push({
+        name: rule.name,
+        pattern: rule.pattern,
+        type: rule.type,
+        category: category.name,
+        account: accounts.find(account => account.id === rule.accountId)?.name,
+        samples: [{
+          message: rule.sampleMessage,
+          expected: {
+            amount: transaction.amount,
+            currency: transaction.currency,
+            type: transaction.type,
+            merchant: transaction.merchant,
+            balance: transaction.balance,
+            reference: transaction.reference
+          }
+        }]
+      });
+    }
+
+    if (packRules.length === 0) {
+      throw new Error('No rules to export. Rules need a sample SMS that they parse.');
+    }
+
+    const pack: RulePack = {
+      format: RULE_PACK_FORMAT,
+      version: RULE_PACK_VERSION,
+      ...metadata,
+      exportedAt: new Date().toISOString(),
+      rules: packRules
+    };
+
+    return JSON.stringify(pack, null, 2);
+  }
+
+  // Every rule is saved; only rules whose bundled samples all parse as expected are activated
+  async importRulePack(json: string): Promise<RulePackImportResult> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch (error) {
+      throw new Error('Rule pack is not valid JSON');
+    }
+
+    const pack = validateRulePack(parsed);
+    const categories = await this.loadCategories();
+    const accounts = await accountService.getAccounts();
+    const installed = await smsParserService.getSMSRules();
+    const results: RuleImportResult[] = [];
+
+    for (const packRule of pack.rules) {
+      const type = packRule.type || packRule.samples[0].expected.type;
+      const category = categories.find(c => c.name === packRule.category && (!type || c.type === type));
+      if (!category) {
+        results.push({ name: packRule.name, activated: false, failures: [`Unknown category "${packRule.category}"`], notes: [] });
+        continue;
+      }
+
+      // Account ids differ between devices, so the rule is bound to the account with the same name
+      const notes: string[] = [];
+      const account = packRule.account
+        ? accounts.find(candidate => candidate.name.toLowerCase() === packRule.account!.toLowerCase())
+        : undefined;
+      if (packRule.account && !account) {
+        notes.push(`No account named "${packRule.account}", the rule applies to any account`);
+      }
+
+      const rule: Omit<SMSRule, 'id' | 'createdAt'> = {
+        name: packRule.name,
+        pattern: packRule.pattern,
+        categoryId: category.id,
+        accountId: account?.id,
+        amountExtraction: 'amount',
+        merchantExtraction: 'merchant',
+        type: packRule.type,
+        sampleMessage: packRule.samples[0].message,
+        isActive: false
+      };
+
+      const existing = findInstalledRule(installed, rule);
+      if (existing) {
+        results.push({ name: packRule.name, ruleId: existing.id, activated: existing.isActive, duplicate: true, failures: [], notes });
+        continue;
+      }
+
+      const failures: string[] = [];
+      packRule.samples.forEach((sample, index) => {
+        const preview = smsParserService.previewRule(sample.message, { ...rule, id: 'import', createdAt: pack.exportedAt });
+        const mismatches = preview.transaction
+          ? compareSample(sample.expected, preview.transaction)
+          : [preview.error || 'No match'];
+        mismatches.forEach(mismatch => failures.push(`Sample ${index + 1}: ${mismatch}`));
+      });
+
+      const activated = failures.length === 0;
+      const ruleId = await smsParserService.createSMSRule({ ...rule, isActive: activated });
+      installed.push({ ...rule, id: ruleId, isActive: activated, createdAt: new Date().toISOString() });
+      results.push({ name: packRule.name, ruleId, activated, failures, notes });
+    }
+
+    return { pack, rules: results };
+  }
+}
+
+export const rulePackService = new RulePackService();
@@ -0,0 +1,111 @@
+// Rule pack format: checking a pack someone shared before it is imported, comparing a rule's
+// result on a bundled sample with what the pack expects, and spotting rules already installed.
+
+import type { SMSRule } from '../database/schema';
+import type { ParsedTransaction } from './smsParsingEngine';
+
+export const RULE_PACK_FORMAT = 'transtracker-rule-pack';
+export const RULE_PACK_VERSION = 1;
+
+export interface RulePackExpectation {
+  amount: number;
+  currency?: string;
+  type?: 'income' | 'expense';
+  merchant?: string;
+  balance?: number;
+  reference?: string;
+}
+
+export interface RulePackSample {
+  message: string;
+  expected: RulePackExpectation;
+}
+
+export interface RulePackRule {
+  name: string;
+  pattern: string;
+  type?: 'income' | 'expense';
+  category: string; // Category name, ids differ between devices
+  account?: string; // Account name, bound on import to the account of that name if there is one
+  samples: RulePackSample[];
+}
+
+export interface RulePack {
+  format: typeof RULE_PACK_FORMAT;
+  version: number;
+  name: string;
+  bank: string;
+  country: string;
+  exportedAt: string;
+  rules: RulePackRule[];
+}
+
+// Throws with the first problem found so the user can fix the pack
+export function validateRulePack(json: unknown): RulePack {
+  const pack = json as RulePack;
+  if (!pack || typeof pack !== 'object') throw new Error('Rule pack must be a JSON object');
+  if (pack.format !== RULE_PACK_FORMAT) throw new Error(`Not a rule pack (format must be "${RULE_PACK_FORMAT}")`);
+  if (typeof pack.version !== 'number' || pack.version > RULE_PACK_VERSION) {
+    throw new Error(`Unsupported rule pack version ${pack.version}, this app reads up to version ${RULE_PACK_VERSION}`);
+  }
+  for (const field of ['name', 'bank', 'country'] as const) {
+    if (typeof pack[field] !== 'string' || !pack[field]) throw new Error(`Rule pack is missing "${field}"`);
+  }
+  if (!Array.isArray(pack.rules) || pack.rules.length === 0) throw new Error('Rule pack has no rules');
+
+  pack.rules.forEach((rule, index) => {
+    const label = `Rule ${index + 1}${rule?.name ? ` (${rule.name})` : ''}`;
+    if (typeof rule?.name !== 'string' || !rule.name) throw new Error(`${label} is missing "name"`);
+    if (typeof rule.pattern !== 'string' || !rule.pattern) throw new Error(`${label} is missing "pattern"`);
+    if (typeof rule.category !== 'string' || !rule.category) throw new Error(`${label} is missing "category"`);
+    if (rule.type !== undefined && rule.type !== 'income' && rule.type !== 'expense') {
+      throw new Error(`${label} has invalid type "${rule.type}"`);
+    }
+    if (rule.account !== undefined && (typeof rule.account !== 'string' || !rule.account)) {
+      throw new Error(`${label} has an invalid "account"`);
+    }
+    try {
+      new RegExp(rule.pattern, 'i');
+    } catch (error) {
+      throw new Error(`${label} has an invalid pattern: ${(error as Error).message}`);
+    }
+    if (!Array.isArray(rule.samples) || rule.samples.length === 0) throw new Error(`${label} has no sample messages`);
+    rule.samples.forEach((sample, sampleIndex) => {
+      if (typeof sample?.message !== 'string' || typeof sample.expected?.amount !== 'number') {
+        throw new Error(`${label} sample ${sampleIndex + 1} needs a message and an expected amount`);
+      }
+    });
+  });
+
+  return pack;
+}
+
+// One line per field the rule got wrong; empty when the sample parses as the pack expects
+export function compareSample(expected: RulePackExpectation, actual: ParsedTransaction): string[] {
+  const mismatches: string[] = [];
+  if (Math.abs(actual.amount - expected.amount) >= 0.005) {
+    mismatches.push(`amount: expected ${expected.amount}, got ${actual.amount}`);
+  }
+  if (expected.balance !== undefined && (actual.balance === undefined || Math.abs(actual.balance - expected.balance) >= 0.005)) {
+    mismatches.push(`balance: expected ${expected.balance}, got ${actual.balance}`);
+  }
+  for (const field of ['currency', 'type', 'merchant', 'reference'] as const) {
+    if (expected[field] !== undefined && actual[field] !== expected[field]) {
+      mismatches.push(`${field}: expected ${JSON.stringify(expected[field])}, got ${JSON.stringify(actual[field])}`);
+    }
+  }
+  return mismatches;
+}
+
+type RuleIdentity = Pick<SMSRule, 'pattern' | 'categoryId' | 'accountId' | 'type'>;
+
+// A rule with the same pattern, category, account and forced type is already installed,
+// so importing the same pack twice does not double it
+export function findInstalledRule<T extends RuleIdentity>(rules: T[], rule: RuleIdentity): T | undefined {
+  return rules.find(existing =>
+    existing.pattern === rule.pattern &&
+    existing.categoryId === rule.categoryId &&
+    (existing.accountId || undefined) === (rule.accountId || undefined) &&
+    (existing.type || undefined) === (rule.type || undefined)
+  );
+}
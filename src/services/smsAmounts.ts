@@ -0,0 +1,147 @@
+// Amount figures in an SMS: how each currency groups thousands and writes decimals, and which
+// figure is the transaction amount rather than a balance, fee or limit.
+
+export type AmountRole = 'amount' | 'balance' | 'fee' | 'limit';
+
+export interface AmountToken {
+  value: number;
+  currency?: string; // Undefined for a labelled figure with no currency, e.g. "Amt: 1,250.00"
+  role: AmountRole;
+  raw: string; // Matched text, including the currency marker
+  index: number;
+}
+
+export interface AmountTokenOptions {
+  // FCFA is written for both the West (XOF) and Central (XAF) African franc
+  fcfaCurrency?: 'XOF' | 'XAF';
+}
+
+// Digits after the decimal separator; anything not listed has 2
+const CURRENCY_DECIMALS: { [currency: string]: number } = {
+  XOF: 0, XAF: 0, UGX: 0,
+  BHD: 3, KWD: 3, OMR: 3, TND: 3
+};
+
+const CURRENCY_MARKERS: { [marker: string]: string } = {
+  ghs: 'GHS', cedis: 'GHS', '₵': 'GHS',
+  ngn: 'NGN', '₦': 'NGN',
+  kes: 'KES', ksh: 'KES', kshs: 'KES',
+  ugx: 'UGX', ush: 'UGX', ushs: 'UGX',
+  tzs: 'TZS', tsh: 'TZS', tshs: 'TZS',
+  zar: 'ZAR',
+  usd: 'USD', '$': 'USD',
+  eur: 'EUR', '€': 'EUR',
+  gbp: 'GBP', '£': 'GBP',
+  cad: 'CAD', aud: 'AUD',
+  xof: 'XOF', xaf: 'XAF',
+  bhd: 'BHD', kwd: 'KWD', omr: 'OMR', tnd: 'TND'
+};
+
+const CODES = Object.keys(CURRENCY_MARKERS).filter(marker => /^[a-z]+$/.test(marker)).join('|');
+
+// Thousands grouped with commas, dots, spaces or apostrophes, then up to 3 decimals
+const NUMBER = "\\d{1,3}(?:[,.'\\u00a0\\u202f ]\\d{3}(?!\\d))+(?:[.,]\\d{1,3}(?!\\d))?|\\d+(?:[.,]\\d{1,3}(?!\\d))?";
+
+// Currency before ("GHS1,250", "₵ 12.5", "R459.99"; R only with decimals, so "R" references stay out)
+const PREFIXED_AMOUNT = new RegExp(`(?:\\b(${CODES})\\.?\\s*|([₵₦$€£])\\s*|\\b(R)(?=\\d[\\d,. ]*[.,]\\d))(${NUMBER})`, 'gi');
+
+// Currency after ("10.000 FCFA", "5 000 F CFA", "12.500F", "85,750 UGX")
+const SUFFIXED_AMOUNT = new RegExp(`\\b(${NUMBER})\\s*(?:(${CODES}|fcfa|f\\s*cfa)\\b|(F)(?![a-z]))`, 'gi');
+
+// A label with the figure straight after it, e.g. "Amt: 1,250.00" or "Bal 301.16"
+const LABELLED_AMOUNT = new RegExp(`\\b(?:amt|amount|montant|bal|balance|solde)\\b[:\\s]+(${NUMBER})(?![\\d/:-])`, 'gi');
+
+// The label nearest before a figure, in the same sentence and after the previous figure, says what it is
+const ROLE_LABELS: { role: AmountRole; pattern: RegExp }[] = [
+  { role: 'balance', pattern: /\b(?:bal(?:ance)?|avail(?:able)?|solde)\b/gi },
+  { role: 'fee', pattern: /\b(?:fees?|charges?|commission|cost|frais|e-?levy|levy|tax|vat)\b/gi },
+  { role: 'limit', pattern: /\b(?:limit|can\s+transact|maximum|minimum|plafond|up\s+to)\b/gi },
+  {
+    role: 'amount',
+    pattern: /\b(?:amt|amount|montant|received|sent|paid|payment|purchase|debit(?:ed)?|credit(?:ed)?|deducted|withdrawn|withdrawal|withdraw|deposit(?:ed)?|transfer(?:red)?|reçu|envoyé|débité|crédité|retrait|paiement)\b/gi
+  }
+];
+
+const LABEL_WINDOW = 40;
+
+// "1.234,56", "1 234.56", "1,250", "12.5" and "10.000" (XOF) all read the way the SMS meant them
+export function parseAmountNumber(raw: string, currency?: string): number {
+  const text = raw.replace(/[\s']/g, '');
+  const separators = text.match(/[.,]/g) || [];
+  if (separators.length === 0) return parseFloat(text);
+
+  const lastIndex = Math.max(text.lastIndexOf('.'), text.lastIndexOf(','));
+  const last = text[lastIndex];
+  const decimals = text.length - lastIndex - 1;
+  const currencyDecimals = currency ? CURRENCY_DECIMALS[currency] ?? 2 : 2;
+
+  // Three digits after a lone kind of separator group thousands, unless the currency has 3 decimals
+  // or there is nothing to group ("0.750")
+  const mixed = separators.some(separator => separator !== last);
+  const single = separators.length === 1;
+  const isDecimal = mixed
+    || decimals < 3
+    || (decimals === 3 && single && (currencyDecimals === 3 || /^0*$/.test(text.slice(0, lastIndex))));
+
+  if (!isDecimal) return parseFloat(text.replace(/[.,]/g, ''));
+  return parseFloat(`${text.slice(0, lastIndex).replace(/[.,]/g, '')}.${text.slice(lastIndex + 1)}`);
+}
+
+const roleOf = (text: string, index: number, after: number): AmountRole => {
+  const window = text.slice(Math.max(0, after, index - LABEL_WINDOW), index).split(/[.;!?]\s|\n/).pop() || '';
+
+  let nearest: { role: AmountRole; at: number } | undefined;
+  for (const { role, pattern } of ROLE_LABELS) {
+    for (const match of window.matchAll(pattern)) {
+      if (!nearest || match.index! > nearest.at) nearest = { role, at: match.index! };
+    }
+  }
+  return nearest?.role || 'amount';
+};
+
+// Currency-marked and labelled figures in message order, each with the role its label gives it
+export function tokenizeAmounts(text: string, options: AmountTokenOptions = {}): AmountToken[] {
+  const tokens: Omit<AmountToken, 'role'>[] = [];
+  const overlaps = (index: number, length: number) =>
+    tokens.some(token => index < token.index + token.raw.length && token.index < index + length);
+  const add = (number: string, marker: string | undefined, raw: string, index: number) => {
+    const currency = marker === undefined ? undefined
+      : marker === 'r' ? 'ZAR'
+      : marker === 'f' || /^f\s*cfa$/.test(marker) ? options.fcfaCurrency || 'XOF'
+      : CURRENCY_MARKERS[marker];
+    const value = parseAmountNumber(number, currency);
+    if (!isNaN(value)) tokens.push({ value, currency, raw, index });
+  };
+
+  // A currency in front wins, so "Acct 1234 GHS150.00" does not read 1234 as the amount
+  for (const match of text.matchAll(PREFIXED_AMOUNT)) {
+    add(match[4], (match[1] || match[2] || match[3]).toLowerCase(), match[0], match.index!);
+  }
+  for (const match of text.matchAll(SUFFIXED_AMOUNT)) {
+    if (overlaps(match.index!, match[0].length)) continue;
+    add(match[1], (match[2] || match[3]).toLowerCase(), match[0], match.index!);
+  }
+  for (const match of text.matchAll(LABELLED_AMOUNT)) {
+    const index = match.index! + match[0].length - match[1].length;
+    if (overlaps(index, match[1].length)) continue;
+    add(match[1], undefined, match[1], index);
+  }
+
+  return tokens
+    .sort((a, b) => a.index - b.index)
+    .map((token, i, sorted) => {
+      const previous = sorted[i - 1];
+      return { ...token, role: roleOf(text, token.index, previous ? previous.index + previous.raw.length : 0) };
+    });
+}
+
+// CFA franc amounts group thousands with spaces or dots ("10.000 FCFA", "5 000 F CFA", "12.500F")
+const CFA_GROUPED_AMOUNT = /\b(\d{1,3}(?:[ .\u00a0\u202f]\d{3})+)(?:,(\d{1,2}))?(?=\s*(?:fcfa|f\s*cfa|xof|xaf|f)\b)/gi;
+
+// Rewrites CFA amounts as plain numbers so template extractors written for "10000 FCFA" can read them
+export function normalizeCFAAmounts(text: string): string {
+  return text
+    .replace(CFA_GROUPED_AMOUNT, (_match, whole: string, decimals?: string) =>
+      whole.replace(/\D/g, '') + (decimals ? `.${decimals}` : ''))
+    .replace(/\bf\s+cfa\b/gi, 'FCFA');
+}
@@ -0,0 +1,174 @@
+// Transaction date and time written in an SMS body ("on 15-AUG-24 14:32", "15/08/2024").
+
+// Order of day, month and year in all-numeric dates such as 05/08/2024
+export type SMSDateOrder = 'DMY' | 'MDY' | 'YMD';
+
+export interface MessageDate {
+  date: Date;
+  hasTime: boolean;
+  matched: string;
+}
+
+// Delayed or batched SMS can arrive days late, but never before the transaction
+const MAX_DAYS_BEFORE_RECEIVED = 60;
+const MAX_HOURS_AFTER_RECEIVED = 24;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+
+interface DatePattern {
+  regex: RegExp;
+  parts: (match: RegExpExecArray, order: SMSDateOrder) => { day: number; month: number; year: number } | null;
+}
+
+const DATE_PATTERNS: DatePattern[] = [
+  {
+    // 15-AUG-24, 15 Aug 2024, 15AUG2024
+    regex: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?[-\\s/.]?${MONTH_NAME}[-\\s/.,]*(\\d{4}|\\d{2})\\b`, 'i'),
+    parts: match => ({ day: +match[1], month: MONTHS.indexOf(match[2].toLowerCase()) + 1, year: +match[3] })
+  },
+  {
+    // Aug 15, 2024
+    regex: new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'i'),
+    parts: match => ({ day: +match[2], month: MONTHS.indexOf(match[1].toLowerCase()) + 1, year: +match[3] })
+  },
+  {
+    // 2024-08-15
+    regex: /\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/,
+    parts: match => ({ day: +match[3], month: +match[2], year: +match[1] })
+  },
+  {
+    // 15/08/2024, 15-08-24 (08/15/2024 or 24/08/15 in month-first and year-first regions)
+    regex: /\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/,
+    parts: (match, order) => {
+      const first = +match[1];
+      const second = +match[2];
+      if (order === 'YMD') return { day: +match[3], month: second, year: first };
+      // An impossible month settles the order regardless of region
+      const monthFirst = first > 12 ? false : second > 12 ? true : order === 'MDY';
+      return monthFirst
+        ? { day: second, month: first, year: +match[3] }
+        : { day: first, month: second, year: +match[3] };
+    }
+  }
+];
+
+const TIME_AFTER_DATE = /^[\s,T]*(?:at\s+)?(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?/i;
+const TIME_ANYWHERE = /\b(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?\b/i;
+
+const parseTime = (match: RegExpExecArray | null): { hours: number; minutes: number; seconds: number } | null => {
+  if (!match) return null;
+
+  let hours = +match[1];
+  const minutes = +match[2];
+  const seconds = match[3] ? +match[3] : 0;
+  const meridiem = match[4]?.toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  return { hours, minutes, seconds };
+};
+
+const withinBounds = (date: Date, receivedAt: Date): boolean => {
+  const earliest = receivedAt.getTime() - MAX_DAYS_BEFORE_RECEIVED * 24 * 60 * 60 * 1000;
+  const latest = receivedAt.getTime() + MAX_HOURS_AFTER_RECEIVED * 60 * 60 * 1000;
+  return date.getTime() >= earliest && date.getTime() <= latest;
+};
+
+// Dates without a time are placed at noon, so the calendar day survives time zone conversion
+export function extractMessageDate(message: string, receivedAt: Date, order: SMSDateOrder = 'DMY'): MessageDate | null {
+  for (const pattern of DATE_PATTERNS) {
+    const match = pattern.regex.exec(message);
+    if (!match) continue;
+
+    const parts = pattern.parts(match, order);
+    if (!parts || parts.month < 1 || parts.month > 12) continue;
+
+    const year = parts.year < 100 ? 2000 + parts.year : parts.year;
+    const after = message.slice(match.index + match[0].length);
+    const time = parseTime(TIME_AFTER_DATE.exec(after)) || parseTime(TIME_ANYWHERE.exec(message));
+
+    const date = time
+      ? new Date(year, parts.month - 1, parts.day, time.hours, time.minutes, time.seconds)
+      : new Date(year, parts.month - 1, parts.day, 12, 0, 0);
+
+    // Rejects 31/02 and similar, which Date would roll over into the next month
+    if (date.getFullYear() !== year || date.getMonth() !== parts.month - 1 || date.getDate() !== parts.day) continue;
+    if (!withinBounds(date, receivedAt)) continue;
+
+    return { date, hasTime: time !== null, matched: match[0] };
+  }
+
+  return null;
+}
+
+// The receive time is kept when the body agrees with it; without a time only the day is compared
+export function messageDateDiffers(messageDate: MessageDate, receivedAt: Date): boolean {
+  if (messageDate.hasTime) {
+    return Math.abs(messageDate.date.getTime() - receivedAt.getTime()) > 5 * 60 * 1000;
+  }
+  return messageDate.date.toDateString() !== receivedAt.toDateString();
+}
+
+// Statement lines often drop the year ("12/05", "14-JUN"); the latest such day up to receipt is used
+export function extractShortDate(text: string, receivedAt: Date, order: SMSDateOrder = 'DMY'): MessageDate | null {
+  const named = new RegExp(`\\b(\\d{1,2})[-\\s/.]?${MONTH_NAME}(?![-\\s/.,]*\\d)`, 'i').exec(text);
+  const numeric = named ? null : /\b(\d{1,2})[/.-](\d{1,2})\b(?![/.-]\d)/.exec(text);
+  const match = named || numeric;
+  if (!match) return null;
+
+  let day: number;
+  let month: number;
+  if (named) {
+    day = +match[1];
+    month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+  } else {
+    const first = +match[1];
+    const second = +match[2];
+    const monthFirst = first > 12 ? false : second > 12 ? true : order !== 'DMY';
+    [day, month] = monthFirst ? [second, first] : [first, second];
+  }
+  if (month < 1 || month > 12) return null;
+
+  const time = parseTime(TIME_AFTER_DATE.exec(text.slice(match.index + match[0].length)));
+  for (const year of [receivedAt.getFullYear(), receivedAt.getFullYear() - 1]) {
+    const date = time
+      ? new Date(year, month - 1, day, time.hours, time.minutes, time.seconds)
+      : new Date(year, month - 1, day, 12, 0, 0);
+    if (date.getMonth() !== month - 1 || date.getDate() !== day) continue;
+    if (withinBounds(date, receivedAt)) return { date, hasTime: time !== null, matched: match[0] };
+  }
+
+  return null;
+}
+
+const DUE_DATE_LEAD = /\b(?:due|payable|repay(?:ment)?\s+(?:date|by))\b(?:\s+(?:on|by|date))?[:\s]*/i;
+
+// Loan alerts name the day a repayment falls due ("due on 15/11/2025"), which lies after receipt
+// and so is never taken as the transaction date
+export function extractDueDate(message: string, receivedAt: Date, order: SMSDateOrder = 'DMY'): Date | null {
+  const lead = DUE_DATE_LEAD.exec(message);
+  if (!lead) return null;
+
+  // The amount may sit between the two ("due GHS 495.00 on 15/06"), but not a sentence break
+  const rest = message.slice(lead.index + lead[0].length).split(/\.\s/)[0];
+  for (const pattern of DATE_PATTERNS) {
+    const match = pattern.regex.exec(rest);
+    if (!match) continue;
+
+    const parts = pattern.parts(match, order);
+    if (!parts || parts.month < 1 || parts.month > 12) continue;
+
+    const year = parts.year < 100 ? 2000 + parts.year : parts.year;
+    const date = new Date(year, parts.month - 1, parts.day, 12, 0, 0);
+    if (date.getMonth() !== parts.month - 1 || date.getDate() !== parts.day) continue;
+    if (date.toDateString() !== receivedAt.toDateString() && date.getTime() < receivedAt.getTime()) continue;
+
+    return date;
+  }
+
+  return null;
+}
@@ -0,0 +1,86 @@
+// Daily digests and mini-statements that list several debits and credits in one SMS.
+
+export interface DigestEntry {
+  line: number; // Position among the entries, from 0
+  text: string;
+  amount: number;
+  currency?: string;
+  type: 'income' | 'expense';
+  description: string; // Line text without the date, amount, direction and reference
+}
+
+// A digest announces itself; a single alert that mentions two amounts is not one
+const DIGEST_HEADER = /\b(?:mini[\s-]?statement|statement|(?:daily|weekly)\s+(?:summary|digest)|transactions?\s+summary|last\s+\d+\s+(?:transactions?|txns?))\b/i;
+const HEADER_PREFIX = /^.*?\b(?:statement|summary|digest|transactions?|txns?)\b[^:]*:\s*/i;
+const LINE_SEPARATOR = /\r?\n|;|\s\|\s/;
+
+const CURRENCY_CODES = ['GHS', 'NGN', 'KES', 'UGX', 'TZS', 'ZAR', 'USD', 'EUR', 'GBP', 'CAD', 'AUD', 'XOF', 'XAF'];
+const CURRENCY_SYMBOLS: { [symbol: string]: string } = { '₵': 'GHS', '₦': 'NGN', '$': 'USD', '€': 'EUR', '£': 'GBP' };
+
+const CODE = `(${CURRENCY_CODES.join('|')})`;
+// Statement amounts always carry decimals, which keeps dates and reference numbers out
+const AMOUNT = new RegExp(`(?:\\b${CODE}\\.?\\s*|([₵₦$€£])\\s*)?([+-](?=\\d))?((?:\\d{1,3}(?:,\\d{3})+|\\d+)\\.\\d{2})\\b(?:\\s*${CODE}\\b)?`, 'i');
+const DEBIT = /\b(?:dr|debit(?:ed)?|withdrawal|wdl|purchase|pos|paid|sent)\b/i;
+const CREDIT = /\b(?:cr|credit(?:ed)?|deposit|received|refund|reversal)\b/i;
+
+// Running balances and totals are not entries
+const BALANCE_SUFFIX = /\b(?:avail(?:able)?\.?\s+|ledger\s+|closing\s+)?bal(?:ance)?\b.*$/i;
+const SUMMARY_LINE = /^\s*(?:total|opening|closing|avail(?:able)?)\b/i;
+
+const NOISE = [
+  /\bref(?:erence)?(?:\s*no)?\.?[:\s#]+\S+/gi,
+  /\b\d{1,2}[-/.](?:\d{1,2}|[a-z]{3})(?:[-/.]\d{2,4})?\b/gi,
+  /\b\d{1,2}:\d{2}(?::\d{2})?\s*(?:am|pm)?/gi,
+  new RegExp(DEBIT.source, 'gi'),
+  new RegExp(CREDIT.source, 'gi')
+];
+
+const describe = (text: string, amountText: string): string => {
+  const stripped = NOISE.reduce((rest, pattern) => rest.replace(pattern, ' '), text.replace(amountText, ' '));
+  return stripped
+    .replace(/^[\s\W]*(?:(?:at|to|from|@)\s+)?/i, '')
+    .replace(/[\s:,.\-|]+$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+export function isDigestMessage(message: string): boolean {
+  return DIGEST_HEADER.test(message);
+}
+
+// Entries of a digest SMS, or null when it is not one or lists fewer than two transactions
+export function splitDigest(message: string): DigestEntry[] | null {
+  if (!isDigestMessage(message)) return null;
+
+  const entries: DigestEntry[] = [];
+  for (const segment of message.split(LINE_SEPARATOR)) {
+    let text = segment.trim();
+    if (DIGEST_HEADER.test(text)) text = text.replace(HEADER_PREFIX, '');
+    text = text.replace(BALANCE_SUFFIX, '').trim();
+    if (!text || SUMMARY_LINE.test(text)) continue;
+
+    const match = AMOUNT.exec(text);
+    if (!match) continue;
+
+    const amount = parseFloat(match[4].replace(/,/g, ''));
+    if (isNaN(amount) || amount <= 0) continue;
+
+    // A sign on the amount settles the direction, otherwise exactly one direction word must appear
+    const sign = match[3];
+    const debit = DEBIT.test(text);
+    const credit = CREDIT.test(text);
+    if (!sign && debit === credit) continue;
+    const type = sign ? (sign === '+' ? 'income' : 'expense') : (credit ? 'income' : 'expense');
+
+    entries.push({
+      line: entries.length,
+      text,
+      amount,
+      currency: (match[1] || match[5])?.toUpperCase() || (match[2] ? CURRENCY_SYMBOLS[match[2]] : undefined),
+      type,
+      description: describe(text, match[0])
+    });
+  }
+
+  return entries.length >= 2 ? entries : null;
+}
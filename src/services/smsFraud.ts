@@ -0,0 +1,130 @@
+// Signs that an SMS posing as a bank or mobile money alert is a scam: "sent to you by mistake,
+// send it back" messages, alerts from phone numbers or lookalike sender ids, and credit alerts
+// carrying links or numbers to call.
+
+import { smsTemplateRegistry, SMSTemplate } from './smsTemplates';
+import type { ParsedTransaction } from './smsParsingEngine';
+
+export type FraudSignalKind =
+  | 'number_sender'
+  | 'lookalike_sender'
+  | 'scam_phrase'
+  | 'link_in_credit'
+  | 'phone_in_credit'
+  | 'balance_mismatch';
+
+export interface FraudSignal {
+  kind: FraudSignalKind;
+  detail: string;
+  weight: number; // QUARANTINE_WEIGHT on its own quarantines; lighter signals need company
+}
+
+export interface FraudCheck {
+  message: string;
+  sender: string;
+  transaction: ParsedTransaction;
+  // Template registered for the sender, if any
+  template?: SMSTemplate;
+  // Latest balance the transaction's account reported before this message
+  previousBalance?: number;
+}
+
+// Signals adding up to this hold the message in quarantine instead of recording it
+export const QUARANTINE_WEIGHT = 2;
+
+// "+233 24 412 3456", "0244123456"
+const PHONE_SENDER = /^\+?\d[\d\s-]{6,}$/;
+
+const SCAM_PHRASES: RegExp[] = [
+  /\b(?:send|transfer|return)\s+(?:it\s+|them\s+|the\s+(?:money|amount|funds?|cash)\s+)?back\b/i,
+  // Not a bare "pay back", which loan messages use for the repayment
+  /\b(?:pay|refund)\s+(?:it|them|the\s+(?:money|funds?|cash))\s+back\b/i,
+  /\breverse\s+(?:it|the\s+(?:money|amount|funds?|cash))\b/i,
+  /\b(?:by\s+mistake|mistakenly|wrongly\s+(?:sent|credited|transferred))\b/i,
+  /\bwrong\s+(?:number|account|wallet)\b/i,
+  /\b(?:approve|confirm|authori[sz]e)\s+(?:the\s+)?(?:reversal|refund)\b/i,
+  /\b(?:account|wallet|sim)\s+(?:will\s+be\s+|has\s+been\s+)?(?:blocked|suspended|deactivated)\b/i,
+  // French; not a bare "rembourser", which loan messages use for the repayment
+  /\b(?:renvoyer|retourner|rembourser)\s+(?:le\s+montant|la\s+somme|l['’]argent|les\s+fonds)\b/i,
+  /\bpar\s+erreur\b/i
+];
+
+const LINK = /\b(?:https?:\/\/|www\.)[^\s]+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|co|ly|me|info|xyz|link|site|online|top)(?:\/[^\s]*)?(?![a-z0-9])/gi;
+
+// A number the alert asks you to call or message, not the payer's number quoted in the alert
+const CALL_TO_ACTION_PHONE = /\b(?:call|contact|whatsapp|text|sms|dial|reach)\b(?:\s+(?:us|me|him|her|them|on|at|via|the\s+sender|this\s+number))*[:\s]+(\+?\d[\d\s-]{7,}\d)/i;
+
+// Wording that claims money arrived
+const CREDIT_CLAIM = /\b(?:received|credited|has\s+sent\s+you|deposited)\b|vous\s+avez\s+reçu|crédité/i;
+
+const hostOf = (link: string): string =>
+  link.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split(/[/?#]/)[0].replace(/[.,;:!)]+$/, '');
+
+const isOwnLink = (link: string, template?: SMSTemplate): boolean => {
+  const host = hostOf(link);
+  return (template?.linkDomains || []).some(domain => host === domain || host.endsWith(`.${domain}`));
+};
+
+export function detectFraudSignals({ message, sender, transaction, template, previousBalance }: FraudCheck): FraudSignal[] {
+  const signals: FraudSignal[] = [];
+  const isCredit = transaction.type === 'income';
+
+  if (PHONE_SENDER.test(sender.trim())) {
+    const claimed = smsTemplateRegistry.findMentioned(message);
+    if (claimed) {
+      signals.push({ kind: 'number_sender', weight: 2, detail: `Names ${claimed.bank} but came from the phone number ${sender}` });
+    } else if (isCredit) {
+      signals.push({ kind: 'number_sender', weight: 1, detail: `Credit alert from the phone number ${sender}` });
+    }
+  } else if (template && smsTemplateRegistry.isLookalikeSender(template, sender)) {
+    signals.push({ kind: 'lookalike_sender', weight: 2, detail: `"${sender}" is not one of ${template.bank}'s sender ids` });
+  }
+
+  const scamPhrase = SCAM_PHRASES.map(pattern => message.match(pattern)).find(match => match !== null);
+  if (scamPhrase) {
+    signals.push({ kind: 'scam_phrase', weight: 2, detail: `Scam wording ("${scamPhrase[0]}")` });
+  }
+
+  if (isCredit) {
+    const link = (message.match(LINK) || []).find(candidate => !isOwnLink(candidate, template));
+    if (link) {
+      signals.push({ kind: 'link_in_credit', weight: 1, detail: `Credit alert with a link (${hostOf(link)})` });
+    }
+
+    const phone = message.match(CALL_TO_ACTION_PHONE);
+    if (phone) {
+      signals.push({ kind: 'phone_in_credit', weight: 1, detail: `Credit alert asks you to contact ${phone[1].trim()}` });
+    }
+
+    // A real credit moves the balance by the amount; an alert or SMS gone missing can explain a
+    // mismatch too, so on its own it only counts half
+    if (transaction.balance !== undefined && previousBalance !== undefined) {
+      const charges = (transaction.charges || []).reduce((total, charge) => total + charge.amount, 0);
+      const expected = previousBalance + transaction.amount - charges;
+      if (Math.abs(transaction.balance - expected) >= 0.01) {
+        signals.push({
+          kind: 'balance_mismatch',
+          weight: 1,
+          detail: `Balance ${transaction.balance.toFixed(2)} does not follow from ${previousBalance.toFixed(2)} plus ${transaction.amount.toFixed(2)}`
+        });
+      }
+    }
+  }
+
+  return signals;
+}
+
+// Scam wording, a link or a number to call in a message claiming money arrived. The promotional
+// filter would drop such a message unseen, so the engine parses it anyway to quarantine it.
+export function findScamMarker(message: string): string | undefined {
+  if (!CREDIT_CLAIM.test(message)) return undefined;
+
+  const marker = [...SCAM_PHRASES, LINK, CALL_TO_ACTION_PHONE]
+    .map(pattern => message.match(pattern))
+    .find(match => match !== null);
+  return marker?.[0];
+}
+
+export function shouldQuarantine(signals: FraudSignal[]): boolean {
+  return signals.reduce((total, signal) => total + signal.weight, 0) >= QUARANTINE_WEIGHT;
+}
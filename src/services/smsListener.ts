@@ -2,9 +2,12 @@ import * as SMS from 'expo-sms';
 import * as Notifications from 'expo-notifications';
 import { AppState, AppStateStatus } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { smsParserService, ParsedTransaction } from './smsParser';
+import { smsParserService, ParsedTransaction, ParseTrace, ParseResult } from './smsParser';
 import { databaseService, ProcessedSMS } from '../database/schema';
 import { nativeSMSReader } from './nativeSMSReader';
+import { reviewInboxService } from './reviewInboxService';
+import { currencyService } from './currencyService';
+import { transactionPipeline, TransactionSource, SourceMessageIdentity, PipelineTransaction } from './transactionPipeline';
 
 export interface SMSMessage {
   id: string;
@@ -14,7 +17,8 @@ export interface SMSMessage {
   read: boolean;
 }
 
-export class SMSListenerService {
+export class SMSListenerService implements TransactionSource<SMSMessage> {
+  readonly type = 'sms' as const;
   private isListening: boolean = false;
   private lastProcessedSMSId: string | null = null;
   private checkInterval: NodeJS.Timeout | null = null;
@@ -137,9 +141,7 @@ export class SMSListenerService {
 
       // Get SMS from last 5 minutes for periodic checks
       const fiveMinutesAgo = new Date(Date.now() - (5 * 60 * 1000));
-      const now = new Date();
-      
-      return await nativeSMSReader.getSMSHistory(fiveMinutesAgo, now);
+      return await this.fetch(fiveMinutesAgo);
     } catch (error) {
       console.error('Error getting recent SMS:', error);
       return [];
@@ -148,16 +150,7 @@ export class SMSListenerService {
 
   private async shouldProcessSMS(sms: SMSMessage): Promise<boolean> {
     try {
-      // Check if SMS already processed in database
-      const db = await databaseService.getDatabase();
-      if (!db) return false;
-
-      const existing = await db.getFirstAsync(
-        'SELECT id FROM processed_sms WHERE smsId = ?',
-        [sms.id]
-      );
-      
-      if (existing) {
+      if (await transactionPipeline.isProcessed(sms.id)) {
         return false; // Already processed
       }
 
@@ -172,43 +165,74 @@ export class SMSListenerService {
 
   private async processSMS(sms: SMSMessage): Promise<void> {
     try {
-      // Record this SMS as processed to prevent duplicates
-      await this.recordProcessedSMS(sms, null);
+      const saved = (await transactionPipeline.ingest(this, sms)).filter(item => !item.isDuplicate);
 
-      const parsedTransaction = await smsParserService.parseMessage(
-        sms.body,
-        sms.address,
-        new Date(sms.date)
-      );
+      if (saved.length === 1) {
+        await this.notifyUser(saved[0].transaction, saved[0].transactionId, saved[0].isTransfer);
+      } else if (saved.length > 1) {
+        await this.notifyDigest(saved.map(item => item.transaction), saved.map(item => item.transactionId));
+      }
+    } catch (error) {
+      console.error('Error processing SMS:', error);
+    }
+  }
 
-      if (parsedTransaction) {
-        // Save the transaction
-        const transactionId = await smsParserService.saveTransaction(parsedTransaction);
-        
-        // Update the processed SMS record with transaction ID
-        await this.updateProcessedSMS(sms.id, transactionId);
-        
-        // Update last processed SMS ID
-        this.lastProcessedSMSId = sms.id;
-        await AsyncStorage.setItem('lastProcessedSMSId', sms.id);
+  // TransactionSource: the device SMS inbox
+  async fetch(since: Date): Promise<SMSMessage[]> {
+    return await nativeSMSReader.getSMSHistory(since, new Date());
+  }
+
+  identify(sms: SMSMessage): SourceMessageIdentity {
+    return { id: sms.id, sender: sms.address };
+  }
 
-        // Send notification to user
-        await this.notifyUser(parsedTransaction, transactionId);
+  async parse(sms: SMSMessage): Promise<ParsedTransaction[]> {
+    // Record this SMS as processed to prevent duplicates
+    await this.recordProcessedSMS(sms, null);
 
-        // Update budgets if applicable
-        await this.updateBudgets(parsedTransaction);
+    const { transactions, trace, candidates = [] } = await smsParserService.parseMessageWithTrace(
+      sms.body,
+      sms.address,
+      new Date(sms.date)
+    );
+
+    // Keep the explanation next to the processed SMS, accepted or not
+    await this.saveParseTrace(sms.id, trace);
 
-        console.log('Transaction processed successfully:', transactionId);
+    // Low-confidence guesses wait in the review inbox instead of being discarded, and so do
+    // suspected scams, with a warning so the user does not act on them
+    if (transactions.length === 0 && candidates.length > 0) {
+      for (const candidate of candidates) {
+        await reviewInboxService.addItem(sms, candidate, trace);
+      }
+      if (trace.outcome === 'quarantined') {
+        console.log('SMS quarantined:', trace.reason);
+        await this.notifyQuarantine(sms, candidates[0], trace);
+      } else {
+        console.log('SMS sent to review inbox:', trace.reason);
       }
-    } catch (error) {
-      console.error('Error processing SMS:', error);
     }
+
+    // A digest SMS yields one transaction per entry, all linked back to the same SMS
+    return transactions;
+  }
+
+  // The processed_sms row was written before parsing so the trace has somewhere to go
+  async save(sms: SMSMessage, transactions: PipelineTransaction[]): Promise<void> {
+    if (!transactions.some(item => !item.isDuplicate)) return;
+
+    this.lastProcessedSMSId = sms.id;
+    await AsyncStorage.setItem('lastProcessedSMSId', sms.id);
   }
 
-  private async notifyUser(transaction: ParsedTransaction, transactionId: string): Promise<void> {
-    const title = transaction.type === 'income' ? 'Money Received' : 'Money Spent';
+  private async notifyUser(transaction: ParsedTransaction, transactionId: string, isTransfer: boolean = false): Promise<void> {
+    const title = isTransfer
+      ? 'Transfer Between Accounts'
+      : transaction.status
+        ? (transaction.status === 'reversal' ? 'Transaction Reversed' : 'Refund Received')
+        : (transaction.type === 'income' ? 'Money Received' : 'Money Spent');
     const emoji = transaction.type === 'income' ? '💰' : '💸';
-    const amount = `₵${transaction.amount.toLocaleString()}`;
+    const amount = await currencyService.formatCurrency(transaction.amount, transaction.currency);
     
     let body = `${emoji} ${amount}`;
     if (transaction.merchant) {
@@ -216,6 +240,11 @@ export class SMSListenerService {
     }
     body += ` (${transaction.category})`;
 
+    if (transaction.charges) {
+      const chargesTotal = transaction.charges.reduce((total, charge) => total + charge.amount, 0);
+      body += ` + ${await currencyService.formatCurrency(chargesTotal, transaction.currency)} fees`;
+    }
+
     await Notifications.scheduleNotificationAsync({
       content: {
         title,
@@ -226,58 +255,43 @@ export class SMSListenerService {
     });
   }
 
-  private async updateBudgets(transaction: ParsedTransaction): Promise<void> {
-    if (transaction.type !== 'expense') return;
-
-    const db = await databaseService.getDatabase();
-    if (!db) return;
-
-    try {
-      // Find active budgets for this category
-      const budgets = await db.getAllAsync(
-        'SELECT * FROM budgets WHERE category = ? AND isActive = 1 AND date(?) BETWEEN startDate AND endDate',
-        [transaction.category, transaction.date.split('T')[0]]
-      );
-
-      // Update spent amounts
-      for (const budget of budgets as any[]) {
-        const newSpent = budget.spent + transaction.amount;
-        await db.runAsync(
-          'UPDATE budgets SET spent = ?, updatedAt = ? WHERE id = ?',
-          [newSpent, new Date().toISOString(), budget.id]
-        );
-
-        // Check if budget is exceeded
-        if (newSpent > budget.amount) {
-          await this.sendBudgetAlert(budget, newSpent);
-        } else if (newSpent / budget.amount >= 0.8) {
-          await this.sendBudgetWarning(budget, newSpent);
-        }
-      }
-    } catch (error) {
-      console.error('Error updating budgets:', error);
-    }
-  }
+  private async notifyQuarantine(sms: SMSMessage, candidate: ParsedTransaction, trace: ParseTrace): Promise<void> {
+    const claim = candidate.type === 'income' ? 'says you received' : 'says you paid';
+    const signal = trace.fraudSignals?.[0]?.detail;
 
-  private async sendBudgetAlert(budget: any, spent: number): Promise<void> {
-    const overspent = spent - budget.amount;
     await Notifications.scheduleNotificationAsync({
       content: {
-        title: '🚨 Budget Exceeded',
-        body: `You've overspent on ${budget.name} by ₵${overspent.toLocaleString()}`,
-        data: { budgetId: budget.id, type: 'budget_alert' },
+        title: '⚠️ Possible Scam Message',
+        body: `A message from ${sms.address} ${claim} ${candidate.currency} ${candidate.amount.toLocaleString()}. ` +
+          `It was not recorded${signal ? ` (${signal})` : ''}. Don't send money or share codes; check it in Profile → Review Inbox.`,
+        data: { smsId: sms.id, type: 'quarantine' },
       },
       trigger: null,
     });
   }
 
-  private async sendBudgetWarning(budget: any, spent: number): Promise<void> {
-    const percentage = Math.round((spent / budget.amount) * 100);
+  // A digest SMS gets one summary instead of a notification per entry
+  private async notifyDigest(transactions: ParsedTransaction[], transactionIds: string[]): Promise<void> {
+    const currencies = [...new Set(transactions.map(transaction => transaction.currency))];
+
+    const parts: string[] = [];
+    for (const type of ['expense', 'income'] as const) {
+      for (const currency of currencies) {
+        const total = transactions
+          .filter(transaction => transaction.type === type && transaction.currency === currency)
+          .reduce((sum, transaction) => sum + transaction.amount, 0);
+        if (total > 0) {
+          const amount = await currencyService.formatCurrency(total, currency);
+          parts.push(type === 'expense' ? `💸 ${amount} spent` : `💰 ${amount} received`);
+        }
+      }
+    }
+
     await Notifications.scheduleNotificationAsync({
       content: {
-        title: '⚠️ Budget Warning',
-        body: `You've used ${percentage}% of your ${budget.name} budget`,
-        data: { budgetId: budget.id, type: 'budget_warning' },
+        title: `${transactions.length} Transactions Recorded`,
+        body: parts.join(' · '),
+        data: { transactionIds, type: 'digest' },
       },
       trigger: null,
     });
@@ -326,17 +340,37 @@ export class SMSListenerService {
     }
   }
 
-  private async updateProcessedSMS(smsId: string, transactionId: string): Promise<void> {
+  private async saveParseTrace(smsId: string, trace: ParseTrace): Promise<void> {
     try {
       const db = await databaseService.getDatabase();
       if (!db) return;
 
       await db.runAsync(
-        'UPDATE processed_sms SET transactionId = ? WHERE smsId = ?',
-        [transactionId, smsId]
+        'UPDATE processed_sms SET parseTrace = ? WHERE smsId = ?',
+        [JSON.stringify(trace), smsId]
       );
     } catch (error) {
-      console.error('Error updating processed SMS:', error);
+      console.error('Error saving parse trace:', error);
+    }
+  }
+
+  // Get the parser explanation for a transaction created from SMS
+  async getParseTrace(transactionId: string): Promise<ParseTrace | null> {
+    try {
+      const db = await databaseService.getDatabase();
+      if (!db) return null;
+
+      const row = await db.getFirstAsync(
+        `SELECT parseTrace FROM processed_sms
+         WHERE parseTrace IS NOT NULL
+           AND (transactionId = ? OR smsId IN (SELECT smsId FROM processed_sms_transactions WHERE transactionId = ?))`,
+        [transactionId, transactionId]
+      ) as { parseTrace: string } | null;
+
+      return row ? JSON.parse(row.parseTrace) as ParseTrace : null;
+    } catch (error) {
+      console.error('Error loading parse trace:', error);
+      return null;
     }
   }
 
@@ -376,10 +410,9 @@ export class SMSListenerService {
       // Get SMS from last 3 months (90 days)
       const threeMonthsAgo = new Date();
       threeMonthsAgo.setDate(threeMonthsAgo.getDate() - 90);
-      const now = new Date();
 
       console.log('Fetching SMS history from:', threeMonthsAgo.toISOString());
-      const smsHistory = await nativeSMSReader.getSMSHistory(threeMonthsAgo, now);
+      const smsHistory = await this.fetch(threeMonthsAgo);
       
       let processed = 0;
       let errors = 0;
@@ -392,7 +425,7 @@ export class SMSListenerService {
         for (const sms of batch) {
           try {
             // Check if already processed
-            if (!(await this.shouldProcessSMSHistory(sms))) {
+            if (await transactionPipeline.isProcessed(sms.id)) {
               continue;
             }
 
@@ -418,47 +451,33 @@ export class SMSListenerService {
     }
   }
 
-  private async shouldProcessSMSHistory(sms: SMSMessage): Promise<boolean> {
-    try {
-      // Check if SMS already processed in database
-      const db = await databaseService.getDatabase();
-      if (!db) return false;
-
-      const existing = await db.getFirstAsync(
-        'SELECT id FROM processed_sms WHERE smsId = ?',
-        [sms.id]
-      );
-      
-      return !existing; // Process if not already in database
-    } catch (error) {
-      console.error('Error checking SMS history processing status:', error);
-      return false;
-    }
-  }
-
   // Method to manually process a test SMS (for development/testing)
   async processTestSMS(message: string, sender: string = 'TEST-BANK'): Promise<string | null> {
     try {
-      const parsedTransaction = await smsParserService.parseMessage(
+      const parsedTransactions = await smsParserService.parseMessage(
         message,
         sender,
         new Date()
       );
 
-      if (parsedTransaction) {
-        const transactionId = await smsParserService.saveTransaction(parsedTransaction);
-        await this.notifyUser(parsedTransaction, transactionId);
-        await this.updateBudgets(parsedTransaction);
-        return transactionId;
+      // Returns the first transaction; a digest saves the rest alongside it
+      const recorded = await transactionPipeline.record(parsedTransactions, 'sms', sender);
+      for (const item of recorded.filter(item => !item.isDuplicate)) {
+        await this.notifyUser(item.transaction, item.transactionId, item.isTransfer);
       }
 
-      return null;
+      return recorded[0]?.transactionId || null;
     } catch (error) {
       console.error('Error processing test SMS:', error);
       throw error;
     }
   }
 
+  // Parse an SMS without saving it, returning the parser explanation as well
+  async testParseSMS(message: string, sender: string = 'TEST-BANK'): Promise<ParseResult> {
+    return await smsParserService.parseMessageWithTrace(message, sender, new Date());
+  }
+
   // Get SMS processing statistics
   async getProcessingStats(): Promise<{
     totalProcessed: number;
@@ -474,7 +493,7 @@ export class SMSListenerService {
       ) as { count: number };
 
       const transactionsResult = await db.getFirstAsync(
-        'SELECT COUNT(*) as count FROM processed_sms WHERE transactionId IS NOT NULL'
+        'SELECT COUNT(*) as count FROM processed_sms_transactions'
       ) as { count: number };
 
       const lastProcessedResult = await db.getFirstAsync(
@@ -0,0 +1,55 @@
+// Terms quoted in loan disbursement and repayment SMS: interest, the total to repay,
+// the due date and what is still owed.
+
+import type { LoanSchedule } from '../database/schema';
+import { extractDueDate, SMSDateOrder } from './smsDates';
+
+export type LoanEvent = 'disbursement' | 'repayment';
+
+export interface LoanTerms {
+  interestRate?: number; // Percent, as quoted
+  interestAmount?: number;
+  totalDue?: number; // Principal plus interest and fees
+  outstanding?: number; // Left to repay after a repayment
+  dueDate?: string;
+  schedule?: LoanSchedule;
+}
+
+export interface LoanDetails extends LoanTerms {
+  event: LoanEvent;
+  lender: string;
+}
+
+const AMOUNT = '(?:GHS|NGN|KES|UGX|TZS|ZAR|USD|XOF|XAF|[₵₦$])\\.?\\s*((?:\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.\\d{1,2})?)';
+
+const INTEREST_RATE = /\binterest(?:\s+rate)?(?:\s+(?:of|at))?[:\s]*(\d+(?:\.\d+)?)\s*%|(\d+(?:\.\d+)?)\s*%\s*(?:p\.?a\.?\s*)?interest\b/i;
+const INTEREST_AMOUNT = new RegExp(`\\b(?:interest|service\\s+fee|facility\\s+fee)(?:\\s+(?:of|amount|charged|is))*[:\\s]*${AMOUNT}`, 'i');
+const TOTAL_DUE = new RegExp(`\\b(?:total\\s+repayment|repayment\\s+amount|amount\\s+(?:due|payable|to\\s+repay)|total\\s+(?:due|payable)|(?:repay|pay\\s+back))(?:\\s+(?:of|is))?[:\\s]*${AMOUNT}`, 'i');
+const OUTSTANDING = new RegExp(`\\b(?:outstanding|remaining|loan)\\s+(?:loan\\s+)?(?:balance|amount)(?:\\s+(?:of|is))?[:\\s]*${AMOUNT}`, 'i');
+
+const toAmount = (match: RegExpExecArray | null): number | undefined =>
+  match ? parseFloat(match[1].replace(/,/g, '')) : undefined;
+
+export function extractLoanTerms(message: string, receivedAt: Date, order: SMSDateOrder = 'DMY'): LoanTerms {
+  const terms: LoanTerms = {};
+
+  const rate = INTEREST_RATE.exec(message);
+  if (rate) terms.interestRate = parseFloat(rate[1] || rate[2]);
+
+  terms.interestAmount = toAmount(INTEREST_AMOUNT.exec(message));
+  terms.totalDue = toAmount(TOTAL_DUE.exec(message));
+  terms.outstanding = toAmount(OUTSTANDING.exec(message));
+
+  const dueDate = extractDueDate(message, receivedAt, order);
+  if (dueDate) terms.dueDate = dueDate.toISOString();
+
+  if (/\b(?:monthly|per\s+month|every\s+month)\b/i.test(message)) {
+    terms.schedule = 'monthly';
+  } else if (/\b(?:weekly|per\s+week|every\s+week)\b/i.test(message)) {
+    terms.schedule = 'weekly';
+  } else if (terms.dueDate) {
+    terms.schedule = 'once';
+  }
+
+  return terms;
+}
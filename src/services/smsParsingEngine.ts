@@ -0,0 +1,1816 @@
+import type { Category, Account, SMSRule, MerchantCategoryOverride, Merchant, SMSSender, SMSSenderMode, AccountBalanceSnapshot } from '../database/schema';
+import { smsTemplateRegistry, SMSTemplate } from './smsTemplates';
+import { extractMessageDate, extractShortDate, messageDateDiffers, SMSDateOrder } from './smsDates';
+import { splitDigest } from './smsDigest';
+import { extractAccountSuffix, suffixFromKeyword, suffixesMatch } from './accountSuffix';
+import { extractLoanTerms, LoanDetails } from './smsLoans';
+import { normalizeCFAAmounts, parseAmountNumber, tokenizeAmounts } from './smsAmounts';
+import { detectFraudSignals, findScamMarker, shouldQuarantine, FraudSignal } from './smsFraud';
+
+export interface ParsedTransaction {
+  amount: number;
+  currency: string;
+  description: string;
+  merchant?: string;
+  account?: string;
+  accountId?: string;
+  accountSuffix?: string; // Trailing digits of the account or card number, e.g. "4521"
+  type: 'income' | 'expense';
+  category: string;
+  date: string;
+  receivedAt?: string; // When the SMS arrived, set only when the body gives a different date
+  rawMessage: string;
+  balance?: number; // Running balance reported in the SMS
+  reference?: string;
+  templateId?: string;
+  charges?: ParsedCharge[]; // Fees and levies reported alongside the principal
+  status?: 'reversal' | 'refund'; // Money returned for an earlier transaction
+  originalReference?: string; // Reference of the transaction being reversed or refunded
+  digestLine?: number; // Position of the entry in a digest or mini-statement SMS
+  loan?: LoanDetails; // Set on loan disbursements and repayments
+}
+
+export interface ParsedCharge {
+  kind: 'fee' | 'levy' | 'tax';
+  label: string;
+  amount: number;
+}
+
+export type ParseFilterName =
+  | 'promotional_score'
+  | 'promotional_keyword'
+  | 'reminder_keyword'
+  | 'failed_transaction'
+  | 'blocked_sender'
+  | 'allowed_sender'
+  | 'strong_transaction_keyword'
+  | 'trusted_sender_evidence'
+  | 'no_transaction_evidence';
+
+export interface ParseFilterResult {
+  name: ParseFilterName;
+  passed: boolean;
+  matched?: string;
+  score?: number;
+}
+
+export interface ConfidenceFactor {
+  label: string;
+  delta: number;
+}
+
+// Structured explanation of a single parse decision, stored with processed_sms
+export interface ParseTrace {
+  sender: string;
+  evaluatedAt: string;
+  outcome: 'accepted' | 'review' | 'rejected' | 'quarantined';
+  reason: string;
+  filter: ParseFilterResult;
+  method?: 'rule' | 'template' | 'generic' | 'digest';
+  ruleId?: string;
+  ruleName?: string;
+  templateId?: string;
+  amountPattern?: string;
+  messageDate?: string; // Date text found in the SMS body
+  digestEntries?: number; // Transactions listed in a digest SMS
+  fraudSignals?: FraudSignal[]; // Scam signs found in the message, whether or not they were enough to quarantine it
+  confidence?: {
+    score: number;
+    threshold: number;
+    factors: ConfidenceFactor[];
+  };
+}
+
+export interface ParseResult {
+  // Usually one transaction; digests and mini-statements yield one per listed entry
+  transactions: ParsedTransaction[];
+  trace: ParseTrace;
+  // Best guess for a low-confidence or quarantined parse, or every entry when the sender is set
+  // to parse with review, offered in the review inbox
+  candidates?: ParsedTransaction[];
+}
+
+const CONFIDENCE_THRESHOLD = 0.7;
+// Parses scoring between this and CONFIDENCE_THRESHOLD go to the review inbox
+const REVIEW_THRESHOLD = 0.4;
+
+// Optional currency in front of a balance or charge amount ("GHS", "GHS.", "₵", "R")
+const CURRENCY_PREFIX = '(?:[a-z]{3}\\.?\\s*|[\\$€£₵₦]\\s*|r\\s*)?';
+
+// Filter rejections a scam credit alert typically gets ("dial", a link, a phone number sender)
+const SCAM_SUSPECT_FILTERS: ParseFilterName[] = ['promotional_score', 'promotional_keyword', 'no_transaction_evidence'];
+
+// A failed transaction moves no money and is not recorded
+const FAILURE_PATTERNS: RegExp[] = [
+  /\bfailed\b/,
+  /\bunsuccessful\b/,
+  /\bnot successful\b/,
+  /\bdeclined\b/,
+  /\binsufficient (?:funds|balance)\b/,
+  /\bcould not be (?:completed|processed|debited)\b/,
+  /échec\b|\bechec\b/,
+  /échou[ée]|\bechou[ée]/,
+  /\bsolde insuffisant\b/
+];
+
+// Whole words only; a plural "s" still counts
+const containsKeyword = (text: string, keyword: string): boolean =>
+  new RegExp(`(?:^|[^\\p{L}\\d])${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}s?(?![\\p{L}\\d])`, 'u').test(text);
+
+const CHARGE_PATTERNS: { kind: ParsedCharge['kind']; label: string; pattern: RegExp }[] = [
+  {
+    kind: 'levy',
+    label: 'E-Levy',
+    pattern: new RegExp(`\\be[-\\s]?levy(?:\\s+charged)?(?:\\s+is)?[:\\s]*${CURRENCY_PREFIX}([\\d,]+(?:\\.\\d{1,2})?)`, 'i')
+  },
+  {
+    kind: 'tax',
+    label: 'Tax',
+    pattern: new RegExp(`\\b(?:tax|vat)(?:\\s+charged)?(?:\\s+is)?[:\\s]*${CURRENCY_PREFIX}([\\d,]+(?:\\.\\d{1,2})?)`, 'i')
+  },
+  {
+    kind: 'fee',
+    label: 'Fee',
+    pattern: new RegExp(`\\b(?:(?:transaction|service)\\s+)?(?:fee|charges?|commission|cost|frais)(?:\\s+charged)?(?:\\s+is)?[:,\\s]*${CURRENCY_PREFIX}([\\d,]+(?:\\.\\d{1,2})?)`, 'i')
+  }
+];
+
+export interface RulePreview {
+  transaction: ParsedTransaction | null;
+  error?: string;
+}
+
+export interface ParsingData {
+  categories?: Category[];
+  accounts?: Account[];
+  smsRules?: SMSRule[];
+  merchantOverrides?: MerchantCategoryOverride[];
+  merchants?: Merchant[];
+  senders?: SMSSender[];
+  // Latest reported balance of each account, for the fraud balance check
+  balances?: AccountBalanceSnapshot[];
+}
+
+// "MobileMoney " and "MOBILEMONEY" are the same sender
+export function normalizeSenderKey(sender: string): string {
+  return sender.trim().toLowerCase();
+}
+
+// The user's always/never/review setting for a sender, if there is one
+export function findSenderMode(senders: SMSSender[], sender: string): SMSSenderMode | undefined {
+  const senderKey = normalizeSenderKey(sender);
+  return senders.find(s => s.senderKey === senderKey)?.mode;
+}
+
+// Lookup key for merchant overrides: "Kofi Broke-Man." and "KOFI BROKE MAN" match
+export function normalizeMerchantKey(merchant: string): string {
+  return merchant.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Canonical merchant for a raw name: exact name or alias first, then the regex matchers
+export function findMerchant(merchants: Merchant[], merchant: string | undefined): Merchant | undefined {
+  if (!merchant) return undefined;
+
+  const merchantKey = normalizeMerchantKey(merchant);
+  if (!merchantKey) return undefined;
+
+  const byAlias = merchants.find(m =>
+    normalizeMerchantKey(m.name) === merchantKey ||
+    m.aliases.some(alias => normalizeMerchantKey(alias) === merchantKey)
+  );
+  if (byAlias) return byAlias;
+
+  return merchants.find(m => m.patterns.some(pattern => {
+    try {
+      return new RegExp(pattern, 'i').test(merchant);
+    } catch (error) {
+      return false;
+    }
+  }));
+}
+
+// Pure SMS parsing logic with no Expo or database dependencies, so it can
+// run in plain Node (see scripts/runParserCorpus.ts)
+export class SMSParsingEngine {
+  protected categories: Category[] = [];
+  protected accounts: Account[] = [];
+  protected smsRules: SMSRule[] = [];
+  protected merchantOverrides: MerchantCategoryOverride[] = [];
+  protected merchants: Merchant[] = [];
+  protected senders: SMSSender[] = [];
+  protected balances: AccountBalanceSnapshot[] = [];
+
+  constructor(data: ParsingData = {}) {
+    this.setParsingData(data);
+  }
+
+  setParsingData(data: ParsingData): void {
+    if (data.categories) this.categories = data.categories;
+    if (data.accounts) this.accounts = data.accounts;
+    if (data.smsRules) this.smsRules = data.smsRules;
+    if (data.merchantOverrides) this.merchantOverrides = data.merchantOverrides;
+    if (data.merchants) this.merchants = data.merchants;
+    if (data.senders) this.senders = data.senders;
+    if (data.balances) this.balances = data.balances;
+  }
+
+  async parseMessage(message: string, sender: string, date: Date): Promise<ParsedTransaction[]> {
+    const { transactions } = await this.parseMessageWithTrace(message, sender, date);
+    return transactions;
+  }
+
+  async parseMessageWithTrace(message: string, sender: string, date: Date): Promise<ParseResult> {
+    const result = await this.evaluateMessage(message, sender, date);
+
+    // Parse-with-review senders always go to the review inbox, one item per digest entry
+    if (result.transactions.length > 0 && findSenderMode(this.senders, sender) === 'review') {
+      result.trace.outcome = 'review';
+      result.trace.reason = `${result.trace.reason}; sender is set to parse with review`;
+      return { transactions: [], trace: result.trace, candidates: result.transactions };
+    }
+
+    return result;
+  }
+
+  private async evaluateMessage(message: string, sender: string, date: Date): Promise<ParseResult> {
+    console.log('=== SMS PARSING START ===');
+    console.log('Sender:', sender);
+    console.log('Message:', message);
+    
+    const messageText = message.toLowerCase();
+    
+    // Check if this is a financial SMS (enhanced filters)
+    const filter = this.evaluateFinancialSMS(messageText, sender);
+    console.log('Is financial SMS:', filter.passed);
+
+    const trace: ParseTrace = {
+      sender,
+      evaluatedAt: new Date().toISOString(),
+      outcome: 'rejected',
+      reason: '',
+      filter
+    };
+    
+    // Scam credit alerts read as promotional and would be dropped unseen; they are parsed anyway,
+    // but only so they can be quarantined with a warning
+    const scamMarker = !filter.passed && SCAM_SUSPECT_FILTERS.includes(filter.name) ? findScamMarker(message) : undefined;
+    if (scamMarker) {
+      console.log('Filtered SMS has a scam marker, checking it for fraud:', scamMarker);
+    }
+
+    if (!filter.passed && !scamMarker) {
+      trace.reason = this.describeFilterRejection(filter);
+      console.log('=== SMS PARSING END (Not Financial) ===');
+      return { transactions: [], trace };
+    }
+
+    // Digests list several transactions, which no single-transaction rule or template can capture
+    const digest = scamMarker ? null : this.parseDigest(message, sender, date);
+    if (digest) {
+      trace.outcome = 'accepted';
+      trace.method = 'digest';
+      trace.digestEntries = digest.length;
+      trace.reason = `Digest SMS listing ${digest.length} transactions`;
+      console.log('=== SMS PARSING END (Digest) ===');
+      return { transactions: digest, trace };
+    }
+
+    // Try to parse using custom rules first
+    for (const rule of scamMarker ? [] : this.smsRules) {
+      const parsed = this.parseWithRule(message, rule, date, trace);
+      if (parsed) {
+        console.log('Parsed with rule:', rule.name);
+        this.applyCanonicalMerchant(parsed);
+        this.applyMessageDate(parsed, message, sender, date, trace);
+        trace.outcome = 'accepted';
+        trace.method = 'rule';
+        trace.ruleId = rule.id;
+        trace.ruleName = rule.name;
+        trace.reason = `Matched custom rule "${rule.name}"`;
+        console.log('=== SMS PARSING END (Rule Match) ===');
+        return { transactions: [parsed], trace };
+      }
+    }
+
+    // Then try the bank template registered for this sender
+    const template = smsTemplateRegistry.findBySender(sender, message);
+    let result: ParsedTransaction | null = null;
+    
+    if (template) {
+      console.log('Using template:', template.id);
+      result = this.parseWithTemplate(message, sender, template, date, trace);
+      if (result) {
+        trace.method = 'template';
+        trace.templateId = template.id;
+      }
+    }
+
+    // Fallback to generic parsing with confidence scoring
+    if (!result) {
+      console.log('Using generic parsing...');
+      result = this.parseGeneric(message, sender, date, trace);
+      if (result) {
+        trace.method = 'generic';
+      }
+    }
+    
+    if (!result) {
+      trace.reason = scamMarker ? this.describeFilterRejection(filter) : 'No transaction amount could be extracted';
+      console.log('=== SMS PARSING END ===');
+      return { transactions: [], trace };
+    }
+
+    this.applyCanonicalMerchant(result);
+    this.applyMessageDate(result, message, sender, date, trace);
+
+    // Reversals and refunds return money for an earlier transaction
+    const adjustment = this.detectAdjustment(messageText);
+    if (adjustment) {
+      this.applyAdjustment(result, adjustment, messageText);
+    }
+
+    // Disbursements open a loan and repayments pay one down, instead of counting as income and spending
+    if (!result.status) {
+      result.loan = this.detectLoan(message, sender, result.type, date);
+    }
+
+    const factors: ConfidenceFactor[] = [];
+    // Generic parsing only takes figures the tokenizer labelled as the amount
+    const labelledAmount = trace.method === 'generic';
+    const confidence = this.calculateTransactionConfidence(result, message, sender, labelledAmount, factors);
+    console.log('Transaction confidence score:', confidence);
+    trace.confidence = { score: confidence, threshold: CONFIDENCE_THRESHOLD, factors };
+
+    // Scam alerts are held back however confidently they parse, so they never reach the totals
+    const fraudSignals = detectFraudSignals({
+      message,
+      sender,
+      transaction: result,
+      template,
+      previousBalance: this.findPreviousBalance(result)
+    });
+    if (fraudSignals.length > 0) {
+      trace.fraudSignals = fraudSignals;
+    }
+    if (shouldQuarantine(fraudSignals)) {
+      console.log('Transaction quarantined:', fraudSignals.map(signal => signal.kind).join(', '));
+      trace.outcome = 'quarantined';
+      trace.reason = `Quarantined as a possible scam: ${fraudSignals.map(signal => signal.detail).join('; ')}`;
+      console.log('=== SMS PARSING END (Quarantined) ===');
+      return { transactions: [], trace, candidates: [result] };
+    }
+
+    if (scamMarker) {
+      trace.reason = this.describeFilterRejection(filter);
+      console.log('=== SMS PARSING END (Not Financial) ===');
+      return { transactions: [], trace };
+    }
+    
+    // Only return transactions with high confidence (>= 0.7)
+    if (confidence >= CONFIDENCE_THRESHOLD) {
+      console.log('Transaction accepted with confidence:', confidence);
+      trace.outcome = 'accepted';
+      trace.reason = `Accepted ${result.status ? `as ${result.status} ` : ''}via ${trace.method} parsing with confidence ${confidence.toFixed(2)}`;
+      console.log('=== SMS PARSING END (High Confidence) ===');
+      return { transactions: [result], trace };
+    }
+
+    if (confidence >= REVIEW_THRESHOLD) {
+      console.log('Transaction sent to review with confidence:', confidence);
+      trace.outcome = 'review';
+      trace.reason = `Confidence ${confidence.toFixed(2)} is below the ${CONFIDENCE_THRESHOLD} threshold, sent to review`;
+      console.log('=== SMS PARSING END (Review) ===');
+      return { transactions: [], trace, candidates: [result] };
+    }
+
+    console.log('Transaction rejected due to low confidence:', confidence);
+    trace.reason = `Confidence ${confidence.toFixed(2)} is below the ${CONFIDENCE_THRESHOLD} threshold`;
+    console.log('=== SMS PARSING END (Low Confidence) ===');
+    return { transactions: [], trace };
+  }
+
+  // Latest balance the transaction's account reported before it, in the same currency
+  private findPreviousBalance(transaction: ParsedTransaction): number | undefined {
+    if (!transaction.accountId) return undefined;
+
+    const snapshot = this.balances.find(candidate =>
+      candidate.accountId === transaction.accountId &&
+      candidate.currency === transaction.currency &&
+      new Date(candidate.reportedAt).getTime() < new Date(transaction.date).getTime()
+    );
+    return snapshot?.balance;
+  }
+
+  // Shared by every transaction source: fills in the account and category a source's parser
+  // left blank, then resolves the canonical merchant. SMS parses arrive complete and only
+  // pick up the merchant and account suffix steps, which are idempotent.
+  enrichTransaction(transaction: ParsedTransaction, sender: string): ParsedTransaction {
+    const enriched = { ...transaction };
+
+    if (!enriched.accountSuffix) {
+      enriched.accountSuffix = extractAccountSuffix(enriched.rawMessage);
+    }
+
+    if (!enriched.account) {
+      const account = this.identifyAccount(enriched.rawMessage, sender);
+      enriched.account = account?.name;
+      enriched.accountId = account?.id;
+    }
+    if (!enriched.category) {
+      enriched.category = this.categorizeTransaction(enriched.rawMessage, enriched.merchant, enriched.type, sender).name;
+    }
+    this.applyCanonicalMerchant(enriched);
+
+    return enriched;
+  }
+
+  // "SHOPRITE ACCRA MALL" and "SHOPRITE-WESTHILLS" are both stored as "Shoprite"
+  private applyCanonicalMerchant(transaction: ParsedTransaction): void {
+    const merchant = findMerchant(this.merchants, transaction.merchant);
+    if (merchant) transaction.merchant = merchant.name;
+  }
+
+  // Delayed or batched SMS still carry the transaction date in the body, which wins over the receive time
+  private applyMessageDate(transaction: ParsedTransaction, message: string, sender: string, receivedAt: Date, trace?: ParseTrace): void {
+    const order: SMSDateOrder = smsTemplateRegistry.findBySender(sender, message)?.dateOrder
+      || (transaction.currency === 'USD' ? 'MDY' : 'DMY');
+    const messageDate = extractMessageDate(message, receivedAt, order);
+    if (!messageDate) return;
+
+    if (trace) trace.messageDate = messageDate.matched;
+    if (!messageDateDiffers(messageDate, receivedAt)) return;
+
+    transaction.date = messageDate.date.toISOString();
+    transaction.receivedAt = receivedAt.toISOString();
+  }
+
+  // One transaction per digest entry; a date on the line wins over the header date and the receive time
+  private parseDigest(message: string, sender: string, date: Date): ParsedTransaction[] | null {
+    const entries = splitDigest(message);
+    if (!entries) return null;
+
+    const template = smsTemplateRegistry.findBySender(sender, message);
+    const order: SMSDateOrder = template?.dateOrder || 'DMY';
+    const account = this.identifyAccount(message, sender);
+    const headerDate = extractMessageDate(message.split(/\r?\n|;/)[0], date, order);
+    const currency = template?.currency || this.detectCurrencyFromContext(message);
+
+    return entries.map(entry => {
+      const merchant = this.isValidMerchantName(entry.description) ? entry.description : undefined;
+      const entryDate = extractMessageDate(entry.text, date, order) || extractShortDate(entry.text, date, order) || headerDate;
+      const transaction: ParsedTransaction = {
+        amount: entry.amount,
+        currency: entry.currency || currency,
+        description: this.cleanDescription(entry.text),
+        merchant,
+        account: account?.name,
+        accountId: account?.id,
+        type: entry.type,
+        category: this.categorizeTransaction(entry.text, merchant, entry.type, sender).name,
+        date: date.toISOString(),
+        rawMessage: message,
+        reference: this.extractReference(entry.text),
+        templateId: template?.id,
+        digestLine: entry.line
+      };
+
+      if (entryDate && messageDateDiffers(entryDate, date)) {
+        transaction.date = entryDate.date.toISOString();
+        transaction.receivedAt = date.toISOString();
+      }
+      this.applyCanonicalMerchant(transaction);
+      return transaction;
+    });
+  }
+
+  private describeFilterRejection(filter: ParseFilterResult): string {
+    switch (filter.name) {
+      case 'promotional_score':
+        return `Looks promotional (promotional score ${filter.score})`;
+      case 'promotional_keyword':
+        return `Contains promotional wording "${filter.matched}"`;
+      case 'reminder_keyword':
+        return `Looks like a reminder, not a transaction ("${filter.matched}")`;
+      case 'failed_transaction':
+        return `Transaction did not go through ("${filter.matched}"), nothing recorded`;
+      case 'blocked_sender':
+        return `${filter.matched} is on your never-parse list`;
+      default:
+        return 'No strong transaction evidence found';
+    }
+  }
+
+  private evaluateFinancialSMS(message: string, sender: string): ParseFilterResult {
+    const messageText = message.toLowerCase();
+    const senderText = sender.toLowerCase();
+
+    // The user's sender list overrides the built-in filters, except that failed transactions are never recorded
+    const senderMode = findSenderMode(this.senders, sender);
+    if (senderMode === 'never') {
+      console.log('SMS rejected: Sender is blocked');
+      return { name: 'blocked_sender', passed: false, matched: sender };
+    }
+    if (senderMode === 'always') {
+      const failure = this.matchFailure(messageText);
+      return failure
+        ? { name: 'failed_transaction', passed: false, matched: failure }
+        : { name: 'allowed_sender', passed: true, matched: sender };
+    }
+    
+    // Check for promotional patterns (multiple promotional indicators = promotional message)
+    const promotionalScore = this.calculatePromotionalScore(messageText);
+    if (promotionalScore >= 2) {
+      console.log(`SMS rejected: High promotional score (${promotionalScore})`);
+      return { name: 'promotional_score', passed: false, score: promotionalScore };
+    }
+    
+    // First check for promotional/marketing indicators that disqualify the message
+    const promotionalKeywords = [
+      // Marketing terms
+      'offer', 'discount', 'promo', 'promotion', 'deal', 'save up to', 'get up to',
+      'limited time', 'hurry', 'act now', 'don\'t miss', 'exclusive', 'special offer',
+      'win', 'winner', 'congratulations', 'prize', 'reward points', 'loyalty',
+      'cashback offer', 'bonus points', 'earn points', 'redeem points',
+      
+      // Marketing actions
+      'visit', 'click', 'download', 'install', 'register', 'sign up', 'subscribe',
+      'call now', 'text back', 'reply', 'dial', 'sms', 'ussd', 'terms apply',
+      'terms and conditions', 't&c apply', 'participate', 'enter to win',
+      
+      // Promotional phrases
+      'up to', 'as low as', 'starting from', 'from just', 'only', 'just',
+      'free', 'complimentary', 'no cost', 'waived', 'zero', 'nil',
+      'upgrade', 'new product', 'new service', 'launch', 'introducing',
+      
+      // Marketing urgency
+      'expires', 'valid until', 'ends soon', 'last chance', 'final days',
+      'today only', 'this week only', 'weekend special',
+      
+      // Ghana-specific promotional phrases
+      'enjoy free', 'support you', 'take advantage', 'insurance for your',
+      'help you grow', 'woman in business', 'business coverage', 'assistance',
+      'calls on mondays', 'bonus with every purchase', 'whatsapp',
+
+      // French promotional phrases
+      'gagnez', 'tentez', 'jusqu\'à', 'profitez', 'offre', 'cadeau', 'gratuit',
+      'composez', 'téléchargez', 'cliquez', 'inscrivez'
+    ];
+    
+    // Check for promotional content. A loan "installment" is not an app "install"
+    const promotionalText = messageText.replace(/\binstall?ments?\b/g, '');
+    const promotionalKeyword = promotionalKeywords.find(keyword => promotionalText.includes(keyword));
+    
+    if (promotionalKeyword) {
+      console.log('SMS rejected: Contains promotional content');
+      return { name: 'promotional_keyword', passed: false, matched: promotionalKeyword, score: promotionalScore };
+    }
+    
+    // Check for reminder/notification messages (not actual transactions)
+    const reminderKeywords = [
+      'payment due date', 'due date is', 'your payment due', 'ensure you have',
+      'plan ahead', 'reminder', 'upcoming payment', 'balance reminder',
+      'halfway into', 'payment term', 'settle your balance', 'overdue',
+      'if you did not apply', 'please call', 'to report it',
+      'rappel', 'échéance'
+    ];
+    
+    const reminderKeyword = reminderKeywords.find(keyword => 
+      messageText.includes(keyword)
+    );
+    
+    if (reminderKeyword) {
+      console.log('SMS rejected: Payment reminder/notification message');
+      return { name: 'reminder_keyword', passed: false, matched: reminderKeyword, score: promotionalScore };
+    }
+    
+    const failure = this.matchFailure(messageText);
+    if (failure) {
+      console.log('SMS rejected: Failed transaction');
+      return { name: 'failed_transaction', passed: false, matched: failure, score: promotionalScore };
+    }
+    
+    // Enhanced financial transaction keywords (more specific)
+    const strongTransactionKeywords = [
+      // Actual transaction indicators
+      'transaction successful', 'transaction completed',
+      'payment received', 'payment sent', 'payment successful',
+      'transfer successful', 'transfer completed', 'transfer received',
+      'withdrawal successful', 'deposit successful',
+      'debited', 'credited', 'charged', 'refunded', 'reversed', 'reversal',
+      
+      // Account activity
+      'current balance', 'available balance', 'account balance', 'bal:', 'avail.bal',
+      'low balance', 'new m-pesa balance',
+      
+      // Transaction details
+      'amt:', 'amount:', 'acct:', 'desc:', 'ref:', 'transaction id', 'trans id',
+      'type: debit', 'type: credit', 'debit alert', 'credit alert',
+
+      // French
+      'vous avez reçu', 'vous avez envoyé', 'nouveau solde', 'solde disponible',
+      'débité', 'crédité', 'id transaction', 'retrait de', 'paiement de', 'effectué avec succès'
+    ];
+    
+    // Check for strong transaction indicators
+    const strongTransactionKeyword = strongTransactionKeywords.find(keyword => 
+      messageText.includes(keyword)
+    );
+    
+    if (strongTransactionKeyword) {
+      return { name: 'strong_transaction_keyword', passed: true, matched: strongTransactionKeyword, score: promotionalScore };
+    }
+    
+    // Trusted financial institutions (senders with a registered template)
+    const isTrustedSender = smsTemplateRegistry.isTrustedSender(senderText);
+    
+    // For trusted senders, we need additional transaction evidence
+    if (isTrustedSender) {
+      const transactionEvidence = [
+        // Amount patterns
+        /(?:ghs\.?\s*|₵\s*)([\d,]+(?:\.\d{2})?)/i,
+        /(?:kes|kshs?|ugx|ushs?|tzs|tshs?)\.?\s*([\d,]+(?:\.\d{2})?)/i,
+        /([\d.,\s]+)\s*(?:fcfa|f\s*cfa|xof|xaf)\b/i,
+        /amt[:\s]*([\d,]+(?:\.\d{2})?)/i,
+        
+        // Account references
+        /acct[:\s]*\d{4}/i,
+        /account.*\d{4}/i,
+        
+        // Transaction types
+        /debit|credit|withdraw|deposit|transfer|sent to|paid to|received/i,
+        
+        // Balance information
+        /balance[:\s]*(ghs|₵|kes|kshs?|ugx|ushs?|tzs|tshs?)/i
+      ];
+      
+      const transactionEvidencePattern = transactionEvidence.find(pattern => 
+        pattern.test(messageText)
+      );
+      
+      if (transactionEvidencePattern) {
+        return { name: 'trusted_sender_evidence', passed: true, matched: transactionEvidencePattern.source, score: promotionalScore };
+      }
+    }
+    
+    console.log('SMS rejected: No strong transaction evidence found');
+    return { name: 'no_transaction_evidence', passed: false, score: promotionalScore };
+  }
+
+  // A failed debit that was later reversed is handled as a reversal
+  private matchFailure(messageText: string): string | undefined {
+    const failureMatch = FAILURE_PATTERNS
+      .map(pattern => messageText.match(pattern))
+      .find(match => match !== null);
+
+    return failureMatch && !this.detectAdjustment(messageText) ? failureMatch[0] : undefined;
+  }
+
+  // Runs a single rule against a sample SMS for the rule editor, skipping the financial SMS filter
+  previewRule(message: string, rule: SMSRule, date: Date = new Date()): RulePreview {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(rule.pattern, 'i');
+    } catch (error) {
+      return { transaction: null, error: `Invalid pattern: ${(error as Error).message}` };
+    }
+
+    if (!regex.test(message)) {
+      return { transaction: null, error: 'Pattern does not match the sample SMS' };
+    }
+
+    const transaction = this.parseWithRule(message, rule, date);
+    if (!transaction) {
+      return { transaction: null, error: 'Pattern matched but no amount was captured. Add an (?<amount>...) group' };
+    }
+
+    return { transaction };
+  }
+
+  private parseWithRule(message: string, rule: SMSRule, date: Date, trace?: ParseTrace): ParsedTransaction | null {
+    try {
+      const regex = new RegExp(rule.pattern, 'i');
+      const match = message.match(regex);
+      
+      if (!match) return null;
+
+      const amountMatch = match[parseInt(rule.amountExtraction)] || match.groups?.amount;
+      const merchantMatch = rule.merchantExtraction ? 
+        (match[parseInt(rule.merchantExtraction)] || match.groups?.merchant) : undefined;
+
+      if (!amountMatch) return null;
+
+      // Rule groups often capture a bare number ("45.30"), so fall back to the SMS for the currency
+      let { amount, currency } = this.extractAmountAndCurrency(amountMatch);
+      if (amount === 0) {
+        amount = this.parseCapturedNumber(amountMatch);
+        currency = this.detectCurrencyFromContext(message);
+      }
+      if (amount === 0) return null;
+
+      const category = this.categories.find(c => c.id === rule.categoryId);
+      const account = rule.accountId ? this.accounts.find(a => a.id === rule.accountId) : undefined;
+      const balanceMatch = match.groups?.balance;
+      const referenceMatch = match.groups?.reference?.trim();
+
+      if (trace) trace.amountPattern = rule.pattern;
+
+      return {
+        amount,
+        currency,
+        description: this.cleanDescription(message),
+        merchant: merchantMatch?.trim() || this.extractMerchant(message),
+        account: account?.name,
+        accountId: account?.id,
+        type: rule.type || category?.type || 'expense',
+        category: category?.name || 'Other',
+        date: date.toISOString(),
+        rawMessage: message,
+        balance: balanceMatch ? this.parseCapturedNumber(balanceMatch) || undefined : this.extractBalance(message),
+        reference: referenceMatch || this.extractReference(message),
+        charges: this.extractCharges(message)
+      };
+    } catch (error) {
+      console.error('Error parsing with rule:', error);
+      return null;
+    }
+  }
+
+  private parseCapturedNumber(text: string): number {
+    const number = parseAmountNumber(text.replace(/[^\d.,]/g, ''));
+    return isNaN(number) ? 0 : number;
+  }
+
+  private parseWithTemplate(message: string, sender: string, template: SMSTemplate, date: Date, trace?: ParseTrace): ParsedTransaction | null {
+    try {
+      // Fee and levy amounts must not be mistaken for the principal, unless the SMS only reports a charge
+      const text = normalizeCFAAmounts(message);
+      let charges = this.extractCharges(text);
+      let amountMatch = smsTemplateRegistry.extract(template.extractors.amount, this.stripCharges(text), 'amount');
+      if (!amountMatch && charges) {
+        amountMatch = smsTemplateRegistry.extract(template.extractors.amount, text, 'amount');
+        charges = undefined;
+      }
+      if (!amountMatch) {
+        console.log('Template amount extractors did not match');
+        return null;
+      }
+
+      const currency = amountMatch.groups.currency?.toUpperCase() || template.currency;
+      const amount = parseAmountNumber(amountMatch.value, currency);
+      if (isNaN(amount) || !this.isValidTransactionAmount(amount, currency)) {
+        console.log('Template amount rejected:', amountMatch.value);
+        return null;
+      }
+
+      const type = this.determineTypeWithHints(message, template);
+
+      const merchantMatch = smsTemplateRegistry.extract(template.extractors.merchant, text, 'merchant');
+      const merchant = merchantMatch && this.isValidMerchantName(merchantMatch.value)
+        ? merchantMatch.value
+        : this.extractMerchant(text);
+
+      const balanceMatch = smsTemplateRegistry.extract(template.extractors.balance, text, 'balance');
+      const templateBalance = balanceMatch ? parseAmountNumber(balanceMatch.value, currency) : NaN;
+      const balance = !isNaN(templateBalance) ? templateBalance : this.extractBalance(text);
+
+      const referenceMatch = smsTemplateRegistry.extract(template.extractors.reference, text, 'reference');
+
+      const account = this.identifyAccount(message, sender);
+      const category = this.categorizeTransaction(message, merchant, type, sender);
+
+      const result: ParsedTransaction = {
+        amount,
+        currency,
+        description: this.cleanDescription(message),
+        merchant,
+        account: account?.name,
+        accountId: account?.id,
+        type,
+        category: category.name,
+        date: date.toISOString(),
+        rawMessage: message,
+        balance,
+        reference: referenceMatch?.value || this.extractReference(text),
+        templateId: template.id,
+        charges
+      };
+
+      if (trace) trace.amountPattern = amountMatch.pattern;
+
+      console.log('Template parsed transaction:', result);
+      return result;
+    } catch (error) {
+      console.error('Error parsing with template:', error);
+      return null;
+    }
+  }
+
+  private detectAdjustment(messageText: string): 'reversal' | 'refund' | undefined {
+    if (/\brevers(?:al|ed)\b/.test(messageText)) return 'reversal';
+    if (/\brefund(?:ed)?\b/.test(messageText)) return 'refund';
+    return undefined;
+  }
+
+  // The reference in a reversal or refund SMS points at the original transaction,
+  // so it is kept for linking instead of being stored as this transaction's own reference
+  private applyAdjustment(transaction: ParsedTransaction, adjustment: 'reversal' | 'refund', messageText: string): void {
+    transaction.status = adjustment;
+    transaction.type = /\b(?:debited|deducted|reversed)\s+from\b/.test(messageText) ? 'expense' : 'income';
+    transaction.originalReference = transaction.reference;
+    transaction.reference = undefined;
+  }
+
+  // Template type hints win when only one side matches; otherwise use the generic scoring
+  private determineTypeWithHints(message: string, template: SMSTemplate): 'income' | 'expense' {
+    const messageText = message.toLowerCase();
+    const incomeHit = template.typeHints?.income?.some(hint => messageText.includes(hint.toLowerCase())) || false;
+    const expenseHit = template.typeHints?.expense?.some(hint => messageText.includes(hint.toLowerCase())) || false;
+
+    if (incomeHit && !expenseHit) return 'income';
+    if (expenseHit && !incomeHit) return 'expense';
+
+    return this.determineTransactionType(message);
+  }
+
+  private parseGeneric(message: string, sender: string, date: Date, trace?: ParseTrace): ParsedTransaction | null {
+    // Fee and levy amounts must not be mistaken for the principal, unless the SMS only reports a charge
+    const text = normalizeCFAAmounts(message);
+    let charges = this.extractCharges(text);
+    let extracted = this.extractAmountAndCurrency(this.stripCharges(text));
+    if (extracted.amount === 0 && charges) {
+      extracted = this.extractAmountAndCurrency(text);
+      charges = undefined;
+    }
+    const { amount, currency, pattern } = extracted;
+    console.log('Extracted amount and currency:', { amount, currency });
+    
+    if (amount === 0) {
+      console.log('No amount found, parsing failed');
+      return null;
+    }
+
+    const type = this.determineTransactionType(message);
+    console.log('Transaction type:', type);
+    
+    const merchant = this.extractMerchant(text);
+    console.log('Extracted merchant:', merchant);
+    
+    const account = this.identifyAccount(message, sender);
+    console.log('Identified account:', account?.name);
+    
+    const category = this.categorizeTransaction(message, merchant, type, sender);
+    console.log('Categorized as:', category.name);
+
+    if (trace) trace.amountPattern = pattern;
+
+    const result = {
+      amount,
+      currency,
+      description: this.cleanDescription(message),
+      merchant,
+      account: account?.name,
+      accountId: account?.id,
+      type,
+      category: category.name,
+      date: date.toISOString(),
+      rawMessage: message,
+      balance: this.extractBalance(text),
+      reference: this.extractReference(text),
+      charges
+    };
+    
+    console.log('Final parsed transaction:', result);
+    return result;
+  }
+
+  private extractAmountAndCurrency(text: string): { amount: number; currency: string; pattern?: string } {
+    // Labelled figures first, so a balance, fee or limit quoted before the amount is not taken for it
+    const fcfaCurrency = this.detectCurrencyFromContext(text) === 'XAF' ? 'XAF' : 'XOF';
+    const amountTokens = tokenizeAmounts(text, { fcfaCurrency }).filter(token => token.role === 'amount');
+    for (const token of amountTokens) {
+      const currency = token.currency || this.detectCurrencyFromContext(text);
+      // The tokenizer already told it from the balance, fee and limit, so round figures are fine
+      if (this.isValidTransactionAmount(token.value, currency, true)) {
+        return { amount: token.value, currency, pattern: `amount token "${token.raw}"` };
+      }
+    }
+
+    // If no currency found, try to determine from context
+    const contextCurrency = this.detectCurrencyFromContext(text);
+    return { amount: 0, currency: contextCurrency };
+  }
+
+  // Running balance the bank reports after the transaction ("Current Balance: GHS1,250.45")
+  private extractBalance(text: string): number | undefined {
+    const balanceToken = tokenizeAmounts(text).find(token => token.role === 'balance');
+    if (balanceToken) return balanceToken.value;
+
+    const patterns = [
+      new RegExp(`(?:current|available|avail\\.?|ledger|closing|new|actual|wallet|account)\\s*(?:m-pesa\\s+|momo\\s+|wallet\\s+|cash\\s+)?bal(?:ance)?(?:\\s+is)?[:\\s]*${CURRENCY_PREFIX}([\\d,]+(?:\\.\\d{1,2})?)`, 'i'),
+      new RegExp(`\\bbal[:.\\s]+${CURRENCY_PREFIX}([\\d,]+(?:\\.\\d{1,2})?)`, 'i'),
+      new RegExp(`(?:nouveau\\s+solde|\\bsolde(?:\\s+(?:disponible|actuel))?)(?:\\s+est\\s+de)?[:\\s]*${CURRENCY_PREFIX}([\\d,]+(?:\\.\\d{1,2})?)`, 'i')
+    ];
+
+    for (const pattern of patterns) {
+      const match = text.match(pattern);
+      if (match) {
+        const balance = parseFloat(match[1].replace(/,/g, ''));
+        if (!isNaN(balance)) return balance;
+      }
+    }
+
+    return undefined;
+  }
+
+  // Fee, E-Levy and tax lines ("Fee charged: GHS0.75", "E-Levy: GHS1.00"); zero charges are ignored
+  private extractCharges(text: string): ParsedCharge[] | undefined {
+    const charges: ParsedCharge[] = [];
+
+    for (const { kind, label, pattern } of CHARGE_PATTERNS) {
+      const match = text.match(pattern);
+      if (!match) continue;
+
+      const amount = parseAmountNumber(match[1]);
+      if (!isNaN(amount) && amount > 0) {
+        charges.push({ kind, label, amount });
+      }
+    }
+
+    return charges.length > 0 ? charges : undefined;
+  }
+
+  private stripCharges(text: string): string {
+    return CHARGE_PATTERNS.reduce((stripped, { pattern }) => stripped.replace(new RegExp(pattern.source, 'gi'), ' '), text);
+  }
+
+  // Transaction id issued by the bank or wallet ("Trans ID: MOM240815.1234", "Ref: EB240312998")
+  private extractReference(text: string): string | undefined {
+    const value = '([A-Z0-9][A-Z0-9./-]{2,}[A-Z0-9])';
+    const patterns = [
+      /^([A-Z0-9]{10})\s+confirmed\b/,
+      new RegExp(`\\btrans(?:action)?\\.?\\s*id[:\\s#]+${value}`, 'i'),
+      new RegExp(`\\bref(?:erence)?(?:\\s*(?:no|number))?\\.?[:\\s#]+${value}`, 'i'),
+      new RegExp(`\\b(?:id\\s+(?:de\\s+)?transaction|r[ée]f(?:[ée]rence)?)[:\\s#]+${value}`, 'i')
+    ];
+
+    for (const pattern of patterns) {
+      const match = text.match(pattern);
+      // Free-text notes like "Reference: 1" or "ref RENT JUNE" are not transaction ids
+      if (match && /\d/.test(match[1])) {
+        return match[1];
+      }
+    }
+
+    return undefined;
+  }
+
+  private extractAmount(text: string): number {
+    const { amount } = this.extractAmountAndCurrency(text);
+    return amount;
+  }
+
+  private detectCurrencyFromContext(text: string): string {
+    const lowerText = text.toLowerCase();
+    
+    // Currency indicators in message content
+    const currencyClues = [
+      { keywords: ['ghana', 'accra', 'kumasi', 'tamale', 'gtbank', 'gcb', 'zenith-gh'], currency: 'GHS' },
+      { keywords: ['nigeria', 'lagos', 'abuja', 'naira', 'gtbank-ng', 'zenith-ng'], currency: 'NGN' },
+      { keywords: ['south africa', 'johannesburg', 'cape town', 'rand', 'absa', 'fnb'], currency: 'ZAR' },
+      { keywords: ['tanzania', 'dar es salaam', 'vodacom', 'tigo pesa'], currency: 'TZS' },
+      { keywords: ['uganda', 'kampala', 'ugx', 'ushs'], currency: 'UGX' },
+      { keywords: ['kenya', 'nairobi', 'mombasa', 'safaricom', 'm-pesa', 'mpesa', 'ksh'], currency: 'KES' },
+      { keywords: ['cameroun', 'cameroon', 'douala', 'yaoundé', 'gabon', 'libreville', 'brazzaville', 'tchad', 'xaf'], currency: 'XAF' },
+      { keywords: ['côte d\'ivoire', 'abidjan', 'sénégal', 'senegal', 'dakar', 'togo', 'lomé', 'lome', 'bénin', 'cotonou', 'bamako', 'ouagadougou', 'fcfa', 'xof'], currency: 'XOF' },
+      { keywords: ['united states', 'usa', 'america', 'dollars'], currency: 'USD' },
+      { keywords: ['europe', 'euro', 'germany', 'france', 'italy'], currency: 'EUR' },
+      { keywords: ['united kingdom', 'britain', 'uk', 'pounds', 'sterling'], currency: 'GBP' },
+      { keywords: ['canada', 'toronto', 'vancouver'], currency: 'CAD' },
+      { keywords: ['australia', 'sydney', 'melbourne'], currency: 'AUD' }
+    ];
+
+    for (const { keywords, currency } of currencyClues) {
+      if (keywords.some(keyword => lowerText.includes(keyword))) {
+        return currency;
+      }
+    }
+
+    // Default based on common African mobile money patterns
+    if (lowerText.includes('momo') || lowerText.includes('mobile money')) {
+      if (lowerText.includes('mtn') || lowerText.includes('vodafone') || lowerText.includes('airtel')) {
+        return 'GHS'; // Ghana mobile money providers
+      }
+    }
+
+    return 'GHS'; // Default fallback
+  }
+
+  // Labelled amounts skip the round-number checks meant for figures picked out of promotional text
+  private isValidTransactionAmount(amount: number, currency: string = 'GHS', labelled: boolean = false): boolean {
+    // Currency-specific validation ranges
+    const currencyLimits: {[key: string]: { min: number; max: number; suspiciousSmall: number[] }} = {
+      'USD': { 
+        min: 0.01, 
+        max: 500000, 
+        suspiciousSmall: [1, 5, 10, 20, 25, 50, 100] 
+      },
+      'EUR': { 
+        min: 0.01, 
+        max: 450000, 
+        suspiciousSmall: [1, 5, 10, 20, 25, 50, 100] 
+      },
+      'GBP': { 
+        min: 0.01, 
+        max: 400000, 
+        suspiciousSmall: [1, 5, 10, 20, 25, 50, 100] 
+      },
+      'GHS': { 
+        min: 1, 
+        max: 2000000, 
+        suspiciousSmall: [10, 20, 50, 100, 200, 500, 1000] 
+      },
+      'NGN': { 
+        min: 50, 
+        max: 100000000, 
+        suspiciousSmall: [100, 500, 1000, 2000, 5000, 10000] 
+      },
+      'ZAR': { 
+        min: 1, 
+        max: 5000000, 
+        suspiciousSmall: [10, 50, 100, 200, 500, 1000] 
+      },
+      'KES': { 
+        min: 10, 
+        max: 10000000, 
+        suspiciousSmall: [100, 500, 1000, 2000, 5000] 
+      },
+      'UGX': { 
+        min: 500, 
+        max: 100000000, 
+        suspiciousSmall: [1000, 5000, 10000, 50000] 
+      },
+      'TZS': { 
+        min: 100, 
+        max: 100000000, 
+        suspiciousSmall: [1000, 5000, 10000, 50000] 
+      },
+      'XOF': { 
+        min: 25, 
+        max: 50000000, 
+        suspiciousSmall: [100, 500] 
+      },
+      'XAF': { 
+        min: 25, 
+        max: 50000000, 
+        suspiciousSmall: [100, 500] 
+      },
+      'CAD': { 
+        min: 0.01, 
+        max: 700000, 
+        suspiciousSmall: [1, 5, 10, 20, 25, 50, 100] 
+      },
+      'AUD': { 
+        min: 0.01, 
+        max: 750000, 
+        suspiciousSmall: [1, 5, 10, 20, 25, 50, 100] 
+      }
+    };
+    
+    const limits = currencyLimits[currency] || currencyLimits['GHS'];
+    
+    // Too small for the currency
+    if (amount < limits.min) {
+      console.log(`Amount rejected: Too small for ${currency}:`, amount);
+      return false;
+    }
+    
+    // Suspicious small amounts that are common in promotional text for this currency
+    if (!labelled && limits.suspiciousSmall.includes(amount)) {
+      console.log(`Amount rejected: Suspicious promotional amount for ${currency}:`, amount);
+      return false;
+    }
+    
+    // Too large for the currency (likely account numbers, phone numbers, or fake promotional amounts)
+    if (amount > limits.max) {
+      console.log(`Amount rejected: Unrealistically large for ${currency}:`, amount);
+      return false;
+    }
+    
+    // Currency-specific round number patterns (common in promotional text)
+    const roundNumberThresholds: {[key: string]: { start: number; end: number; divisor: number }} = {
+      'USD': { start: 100, end: 1000, divisor: 100 },
+      'EUR': { start: 100, end: 1000, divisor: 100 },
+      'GBP': { start: 100, end: 1000, divisor: 100 },
+      'GHS': { start: 500, end: 5000, divisor: 500 },
+      'NGN': { start: 10000, end: 100000, divisor: 10000 },
+      'ZAR': { start: 1000, end: 10000, divisor: 1000 },
+      'KES': { start: 1000, end: 50000, divisor: 1000 },
+      'UGX': { start: 100000, end: 1000000, divisor: 100000 },
+      'TZS': { start: 100000, end: 1000000, divisor: 100000 },
+      'XOF': { start: 50000, end: 500000, divisor: 50000 },
+      'XAF': { start: 50000, end: 500000, divisor: 50000 },
+      'CAD': { start: 100, end: 1000, divisor: 100 },
+      'AUD': { start: 100, end: 1000, divisor: 100 }
+    };
+    
+    const roundThreshold = roundNumberThresholds[currency] || roundNumberThresholds['GHS'];
+    if (!labelled &&
+        amount >= roundThreshold.start && 
+        amount <= roundThreshold.end && 
+        amount % roundThreshold.divisor === 0) {
+      console.log(`Amount flagged: Round promotional amount for ${currency}:`, amount);
+      // Don't reject entirely, but flag for confidence scoring
+    }
+    
+    return true;
+  }
+
+  private calculateTransactionConfidence(
+    transaction: ParsedTransaction, 
+    originalMessage: string, 
+    sender: string,
+    labelledAmount: boolean,
+    factors?: ConfidenceFactor[]
+  ): number {
+    let confidence = 0;
+    const messageText = originalMessage.toLowerCase();
+    const senderText = sender.toLowerCase();
+
+    // Every adjustment is recorded so the parse trace can show the breakdown
+    const adjust = (label: string, delta: number) => {
+      confidence += delta;
+      factors?.push({ label, delta });
+    };
+    
+    // Base confidence for having parsed a transaction
+    adjust('Parsed a transaction', 0.3);
+    
+    // Confidence based on sender trustworthiness
+    if (findSenderMode(this.senders, sender) === 'always') {
+      adjust('Sender on your always-parse list', 0.2);
+    } else if (smsTemplateRegistry.isHighlyTrustedSender(senderText, originalMessage)) {
+      adjust('Highly trusted sender', 0.2);
+    }
+    
+    // Confidence based on transaction indicators
+    const strongIndicators = [
+      'transaction successful', 'payment received', 'payment sent',
+      'debited', 'credited', 'current balance', 'available balance',
+      'transaction id', 'ref:', 'acct:', 'new balance', 'new m-pesa balance',
+      'nouveau solde', 'solde disponible', 'id transaction', 'débité', 'crédité'
+    ];
+    
+    const indicatorMatches = strongIndicators.filter(indicator => 
+      messageText.includes(indicator)
+    ).length;
+    
+    if (indicatorMatches > 0) {
+      adjust(`${indicatorMatches} transaction indicator(s)`, Math.min(indicatorMatches * 0.1, 0.3));
+    }
+    
+    // Currency-aware amount validation
+    const currencyBounds: {[key: string]: { min: number; max: number }} = {
+      'USD': { min: 0.1, max: 50000 },
+      'EUR': { min: 0.1, max: 45000 },
+      'GBP': { min: 0.1, max: 40000 },
+      'GHS': { min: 1, max: 100000 },
+      'NGN': { min: 50, max: 50000000 },
+      'ZAR': { min: 1, max: 1000000 },
+      'KES': { min: 1, max: 10000000 },
+      'UGX': { min: 100, max: 100000000 },
+      'TZS': { min: 100, max: 100000000 },
+      'XOF': { min: 25, max: 50000000 },
+      'XAF': { min: 25, max: 50000000 },
+      'CAD': { min: 0.1, max: 70000 },
+      'AUD': { min: 0.1, max: 75000 }
+    };
+    
+    const bounds = currencyBounds[transaction.currency] || currencyBounds['GHS'];
+    if (transaction.amount >= bounds.min && transaction.amount <= bounds.max) {
+      adjust(`Amount within ${transaction.currency} bounds`, 0.1);
+    } else {
+      adjust(`Unrealistic ${transaction.currency} amount`, -0.2); // Penalty for unrealistic amounts for the currency
+    }
+    
+    // Currency-specific promotional amount patterns
+    const suspiciousAmountPatterns: {[key: string]: number[]} = {
+      'USD': [1, 5, 10, 20, 25, 50, 100],
+      'EUR': [1, 5, 10, 20, 25, 50, 100],
+      'GBP': [1, 5, 10, 20, 25, 50, 100],
+      'GHS': [10, 20, 50, 100, 200, 500, 1000],
+      'NGN': [100, 500, 1000, 2000, 5000, 10000],
+      'ZAR': [10, 50, 100, 200, 500, 1000],
+      'KES': [100, 500, 1000, 2000, 5000],
+      'UGX': [1000, 5000, 10000, 50000],
+      'TZS': [1000, 5000, 10000, 50000],
+      'XOF': [100, 500, 1000],
+      'XAF': [100, 500, 1000],
+      'CAD': [1, 5, 10, 20, 25, 50, 100],
+      'AUD': [1, 5, 10, 20, 25, 50, 100]
+    };
+    
+    const suspiciousAmounts = suspiciousAmountPatterns[transaction.currency] || suspiciousAmountPatterns['GHS'];
+    if (!labelledAmount && suspiciousAmounts.includes(transaction.amount)) {
+      adjust('Round promotional-style amount', -0.15); // Higher penalty for currency-specific promotional amounts
+    }
+    
+    // Explicit currency mention increases confidence
+    const currencyMentioned = messageText.includes(transaction.currency.toLowerCase()) ||
+                              this.hasCurrencySymbol(messageText, transaction.currency);
+    if (currencyMentioned) {
+      adjust('Currency mentioned explicitly', 0.1);
+    }
+    
+    // Confidence based on having structured transaction details
+    if (transaction.merchant) adjust('Merchant found', 0.05);
+    if (transaction.account) adjust('Account identified', 0.05);
+    
+    // Penalty for generic categories (suggests poor parsing)
+    if (transaction.category === 'Other' || transaction.category === 'Other Expense') {
+      adjust('Generic category', -0.1);
+    }
+    
+    // Confidence based on description quality
+    if (transaction.description.length > 20 && 
+        !transaction.description.includes('*')) {
+      adjust('Descriptive message', 0.05);
+    }
+    
+    return Math.max(0, Math.min(1, confidence));
+  }
+
+  private hasCurrencySymbol(text: string, currency: string): boolean {
+    const currencySymbols: {[key: string]: string} = {
+      'USD': '$',
+      'EUR': '€',
+      'GBP': '£',
+      'GHS': '₵',
+      'NGN': '₦',
+      'ZAR': 'R',
+      'KES': 'ksh',
+      'UGX': 'ush',
+      'TZS': 'tsh',
+      'XOF': 'fcfa',
+      'XAF': 'fcfa',
+      'CAD': '$',
+      'AUD': '$'
+    };
+    
+    const symbol = currencySymbols[currency];
+    return symbol ? text.includes(symbol) : false;
+  }
+
+  private determineTransactionType(message: string): 'income' | 'expense' {
+    const messageText = message.toLowerCase();
+    
+    // Enhanced loan detection with context analysis
+    const loanContexts = this.analyzeLoanContext(messageText);
+    
+    // Strong income indicators (these override other keywords)
+    const strongIncomeKeywords = [
+      'payment received', 'money received', 'received for', 'credited', 
+      'has sent you', 'sent you', 'you received', 'received from',
+      'salary', 'refund', 'cashback', 'type: credit', 'credit alert',
+      'deposit successful', 'transfer received', 'cash deposit',
+      
+      // Enhanced loan-specific income keywords with context
+      'loan was paid into', 'loan of', 'loan disbursement', 'loan approved',
+      'loan credited to', 'amount disbursed', 'funded by', 'loan facility',
+      'credit facility approved', 'overdraft facility', 'loan amount credited',
+      'disbursement successful', 'loan proceeds', 'advance payment received',
+
+      // French
+      'vous avez reçu', 'reçu de', 'crédité', 'dépôt de'
+    ];
+    
+    // Strong expense indicators
+    const strongExpenseKeywords = [
+      'payment sent', 'money sent', 'debited', 'withdraw', 'spent', 
+      'charged', 'purchase', 'type: debit', 'debit alert',
+      'withdrawal successful', 'pos transaction', 'atm withdrawal',
+      'bill payment', 'utility payment', 'subscription fee',
+      'transfer sent', 'payment made',
+
+      // French
+      'vous avez envoyé', 'débité', 'retrait', 'paiement de', 'achat', 'transfert de', 'payé'
+    ];
+    
+    // Context-aware loan payment vs loan receipt analysis
+    if (loanContexts.isLoanRelated) {
+      // If it's a loan being received (disbursement)
+      if (loanContexts.isLoanReceipt) {
+        console.log('Detected loan receipt - categorizing as income');
+        return 'income';
+      }
+      // If it's a loan payment (repayment)
+      if (loanContexts.isLoanPayment) {
+        console.log('Detected loan payment/repayment - categorizing as expense');
+        return 'expense';
+      }
+    }
+    
+    // Check strong income indicators first
+    for (const keyword of strongIncomeKeywords) {
+      if (messageText.includes(keyword)) {
+        return 'income';
+      }
+    }
+    
+    // Check strong expense indicators
+    for (const keyword of strongExpenseKeywords) {
+      if (messageText.includes(keyword)) {
+        return 'expense';
+      }
+    }
+    
+    // Enhanced context-based analysis
+    const contextScore = this.calculateTransactionTypeScore(messageText);
+    
+    // Fallback to general keywords with improved scoring
+    const generalIncomeKeywords = ['credit', 'deposit', 'received', 'transfer for', 'into your account'];
+    const generalExpenseKeywords = ['debit', 'payment', 'transfer to', 'from your account'];
+    
+    const incomeScore = generalIncomeKeywords.reduce((score, keyword) => 
+      messageText.includes(keyword) ? score + 1 : score, 0) + contextScore.income;
+    const expenseScore = generalExpenseKeywords.reduce((score, keyword) => 
+      messageText.includes(keyword) ? score + 1 : score, 0) + contextScore.expense;
+
+    return incomeScore > expenseScore ? 'income' : 'expense';
+  }
+  
+  // Only a credit can be a disbursement and only a debit a repayment
+  private detectLoan(message: string, sender: string, type: 'income' | 'expense', date: Date): LoanDetails | undefined {
+    const context = this.analyzeLoanContext(message.toLowerCase());
+    const event = type === 'income' && context.isLoanReceipt ? 'disbursement'
+      : type === 'expense' && context.isLoanPayment ? 'repayment'
+      : undefined;
+    if (!event) return undefined;
+
+    const template = smsTemplateRegistry.findBySender(sender, message);
+    return {
+      event,
+      lender: template?.bank || sender.trim(),
+      ...extractLoanTerms(message, date, template?.dateOrder)
+    };
+  }
+
+  private analyzeLoanContext(messageText: string): {
+    isLoanRelated: boolean;
+    isLoanReceipt: boolean;
+    isLoanPayment: boolean;
+    confidence: number;
+  } {
+    let isLoanRelated = false;
+    let isLoanReceipt = false;
+    let isLoanPayment = false;
+    let confidence = 0;
+    
+    // Loan-related keywords
+    const loanKeywords = [
+      'loan', 'credit facility', 'overdraft', 'advance', 'financing',
+      'disbursement', 'facility', 'credit line'
+    ];
+    
+    // Check if message is loan-related
+    for (const keyword of loanKeywords) {
+      if (messageText.includes(keyword)) {
+        isLoanRelated = true;
+        confidence += 0.3;
+        break;
+      }
+    }
+    
+    if (isLoanRelated) {
+      // Loan receipt indicators (money coming in)
+      const loanReceiptIndicators = [
+        'loan was paid into', 'loan of', 'loan disbursement', 'loan credited',
+        'amount disbursed', 'loan facility approved', 'loan proceeds',
+        'disbursement successful', 'credit facility', 'funded by',
+        'loan amount credited', 'advance payment received'
+      ];
+      
+      // Loan payment indicators (money going out - repayment)
+      const loanPaymentIndicators = [
+        'loan payment', 'loan repayment', 'installment payment', 'emi payment',
+        'loan installment', 'monthly payment', 'repay loan', 'loan due',
+        'payment towards loan', 'loan settlement', 'principal payment',
+        'interest payment', 'loan servicing'
+      ];
+      
+      // Check for loan receipt
+      for (const indicator of loanReceiptIndicators) {
+        if (messageText.includes(indicator)) {
+          isLoanReceipt = true;
+          confidence += 0.4;
+          break;
+        }
+      }
+      
+      // Check for loan payment (only if not already identified as receipt)
+      if (!isLoanReceipt) {
+        for (const indicator of loanPaymentIndicators) {
+          if (messageText.includes(indicator)) {
+            isLoanPayment = true;
+            confidence += 0.4;
+            break;
+          }
+        }
+      }
+      
+      // Additional context clues
+      if (messageText.includes('credited') || messageText.includes('received')) {
+        isLoanReceipt = true;
+        confidence += 0.2;
+      } else if (messageText.includes('debited') || messageText.includes('paid')) {
+        isLoanPayment = true;
+        confidence += 0.2;
+      }
+    }
+    
+    return {
+      isLoanRelated,
+      isLoanReceipt,
+      isLoanPayment,
+      confidence: Math.min(confidence, 1.0)
+    };
+  }
+  
+  private calculateTransactionTypeScore(messageText: string): {
+    income: number;
+    expense: number;
+  } {
+    let incomeScore = 0;
+    let expenseScore = 0;
+    
+    // Income context indicators
+    const incomeContexts = [
+      { phrase: 'money into', weight: 2 },
+      { phrase: 'received from', weight: 2 },
+      { phrase: 'sent to you', weight: 2 },
+      { phrase: 'credit to', weight: 1.5 },
+      { phrase: 'deposit into', weight: 1.5 },
+      { phrase: 'balance increased', weight: 1 }
+    ];
+    
+    // Expense context indicators
+    const expenseContexts = [
+      { phrase: 'money from', weight: 2 },
+      { phrase: 'sent from', weight: 2 },
+      { phrase: 'payment to', weight: 2 },
+      { phrase: 'debit from', weight: 1.5 },
+      { phrase: 'withdrawn from', weight: 1.5 },
+      { phrase: 'balance reduced', weight: 1 }
+    ];
+    
+    // Calculate income score
+    for (const context of incomeContexts) {
+      if (messageText.includes(context.phrase)) {
+        incomeScore += context.weight;
+      }
+    }
+    
+    // Calculate expense score
+    for (const context of expenseContexts) {
+      if (messageText.includes(context.phrase)) {
+        expenseScore += context.weight;
+      }
+    }
+    
+    return { income: incomeScore, expense: expenseScore };
+  }
+
+  private calculatePromotionalScore(messageText: string): number {
+    let score = 0;
+    
+    // Marketing calls-to-action (high weight)
+    const marketingActions = ['dial', 'call', 'text', 'visit', 'download', 'click', 'whatsapp'];
+    score += marketingActions.filter(action => messageText.includes(action)).length * 2;
+    
+    // Business/service promotion indicators
+    const businessPromo = ['support you', 'help you', 'for your business', 'woman in business'];
+    score += businessPromo.filter(phrase => messageText.includes(phrase)).length * 1.5;
+    
+    // Product/service offers
+    const offerWords = ['free', 'bonus', 'enjoy', 'take advantage', 'insurance'];
+    score += offerWords.filter(word => messageText.includes(word)).length;
+    
+    // Contact information presence (phone numbers, URLs)
+    if (/\b0\d{9}\b/.test(messageText)) score += 1.5; // Ghana phone number
+    if (/http[s]?:\/\//.test(messageText)) score += 1.5; // URL
+    if (/#\d+#/.test(messageText)) score += 1; // USSD code
+    
+    // Assistance/help desk language
+    if (messageText.includes('assistance') || messageText.includes('need help')) score += 1;
+    
+    return score;
+  }
+
+  private extractMerchant(message: string): string | undefined {
+    // Enhanced patterns to extract merchant names - covers Ghana, Nigeria, South Africa formats
+    const patterns = [
+      // MOMO format: "Payment received for GHS 123.00 from CHRIS ADJEI DEBRAH"
+      /(?:from|to)\s+([A-Z][A-Z\s]+?)(?:\s+current\s+balance|\s+transaction|\s*\.|$)/i,
+      // Ghana specific: "Wallet to Bank Transfer for 233546945817"
+      /(?:transfer for|to)\s+(\d{12})/i,
+      // Nigeria format: "Transfer to JOHN DOE via NRB123456789"
+      /(?:transfer to|payment to)\s+([A-Z][A-Z\s]+?)(?:\s+via|\s+using|\s*\.|$)/i,
+      // Bank transfer formats
+      /desc[:\s]*([^\n\r]+?)(?:\s+trans|\s+id|$)/i,
+      /libell[ée][:\s]*([^.\n\r]+)/i,
+      /(?:beneficiary|recipient)[:\s]+([A-Z][A-Z0-9\s&.-]+?)(?:\s|$)/i,
+      // POS and ATM formats
+      /(?:at|@)\s+([A-Z][A-Z0-9\s&.-]+?)(?:\s+on|\s+dated|\s*\.|$)/i,
+      // Standard patterns
+      /(?:to|from)\s+([A-Z][A-Z0-9\s&.-]+?)(?:\s+on|\s+dated|\s*\.|$)/i,
+      /(?:merchant|vendor|payee)[:\s]*([A-Z][A-Z0-9\s&.-]+?)(?:\s|$)/i,
+      // Mobile money specific
+      /(?:sent to|received from)\s+([A-Z][A-Z\s]+?)(?:\s+\d{10}|\s*\.|$)/i,
+      // Hubtel format: "KWAME ASANTE 233244567890 has sent you GHS 50.00"
+      /^([A-Z][A-Z\s]+?)\s+(?:\d{10,12}\s+)?has\s+sent\s+you\b/i,
+      // South African formats
+      /(?:payment from|transfer from)\s+([A-Z][A-Z\s]+?)(?:\s+ref|\s*\.|$)/i,
+      // French formats: "reçu 10000 FCFA de KOUADIO JEAN (0707...)", "à AMINATA DIOP", "chez AGENT COCODY"
+      /(?:\bde|(?:^|\s)à|\bchez)\s+([A-Z][A-Z'\s-]+?)(?:\s*\(|\s+\d|\s+le\s+\d|\s+effectu|\s*\.|$)/
+    ];
+
+    for (const pattern of patterns) {
+      const match = message.match(pattern);
+      if (match && match[1]) {
+        const merchant = match[1].trim();
+        // Filter out common false positives
+        if (this.isValidMerchantName(merchant)) {
+          return merchant;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  private isValidMerchantName(name: string): boolean {
+    const lowerName = name.toLowerCase();
+    
+    // Filter out common false positives
+    const invalidMerchants = [
+      'current balance', 'available balance', 'transaction', 'trans id',
+      'reference number', 'ref no', 'account', 'acct', 'balance',
+      'successful', 'failed', 'completed', 'alert', 'notification',
+      'bank', 'momo', 'mobile money', 'wallet', 'transfer', 'payment',
+      'debit', 'credit', 'deposit', 'withdrawal', 'charge', 'fee'
+    ];
+    
+    if (invalidMerchants.some(invalid => containsKeyword(lowerName, invalid))) {
+      return false;
+    }
+    
+    // Must be at least 2 characters and contain letters
+    if (name.length < 2 || !/[a-zA-Z]/.test(name)) {
+      return false;
+    }
+    
+    // Filter out purely numeric values (likely account numbers)
+    if (/^\d+$/.test(name)) {
+      return false;
+    }
+    
+    return true;
+  }
+
+  private identifyAccount(message: string, sender: string): Account | undefined {
+    const messageText = message.toLowerCase();
+    const senderText = sender.toLowerCase();
+
+    // An account or card number in the message tells apart several accounts at the same bank
+    const suffix = extractAccountSuffix(message);
+    const suffixesOf = (account: Account) => account.smsKeywords
+      .map(suffixFromKeyword)
+      .filter((keywordSuffix): keywordSuffix is string => keywordSuffix !== undefined);
+    if (suffix) {
+      const bySuffix = this.accounts.filter(account => suffixesOf(account).some(keywordSuffix => suffixesMatch(keywordSuffix, suffix)));
+      const fromSender = bySuffix.find(account =>
+        account.smsKeywords.some(keyword => !suffixFromKeyword(keyword) && senderText.includes(keyword.toLowerCase()))
+      );
+      if (fromSender || bySuffix[0]) return fromSender || bySuffix[0];
+    }
+    // An account tied to other numbers is not the one this message is about
+    const accounts = suffix
+      ? this.accounts.filter(account => suffixesOf(account).length === 0)
+      : this.accounts;
+    
+    // Enhanced bank/service identification patterns
+    const bankIdentifiers = [
+      // Ghana banks, mobile money and payment processors come from the template registry
+      ...smsTemplateRegistry.getTemplates().map(template => ({
+        keywords: template.accountKeywords,
+        accountTypes: [template.accountType]
+      })),
+      
+      // Nigeria banks
+      { keywords: ['gtbank-ng', 'gtb nigeria'], accountTypes: ['savings', 'current'] },
+      { keywords: ['zenith-ng', 'zenith nigeria'], accountTypes: ['savings', 'current'] },
+      { keywords: ['uba-nigeria', 'uba ng'], accountTypes: ['savings', 'current'] },
+      
+      // South Africa banks
+      { keywords: ['fnb', 'first national'], accountTypes: ['cheque', 'savings'] },
+      { keywords: ['absa-sa', 'absa south africa'], accountTypes: ['cheque', 'savings'] },
+      { keywords: ['standard bank', 'standardbank'], accountTypes: ['cheque', 'savings'] },
+      { keywords: ['nedbank'], accountTypes: ['cheque', 'savings'] }
+    ];
+    
+    // First try to match by sender with enhanced patterns
+    let matchedAccount = accounts.find(account => 
+      account.smsKeywords.some(keyword => {
+        const keywordLower = keyword.toLowerCase();
+        return senderText.includes(keywordLower) || 
+               bankIdentifiers.some(bank => 
+                 bank.keywords.some(bankKeyword => 
+                   senderText.includes(bankKeyword) && keywordLower.includes(bankKeyword)
+                 )
+               );
+      })
+    );
+    
+    // Enhanced account number pattern matching
+    if (!matchedAccount) {
+      // Various account number formats
+      const accountPatterns = [
+        /acct[:\s]*(\d{4})\*+\d{2}/i,
+        /account[:\s]*(\d{4})\*+\d{4}/i,
+        /a\/c[:\s]*(\d{4})\*+\d{2}/i,
+        /account ending in (\d{4})/i,
+        /card ending (\d{4})/i
+      ];
+      
+      for (const pattern of accountPatterns) {
+        const accountMatch = messageText.match(pattern);
+        if (accountMatch) {
+          const accountSuffix = accountMatch[1];
+          matchedAccount = accounts.find(account =>
+            account.smsKeywords.some(keyword => {
+              const keywordLower = keyword.toLowerCase();
+              return keywordLower.includes(accountSuffix) || 
+                     messageText.includes(keywordLower);
+            })
+          );
+          
+          if (matchedAccount) break;
+        }
+      }
+    }
+    
+    // Fallback: match by service type if no direct account match
+    if (!matchedAccount) {
+      for (const bank of bankIdentifiers) {
+        if (bank.keywords.some(keyword => senderText.includes(keyword))) {
+          // Look for an account that might be associated with this bank
+          matchedAccount = accounts.find(account =>
+            account.smsKeywords.some(keyword =>
+              bank.keywords.some(bankKeyword => 
+                keyword.toLowerCase().includes(bankKeyword)
+              )
+            )
+          );
+          
+          if (matchedAccount) break;
+        }
+      }
+    }
+    
+    return matchedAccount;
+  }
+
+  private findOverrideCategory(merchant: string | undefined, type: 'income' | 'expense'): Category | undefined {
+    if (!merchant) return undefined;
+
+    const merchantKey = normalizeMerchantKey(merchant);
+    const override = this.merchantOverrides.find(o => o.merchantKey === merchantKey && o.type === type);
+    if (!override) return undefined;
+
+    return this.categories.find(c => c && c.type === type && c.name === override.category);
+  }
+
+  private categorizeTransaction(message: string, merchant: string | undefined, type: 'income' | 'expense', sender?: string): Category {
+    const messageText = message.toLowerCase();
+    const merchantText = merchant?.toLowerCase() || '';
+    const senderText = sender?.toLowerCase() || '';
+
+    // Ensure categories are loaded
+    if (!this.categories || this.categories.length === 0) {
+      // Return a default category if none are loaded
+      return {
+        id: 'default',
+        name: type === 'income' ? 'Other Income' : 'Other Expense',
+        type: type,
+        color: type === 'income' ? '#27AE60' : '#95A5A6',
+        icon: type === 'income' ? 'plus-circle' : 'more-horizontal',
+        keywords: [],
+        createdAt: new Date().toISOString()
+      };
+    }
+
+    // A category the user chose for this merchant wins over keyword scoring
+    const knownMerchant = findMerchant(this.merchants, merchant);
+    const overrideCategory = this.findOverrideCategory(merchant, type)
+      || (knownMerchant && this.findOverrideCategory(knownMerchant.name, type));
+    if (overrideCategory) {
+      console.log(`Categorized as ${overrideCategory.name} from merchant override`);
+      return overrideCategory;
+    }
+
+    const merchantCategory = knownMerchant?.defaultCategory
+      ? this.categories.find(c => c && c.type === type && c.name === knownMerchant.defaultCategory)
+      : undefined;
+    if (merchantCategory) {
+      console.log(`Categorized as ${merchantCategory.name} from merchant ${knownMerchant!.name}`);
+      return merchantCategory;
+    }
+
+    // Special handling for MOMO/Mobile Money transfers
+    if (senderText.includes('momo') || messageText.includes('mobile money') || 
+        messageText.includes('payment received') || messageText.includes('payment sent') ||
+        messageText.includes('you have sent') ||
+        messageText.includes('has sent you') || messageText.includes('sent you') ||
+        messageText.includes('via hbtl.co') || messageText.includes('hubtel')) {
+      const transferCategory = this.categories.find(c => 
+        c && c.type === type && c.name.toLowerCase().includes('transfer')
+      );
+      if (transferCategory) {
+        console.log('Categorized as Transfer due to MOMO/mobile money keywords');
+        return transferCategory;
+      }
+    }
+
+    // Find the best matching category based on keywords
+    const relevantCategories = this.categories.filter(c => c && c.type === type);
+    let bestMatch: Category | undefined;
+    let bestScore = 0;
+
+    console.log('Categorizing transaction:', { messageText, merchantText, type });
+
+    for (const category of relevantCategories) {
+      if (!category || !category.keywords) continue;
+      
+      let score = 0;
+      const matchedKeywords: string[] = [];
+      
+      for (const keyword of category.keywords) {
+        const keywordLower = keyword.toLowerCase();
+        if (messageText.includes(keywordLower) || merchantText.includes(keywordLower)) {
+          score++;
+          matchedKeywords.push(keyword);
+          
+          // Give extra weight to more specific keywords
+          if (keywordLower.length > 5) {
+            score += 0.5;
+          }
+          
+          // Give extra weight to exact phrase matches
+          if (keywordLower.includes(' ') && messageText.includes(keywordLower)) {
+            score += 1;
+          }
+        }
+      }
+      
+      console.log(`Category: ${category.name}, Score: ${score}, Matched: ${matchedKeywords.join(', ')}`);
+      
+      if (score > bestScore) {
+        bestScore = score;
+        bestMatch = category;
+      }
+    }
+
+    console.log(`Best match: ${bestMatch?.name} with score: ${bestScore}`);
+
+    // Fallback to default category
+    const fallbackCategory = bestMatch || 
+      this.categories.find(c => c && c.name === (type === 'income' ? 'Other Income' : 'Other Expense')) ||
+      this.categories.find(c => c && c.type === type) ||
+      this.categories[0];
+      
+    // Final safety check
+    if (!fallbackCategory) {
+      return {
+        id: 'fallback',
+        name: type === 'income' ? 'Other Income' : 'Other Expense',
+        type: type,
+        color: type === 'income' ? '#27AE60' : '#95A5A6',
+        icon: type === 'income' ? 'plus-circle' : 'more-horizontal',
+        keywords: [],
+        createdAt: new Date().toISOString()
+      };
+    }
+    
+    return fallbackCategory;
+  }
+
+  private cleanDescription(message: string): string {
+    // Remove sensitive information and clean up the message
+    return message
+      .replace(/\b\d{4}\*+\d{4}\b/g, '**** ****') // Mask card numbers
+      .replace(/\b\d{10,}\b/g, '**********') // Mask long numbers
+      .replace(/ref\s*no[:\s]+\w+/gi, '') // Remove reference numbers
+      .replace(/available\s+balance[:\s]+[\d,.]+/gi, '') // Remove balance info
+      .trim()
+      .substring(0, 200); // Limit description length
+  }
+}
@@ -0,0 +1,92 @@
+import { databaseService, SMSSender, SMSSenderMode } from '../database/schema';
+import { findSenderMode, normalizeSenderKey } from './smsParsingEngine';
+
+// A sender seen in processed SMS, with the user's setting if there is one
+export interface SenderSummary {
+  sender: string;
+  messageCount: number;
+  transactionCount: number;
+  lastSeen?: string;
+  mode?: SMSSenderMode;
+}
+
+export class SMSSenderService {
+  private senders: SMSSender[] | null = null;
+
+  async getSenders(): Promise<SMSSender[]> {
+    if (this.senders) return this.senders;
+
+    try {
+      const db = await databaseService.getDatabase();
+      if (!db) return [];
+
+      this.senders = await db.getAllAsync('SELECT * FROM sms_senders ORDER BY sender') as SMSSender[];
+      return this.senders;
+    } catch (error) {
+      console.error('Error loading SMS senders:', error);
+      return [];
+    }
+  }
+
+  async getSenderMode(sender: string): Promise<SMSSenderMode | undefined> {
+    return findSenderMode(await this.getSenders(), sender);
+  }
+
+  // `null` puts the sender back on the built-in filters
+  async setSenderMode(sender: string, mode: SMSSenderMode | null): Promise<void> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const senderKey = normalizeSenderKey(sender);
+    if (!senderKey) throw new Error('Sender is required');
+
+    if (mode === null) {
+      await db.runAsync('DELETE FROM sms_senders WHERE senderKey = ?', [senderKey]);
+    } else {
+      const id = `sender_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      const now = new Date().toISOString();
+      await db.runAsync(
+        `INSERT INTO sms_senders (id, sender, senderKey, mode, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(senderKey) DO UPDATE SET mode = excluded.mode, updatedAt = excluded.updatedAt`,
+        [id, sender.trim(), senderKey, mode, now, now]
+      );
+    }
+
+    this.senders = null;
+  }
+
+  // Every SMS sender in processed_sms (emails are left out), plus configured senders not seen yet
+  async getSeenSenders(): Promise<SenderSummary[]> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const rows = await db.getAllAsync(
+      `SELECT p.sender,
+              COUNT(DISTINCT p.smsId) as messageCount,
+              COUNT(l.transactionId) as transactionCount,
+              MAX(p.date) as lastSeen
+       FROM processed_sms p
+       LEFT JOIN processed_sms_transactions l ON l.smsId = p.smsId
+       WHERE p.sender NOT LIKE '%@%'
+       GROUP BY p.sender
+       ORDER BY messageCount DESC`
+    ) as { sender: string; messageCount: number; transactionCount: number; lastSeen: string }[];
+
+    const senders = await this.getSenders();
+    const summaries: SenderSummary[] = rows.map(row => ({
+      ...row,
+      mode: findSenderMode(senders, row.sender)
+    }));
+
+    for (const configured of senders) {
+      if (!summaries.some(summary => normalizeSenderKey(summary.sender) === configured.senderKey)) {
+        summaries.push({ sender: configured.sender, messageCount: 0, transactionCount: 0, mode: configured.mode });
+      }
+    }
+
+    return summaries;
+  }
+}
+
+export const smsSenderService = new SMSSenderService();
@@ -0,0 +1,216 @@
+import ghanaTemplates from './templates/ghana.json';
+import eastAfricaTemplates from './templates/eastAfrica.json';
+import francophoneTemplates from './templates/francophone.json';
+import nigeriaTemplates from './templates/nigeria.json';
+import southAfricaTemplates from './templates/southAfrica.json';
+import type { SMSDateOrder } from './smsDates';
+
+export type SMSTemplateAccountType = 'bank' | 'mobile_money' | 'payment_gateway';
+
+export interface SMSTemplateExtractors {
+  // Regex sources with an `amount` named group (optionally a `currency` group)
+  amount: string[];
+  // Regex sources with a `merchant` named group
+  merchant?: string[];
+  // Regex sources with a `balance` named group
+  balance?: string[];
+  // Regex sources with a `reference` named group
+  reference?: string[];
+}
+
+export interface SMSTemplate {
+  id: string;
+  bank: string;
+  country: string;
+  currency: string;
+  // Other ways the SMS writes the currency ("Ksh" for KES), used to tell apart senders shared across countries
+  currencyAliases?: string[];
+  accountType: SMSTemplateAccountType;
+  trustLevel: 'high' | 'standard';
+  // Regex sources matched case-insensitively against the SMS sender
+  senderPatterns: string[];
+  // The exact ids the institution sends from; when listed, other senders matching a pattern are lookalikes
+  senderIds?: string[];
+  // Hosts the institution's own links point to; other links in its credit alerts are a scam signal
+  linkDomains?: string[];
+  // Keywords used to link the template to a user account
+  accountKeywords: string[];
+  typeHints?: {
+    income?: string[];
+    expense?: string[];
+  };
+  // Order of all-numeric dates in the SMS body, DMY when omitted
+  dateOrder?: SMSDateOrder;
+  extractors: SMSTemplateExtractors;
+}
+
+const ACCOUNT_TYPES: SMSTemplateAccountType[] = ['bank', 'mobile_money', 'payment_gateway'];
+const DATE_ORDERS: SMSDateOrder[] = ['DMY', 'MDY', 'YMD'];
+
+// "MTN-MoMo", "MTN MoMo" and "mtnmomo" are the same sender id
+const senderIdKey = (sender: string): string => sender.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class SMSTemplateRegistry {
+  private templates: SMSTemplate[] = [];
+  private regexCache: Map<string, RegExp> = new Map();
+
+  constructor(builtInTemplates: unknown[] = []) {
+    this.loadFromJSON(builtInTemplates);
+  }
+
+  register(template: SMSTemplate): void {
+    this.validateTemplate(template);
+
+    // Re-registering an id replaces the previous definition
+    this.templates = this.templates.filter(existing => existing.id !== template.id);
+    this.templates.push(template);
+  }
+
+  registerAll(templates: SMSTemplate[]): void {
+    templates.forEach(template => this.register(template));
+  }
+
+  // Accepts parsed JSON (array of templates or a single template)
+  loadFromJSON(json: unknown): number {
+    const entries = Array.isArray(json) ? json : [json];
+    entries.forEach(entry => this.register(entry as SMSTemplate));
+    return entries.length;
+  }
+
+  getTemplates(): SMSTemplate[] {
+    return [...this.templates];
+  }
+
+  getTemplate(id: string): SMSTemplate | undefined {
+    return this.templates.find(template => template.id === id);
+  }
+
+  // "MobileMoney" and "AirtelMoney" send from the same id in several countries, so when the message
+  // is known the template whose currency it quotes wins; otherwise the first registered one does
+  findBySender(sender: string, message?: string): SMSTemplate | undefined {
+    const candidates = this.templates.filter(template =>
+      template.senderPatterns.some(pattern => this.getRegex(pattern).test(sender))
+    );
+    if (candidates.length > 1 && message) {
+      const quoted = candidates.find(template => this.quotesCurrency(template, message));
+      if (quoted) return quoted;
+    }
+    return candidates[0];
+  }
+
+  isTrustedSender(sender: string): boolean {
+    return this.findBySender(sender) !== undefined;
+  }
+
+  // A lookalike of a listed sender id ("GTBank-Alerts") gets no extra trust
+  isHighlyTrustedSender(sender: string, message?: string): boolean {
+    const template = this.findBySender(sender, message);
+    return template?.trustLevel === 'high' && !this.isLookalikeSender(template, sender);
+  }
+
+  // Matches one of the template's sender patterns without being one of its listed sender ids
+  isLookalikeSender(template: SMSTemplate, sender: string): boolean {
+    if (!template.senderIds) return false;
+
+    const key = senderIdKey(sender);
+    return !template.senderIds.some(id => senderIdKey(id) === key);
+  }
+
+  // The institution an SMS names in its body, for alerts that arrive from a phone number
+  findMentioned(message: string): SMSTemplate | undefined {
+    return this.templates.find(template =>
+      [template.bank, ...template.accountKeywords].some(keyword =>
+        this.getRegex(`(?:^|[^a-z])${escapeRegex(keyword)}(?:[^a-z]|$)`).test(message)
+      )
+    );
+  }
+
+  private quotesCurrency(template: SMSTemplate, message: string): boolean {
+    return [template.currency, ...(template.currencyAliases || [])].some(code =>
+      this.getRegex(`(?:^|[^a-z])${code}\\.?\\s*\\d`).test(message)
+    );
+  }
+
+  // Returns the first named group captured by any of the patterns
+  extract(patterns: string[] | undefined, text: string, group: string): { value: string; pattern: string; groups: Record<string, string> } | null {
+    if (!patterns) return null;
+
+    for (const pattern of patterns) {
+      const match = text.match(this.getRegex(pattern));
+      const value = match?.groups?.[group];
+      if (value && value.trim()) {
+        return { value: value.trim(), pattern, groups: match.groups as Record<string, string> };
+      }
+    }
+
+    return null;
+  }
+
+  private getRegex(pattern: string): RegExp {
+    let regex = this.regexCache.get(pattern);
+    if (!regex) {
+      regex = new RegExp(pattern, 'i');
+      this.regexCache.set(pattern, regex);
+    }
+    return regex;
+  }
+
+  private validateTemplate(template: SMSTemplate): void {
+    if (!template || typeof template !== 'object') {
+      throw new Error('SMS template must be an object');
+    }
+
+    const label = template.id || 'unknown';
+
+    if (!template.id || !template.bank || !template.currency) {
+      throw new Error(`SMS template ${label} is missing id, bank or currency`);
+    }
+    if (!ACCOUNT_TYPES.includes(template.accountType)) {
+      throw new Error(`SMS template ${label} has invalid accountType: ${template.accountType}`);
+    }
+    if (template.currencyAliases !== undefined && !Array.isArray(template.currencyAliases)) {
+      throw new Error(`SMS template ${label} has invalid currencyAliases`);
+    }
+    if (template.senderIds !== undefined && !Array.isArray(template.senderIds)) {
+      throw new Error(`SMS template ${label} has invalid senderIds`);
+    }
+    if (template.linkDomains !== undefined && !Array.isArray(template.linkDomains)) {
+      throw new Error(`SMS template ${label} has invalid linkDomains`);
+    }
+    if (template.dateOrder !== undefined && !DATE_ORDERS.includes(template.dateOrder)) {
+      throw new Error(`SMS template ${label} has invalid dateOrder: ${template.dateOrder}`);
+    }
+    if (!Array.isArray(template.senderPatterns) || template.senderPatterns.length === 0) {
+      throw new Error(`SMS template ${label} needs at least one sender pattern`);
+    }
+    if (!template.extractors || !Array.isArray(template.extractors.amount) || template.extractors.amount.length === 0) {
+      throw new Error(`SMS template ${label} needs at least one amount extractor`);
+    }
+
+    const patterns = [
+      ...template.senderPatterns,
+      ...template.extractors.amount,
+      ...(template.extractors.merchant || []),
+      ...(template.extractors.balance || []),
+      ...(template.extractors.reference || [])
+    ];
+
+    for (const pattern of patterns) {
+      try {
+        this.getRegex(pattern);
+      } catch (error) {
+        throw new Error(`SMS template ${label} has invalid pattern: ${pattern}`);
+      }
+    }
+
+    if (!Array.isArray(template.accountKeywords)) {
+      template.accountKeywords = [];
+    }
+  }
+}
+
+export const smsTemplateRegistry = new SMSTemplateRegistry([
+  ...ghanaTemplates, ...eastAfricaTemplates, ...francophoneTemplates, ...nigeriaTemplates, ...southAfricaTemplates
+]);
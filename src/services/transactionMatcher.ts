@@ -0,0 +1,98 @@
+import { databaseService, Transaction, TransactionEvidence, TransactionSourceType } from '../database/schema';
+import { ParsedTransaction } from './smsParser';
+import { compareCandidate, isBetterMatch, CrossSourceMatch, REFERENCE_WINDOW_DAYS } from './crossSourceMatch';
+
+export type { CrossSourceMatch } from './crossSourceMatch';
+
+export class TransactionMatcher {
+  // The transaction another source already recorded for this payment (see compareCandidate)
+  async findMatch(
+    transaction: ParsedTransaction,
+    source: TransactionSourceType,
+    excludeIds: string[] = []
+  ): Promise<CrossSourceMatch | null> {
+    // Reversals and refunds are matched to their original by the parser instead
+    if (transaction.status) return null;
+
+    try {
+      const db = await databaseService.getDatabase();
+      if (!db) return null;
+
+      const windowMs = REFERENCE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+      const date = new Date(transaction.date).getTime();
+      const excluded = excludeIds.length > 0 ? `AND id NOT IN (${excludeIds.map(() => '?').join(', ')})` : '';
+
+      // A transaction that already has evidence from this source belongs to a different payment
+      const candidates = await db.getAllAsync(
+        `SELECT * FROM transactions
+         WHERE source != ? AND source != 'manual'
+           AND type = ?
+           AND ABS(amount - ?) < 0.005
+           AND IFNULL(currency, 'GHS') = ?
+           AND parentTransactionId IS NULL
+           AND date BETWEEN ? AND ?
+           AND id NOT IN (SELECT transactionId FROM transaction_evidence WHERE source = ?)
+           ${excluded}`,
+        [source, transaction.type, transaction.amount, transaction.currency,
+         new Date(date - windowMs).toISOString(), new Date(date + windowMs).toISOString(),
+         source, ...excludeIds]
+      ) as Transaction[];
+
+      let best: CrossSourceMatch | null = null;
+      for (const candidate of candidates) {
+        const match = compareCandidate(transaction, candidate);
+        if (match && (!best || isBetterMatch(match, best))) best = match;
+      }
+
+      return best;
+    } catch (error) {
+      console.error('Error looking for a cross-source match:', error);
+      return null;
+    }
+  }
+
+  // Records the second alert against the transaction instead of saving a copy
+  async attachEvidence(
+    match: CrossSourceMatch,
+    transaction: ParsedTransaction,
+    source: TransactionSourceType,
+    message?: { id?: string; sender?: string }
+  ): Promise<void> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const id = `evidence_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    await db.runAsync(
+      `INSERT INTO transaction_evidence (id, transactionId, source, messageId, sender, matchedOn, reportedAt, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, match.transactionId, source, message?.id || null, message?.sender || null,
+       JSON.stringify(match.matchedOn), transaction.date, new Date().toISOString()]
+    );
+
+    // The first alert may not have quoted the card or account number
+    if (transaction.accountSuffix) {
+      await db.runAsync(
+        'UPDATE transactions SET accountSuffix = IFNULL(accountSuffix, ?) WHERE id = ?',
+        [transaction.accountSuffix, match.transactionId]
+      );
+    }
+  }
+
+  async getEvidence(transactionId: string): Promise<TransactionEvidence[]> {
+    try {
+      const db = await databaseService.getDatabase();
+      if (!db) return [];
+
+      const rows = await db.getAllAsync(
+        'SELECT * FROM transaction_evidence WHERE transactionId = ? ORDER BY reportedAt',
+        [transactionId]
+      );
+      return rows.map((row: any) => ({ ...row, matchedOn: JSON.parse(row.matchedOn) }));
+    } catch (error) {
+      console.error('Error loading transaction evidence:', error);
+      return [];
+    }
+  }
+}
+
+export const transactionMatcher = new TransactionMatcher();
@@ -0,0 +1,247 @@
+import * as Notifications from 'expo-notifications';
+import { databaseService, TransactionSourceType } from '../database/schema';
+import { FEES_CATEGORY } from '../database/defaultCategories';
+import { smsParserService, ParsedTransaction } from './smsParser';
+import { budgetService } from './budgetService';
+import { transferService } from './transferService';
+import { transactionMatcher } from './transactionMatcher';
+import { accountDiscoveryService } from './accountDiscoveryService';
+import { loanService } from './loanService';
+
+// A message's id within its source (stored as processed_sms.smsId) and who sent it
+export interface SourceMessageIdentity {
+  id: string;
+  sender: string;
+}
+
+// Somewhere transactions come from: SMS, email, a statement import. The pipeline does the
+// enrichment, dedupe, saving and budget updates, so a new source only implements these.
+export interface TransactionSource<TMessage> {
+  type: TransactionSourceType;
+  // Messages received since the given time
+  fetch(since: Date): Promise<TMessage[]>;
+  identify(message: TMessage): SourceMessageIdentity;
+  // Transactions found in the message, empty when it holds none
+  parse(message: TMessage): Promise<ParsedTransaction[]>;
+  // Records the message as processed; called before its transactions are linked to it
+  save(message: TMessage, transactions: PipelineTransaction[]): Promise<void>;
+}
+
+export interface PipelineTransaction {
+  transaction: ParsedTransaction;
+  transactionId: string;
+  isDuplicate: boolean; // Matched an already stored transaction instead of saving a new one
+  matchedOn?: string[]; // Set when the match was another source's alert for the same payment
+  isTransfer: boolean;
+}
+
+export interface SourceSyncResult<TMessage> {
+  processed: number;
+  transactionsCreated: number;
+  errors: number;
+  created: { message: TMessage; transactions: PipelineTransaction[] }[];
+}
+
+export class TransactionPipeline {
+  // Fetches and ingests every message not processed yet
+  async sync<TMessage>(source: TransactionSource<TMessage>, since: Date): Promise<SourceSyncResult<TMessage>> {
+    const result: SourceSyncResult<TMessage> = { processed: 0, transactionsCreated: 0, errors: 0, created: [] };
+
+    for (const message of await source.fetch(since)) {
+      try {
+        if (await this.isProcessed(source.identify(message).id)) continue;
+
+        const transactions = (await this.ingest(source, message)).filter(item => !item.isDuplicate);
+        if (transactions.length > 0) {
+          result.created.push({ message, transactions });
+          result.transactionsCreated += transactions.length;
+        }
+        result.processed++;
+      } catch (error) {
+        console.error(`Error processing ${source.type} message:`, error);
+        result.errors++;
+      }
+    }
+
+    return result;
+  }
+
+  async isProcessed(messageId: string): Promise<boolean> {
+    try {
+      const db = await databaseService.getDatabase();
+      if (!db) return false;
+
+      const existing = await db.getFirstAsync('SELECT id FROM processed_sms WHERE smsId = ?', [messageId]);
+      return !!existing;
+    } catch (error) {
+      console.error('Error checking if message is processed:', error);
+      return false;
+    }
+  }
+
+  // Parses one message and records its transactions, linked back to the message
+  async ingest<TMessage>(source: TransactionSource<TMessage>, message: TMessage): Promise<PipelineTransaction[]> {
+    const { id, sender } = source.identify(message);
+    const transactions = await this.record(await source.parse(message), source.type, sender, id);
+
+    await source.save(message, transactions);
+    for (const item of transactions) {
+      await this.linkMessage(id, item.transactionId, item.transaction.digestLine ?? 0);
+    }
+
+    return transactions;
+  }
+
+  // Enrich, dedupe, save, detect transfers and update budgets, whatever the source
+  async record(
+    parsed: ParsedTransaction[],
+    source: TransactionSourceType,
+    sender: string,
+    messageId?: string
+  ): Promise<PipelineTransaction[]> {
+    await smsParserService.refreshParsingData();
+
+    const recorded: PipelineTransaction[] = [];
+    for (const parsedTransaction of parsed) {
+      const transaction = smsParserService.enrichTransaction(parsedTransaction, sender);
+
+      const linkedIds = recorded.map(item => item.transactionId);
+
+      // The same payment alerted by another source (GTBank sends an SMS and an email) becomes
+      // evidence on the transaction already recorded
+      const match = await transactionMatcher.findMatch(transaction, source, linkedIds);
+      if (match) {
+        await transactionMatcher.attachEvidence(match, transaction, source, { id: messageId, sender });
+        recorded.push({ transaction, transactionId: match.transactionId, isDuplicate: true, matchedOn: match.matchedOn, isTransfer: false });
+        console.log(`Matched ${source} alert to transaction ${match.transactionId} on ${match.matchedOn.join(', ')}`);
+        continue;
+      }
+
+      // A resent message, or a digest entry already recorded from its own alert,
+      // points at the existing transaction
+      const duplicateId = await smsParserService.findDuplicateTransaction(transaction, linkedIds);
+      if (duplicateId) {
+        recorded.push({ transaction, transactionId: duplicateId, isDuplicate: true, isTransfer: false });
+        console.log('Duplicate transaction, skipping:', transaction.reference || transaction.amount);
+        continue;
+      }
+
+      const transactionId = await smsParserService.saveTransaction(transaction, source);
+
+      // An account number no account claims yet is offered as a new account
+      await accountDiscoveryService.observe(transaction, sender);
+
+      // Disbursements open a loan and repayments are linked to one
+      await loanService.recordTransaction(transactionId, transaction);
+
+      // A debit/credit pair between the user's own accounts is a transfer, not income or spending
+      const transferId = await transferService.detectTransfer(transactionId);
+
+      // Linking a transfer already recounted the budgets
+      if (!transferId) {
+        await this.updateBudgets(transaction);
+      }
+
+      recorded.push({ transaction, transactionId, isDuplicate: false, isTransfer: !!transferId });
+      console.log(`Transaction from ${source} saved:`, transactionId);
+    }
+
+    return recorded;
+  }
+
+  // processed_sms keeps the first transaction; processed_sms_transactions holds every one
+  async linkMessage(messageId: string, transactionId: string, lineIndex: number): Promise<void> {
+    try {
+      const db = await databaseService.getDatabase();
+      if (!db) return;
+
+      await db.runAsync(
+        'UPDATE processed_sms SET transactionId = IFNULL(transactionId, ?) WHERE smsId = ?',
+        [transactionId, messageId]
+      );
+      await db.runAsync(
+        `INSERT OR IGNORE INTO processed_sms_transactions (smsId, transactionId, lineIndex, createdAt)
+         VALUES (?, ?, ?, ?)`,
+        [messageId, transactionId, lineIndex, new Date().toISOString()]
+      );
+    } catch (error) {
+      console.error('Error linking processed message:', error);
+    }
+  }
+
+  private async updateBudgets(transaction: ParsedTransaction): Promise<void> {
+    // A reversal cancels an expense that was already counted, so recount instead
+    if (transaction.status === 'reversal') {
+      try {
+        await budgetService.recalculateAllBudgets();
+      } catch (error) {
+        console.error('Error recalculating budgets after reversal:', error);
+      }
+      return;
+    }
+
+    // Fees count against the Fees & Charges budget, even on incoming transfers
+    const spending = (transaction.charges || []).map(charge => ({ category: FEES_CATEGORY, amount: charge.amount }));
+    if (transaction.type === 'expense') {
+      spending.unshift({ category: transaction.category, amount: transaction.amount });
+    }
+    if (spending.length === 0) return;
+
+    const db = await databaseService.getDatabase();
+    if (!db) return;
+
+    try {
+      for (const item of spending) {
+        // Find active budgets for this category
+        const budgets = await db.getAllAsync(
+          'SELECT * FROM budgets WHERE category = ? AND isActive = 1 AND date(?) BETWEEN startDate AND endDate',
+          [item.category, transaction.date.split('T')[0]]
+        );
+
+        // Update spent amounts
+        for (const budget of budgets as any[]) {
+          const newSpent = budget.spent + item.amount;
+          await db.runAsync(
+            'UPDATE budgets SET spent = ?, updatedAt = ? WHERE id = ?',
+            [newSpent, new Date().toISOString(), budget.id]
+          );
+
+          // Check if budget is exceeded
+          if (newSpent > budget.amount) {
+            await this.sendBudgetAlert(budget, newSpent);
+          } else if (newSpent / budget.amount >= 0.8) {
+            await this.sendBudgetWarning(budget, newSpent);
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error updating budgets:', error);
+    }
+  }
+
+  private async sendBudgetAlert(budget: any, spent: number): Promise<void> {
+    const overspent = spent - budget.amount;
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: '🚨 Budget Exceeded',
+        body: `You've overspent on ${budget.name} by ₵${overspent.toLocaleString()}`,
+        data: { budgetId: budget.id, type: 'budget_alert' },
+      },
+      trigger: null,
+    });
+  }
+
+  private async sendBudgetWarning(budget: any, spent: number): Promise<void> {
+    const percentage = Math.round((spent / budget.amount) * 100);
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: '⚠️ Budget Warning',
+        body: `You've used ${percentage}% of your ${budget.name} budget`,
+        data: { budgetId: budget.id, type: 'budget_warning' },
+      },
+      trigger: null,
+    });
+  }
+}
+
+export const transactionPipeline = new TransactionPipeline();
@@ -0,0 +1,36 @@
+// A transfer between the user's own accounts is stored one of two ways: a manual entry is a
+// single 'transfer' row, and a detected pair keeps its debit and credit legs (income/expense)
+// linked by transferId. These helpers let lists and charts treat both the same.
+
+import type { Transaction, TransactionType } from '../database/schema';
+
+type TransferFields = Pick<Transaction, 'type' | 'transferId'>;
+
+export function isTransfer(transaction: TransferFields): boolean {
+  return transaction.type === 'transfer' || !!transaction.transferId;
+}
+
+// The type a transaction is listed and filtered under
+export function displayType(transaction: TransferFields): TransactionType {
+  return isTransfer(transaction) ? 'transfer' : transaction.type;
+}
+
+// One row per transfer for totals: the manual entry, or the debit leg of a detected pair
+export function isCountedTransfer(transaction: TransferFields): boolean {
+  return transaction.type === 'transfer' || (!!transaction.transferId && transaction.type === 'expense');
+}
+
+// Where the money went; a detected pair takes the destination from its credit leg
+export function transferRoute(
+  transaction: Pick<Transaction, 'id' | 'type' | 'transferId' | 'account' | 'fromAccount' | 'toAccount'>,
+  transactions: Pick<Transaction, 'id' | 'transferId' | 'account'>[]
+): { fromAccount?: string; toAccount?: string } {
+  if (transaction.type === 'transfer' || !transaction.transferId) {
+    return { fromAccount: transaction.fromAccount, toAccount: transaction.toAccount };
+  }
+
+  const otherLeg = transactions.find(t => t.transferId === transaction.transferId && t.id !== transaction.id);
+  return transaction.type === 'expense'
+    ? { fromAccount: transaction.account, toAccount: otherLeg?.account }
+    : { fromAccount: otherLeg?.account, toAccount: transaction.account };
+}
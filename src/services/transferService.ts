@@ -0,0 +1,192 @@
+import { databaseService, Transaction, Transfer } from '../database/schema';
+import { TRANSFER_CATEGORY } from '../database/defaultCategories';
+import { budgetService } from './budgetService';
+import { accountService } from './accountService';
+
+// A MoMo debit and the bank credit it produces rarely arrive more than a couple of hours apart
+const TRANSFER_WINDOW_MINUTES = 180;
+
+export interface NewTransfer {
+  amount: number;
+  currency: string;
+  fromAccountId: string;
+  toAccountId: string;
+  description: string;
+  date: string;
+}
+
+export class TransferService {
+  // Records a single 'transfer' transaction between two existing accounts and moves the amount
+  // between their balances. The transaction keeps the account names, as SMS transactions do.
+  async createTransfer(transfer: NewTransfer): Promise<string> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    if (transfer.fromAccountId === transfer.toAccountId) throw new Error('Choose two different accounts');
+    const fromAccount = await accountService.getAccount(transfer.fromAccountId);
+    const toAccount = await accountService.getAccount(transfer.toAccountId);
+    if (!fromAccount || !toAccount) throw new Error('Account not found');
+
+    const id = `txn_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    const now = new Date().toISOString();
+
+    await db.runAsync(
+      `INSERT INTO transactions
+       (id, amount, currency, description, category, type, source, date, account, fromAccount, toAccount, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?, 'transfer', 'manual', ?, ?, ?, ?, ?, ?)`,
+      [id, transfer.amount, transfer.currency, transfer.description, TRANSFER_CATEGORY, transfer.date,
+       fromAccount.name, fromAccount.name, toAccount.name, now, now]
+    );
+    await accountService.applyTransfer(fromAccount.id, toAccount.id, transfer.amount);
+
+    return id;
+  }
+
+  // Moves the money of a 'transfer' transaction that is about to be deleted back. An account
+  // deleted since has no balance left to restore.
+  async revertTransfer(transaction: Transaction): Promise<void> {
+    if (transaction.type !== 'transfer' || !transaction.fromAccount || !transaction.toAccount) return;
+
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const accounts = await db.getAllAsync(
+      'SELECT id, name FROM accounts WHERE name IN (?, ?)',
+      [transaction.fromAccount, transaction.toAccount]
+    ) as { id: string; name: string }[];
+    const fromAccount = accounts.find(account => account.name === transaction.fromAccount);
+    const toAccount = accounts.find(account => account.name === transaction.toAccount);
+    if (!fromAccount || !toAccount) {
+      console.warn('Transfer account no longer exists, balances left unchanged:', transaction.id);
+      return;
+    }
+
+    await accountService.applyTransfer(toAccount.id, fromAccount.id, transaction.amount);
+  }
+
+  // Opposite-direction transaction with the same amount and currency in another of the user's accounts
+  async findTransferMatch(transaction: Transaction): Promise<Transaction | null> {
+    if (transaction.type === 'transfer' || !transaction.account || transaction.parentTransactionId || transaction.transferId || transaction.loanId) return null;
+    if (transaction.status && transaction.status !== 'completed') return null;
+
+    const db = await databaseService.getDatabase();
+    if (!db) return null;
+
+    const windowDays = TRANSFER_WINDOW_MINUTES / (24 * 60);
+    const match = await db.getFirstAsync(
+      `SELECT * FROM transactions
+       WHERE id != ?
+         AND type = ?
+         AND ABS(amount - ?) < 0.005
+         AND IFNULL(currency, 'GHS') = ?
+         AND account IS NOT NULL AND account != ?
+         AND transferId IS NULL AND loanId IS NULL
+         AND parentTransactionId IS NULL
+         AND IFNULL(status, 'completed') = 'completed'
+         AND ABS(julianday(date) - julianday(?)) <= ?
+       ORDER BY ABS(julianday(date) - julianday(?))
+       LIMIT 1`,
+      [transaction.id, transaction.type === 'income' ? 'expense' : 'income', transaction.amount,
+       transaction.currency || 'GHS', transaction.account, transaction.date, windowDays, transaction.date]
+    ) as Transaction | null;
+
+    return match;
+  }
+
+  // Links a newly saved transaction to its other leg, if there is one
+  async detectTransfer(transactionId: string): Promise<string | null> {
+    try {
+      const db = await databaseService.getDatabase();
+      if (!db) return null;
+
+      const transaction = await db.getFirstAsync(
+        'SELECT * FROM transactions WHERE id = ?',
+        [transactionId]
+      ) as Transaction | null;
+      if (!transaction) return null;
+
+      const match = await this.findTransferMatch(transaction);
+      if (!match) return null;
+
+      return await this.linkTransfer(transaction, match);
+    } catch (error) {
+      console.error('Error detecting transfer:', error);
+      return null;
+    }
+  }
+
+  // Pairs up unmatched transactions already in the database, e.g. after processing SMS history
+  async scanForTransfers(): Promise<number> {
+    const db = await databaseService.getDatabase();
+    if (!db) return 0;
+
+    const candidates = await db.getAllAsync(
+      `SELECT * FROM transactions
+       WHERE type = 'expense' AND account IS NOT NULL AND transferId IS NULL
+         AND parentTransactionId IS NULL AND IFNULL(status, 'completed') = 'completed'
+       ORDER BY date`
+    ) as Transaction[];
+
+    let linked = 0;
+    for (const candidate of candidates) {
+      const match = await this.findTransferMatch(candidate);
+      if (match) {
+        await this.linkTransfer(candidate, match, false);
+        linked++;
+      }
+    }
+
+    if (linked > 0) await budgetService.recalculateAllBudgets();
+    console.log(`Linked ${linked} internal transfers`);
+    return linked;
+  }
+
+  async linkTransfer(first: Transaction, second: Transaction, recalculate: boolean = true): Promise<string> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    const [from, to] = first.type === 'expense' ? [first, second] : [second, first];
+    const id = `transfer_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    const now = new Date().toISOString();
+
+    await db.runAsync(
+      `INSERT INTO transfers (id, fromTransactionId, toTransactionId, fromAccount, toAccount, amount, currency, date, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, from.id, to.id, from.account!, to.account!, from.amount,
+       from.currency || 'GHS', from.date, now]
+    );
+    await db.runAsync(
+      'UPDATE transactions SET transferId = ?, updatedAt = ? WHERE id IN (?, ?)',
+      [id, now, from.id, to.id]
+    );
+
+    // The debit already counted against a budget before it was matched
+    if (recalculate) await budgetService.recalculateAllBudgets();
+
+    console.log(`Linked transfer ${from.account} → ${to.account}: ${from.amount}`);
+    return id;
+  }
+
+  async getTransfer(transferId: string): Promise<Transfer | null> {
+    const db = await databaseService.getDatabase();
+    if (!db) return null;
+
+    return await db.getFirstAsync('SELECT * FROM transfers WHERE id = ?', [transferId]) as Transfer | null;
+  }
+
+  // "Not a transfer": both legs count as income and expense again
+  async unlinkTransfer(transferId: string): Promise<void> {
+    const db = await databaseService.getDatabase();
+    if (!db) throw new Error('Database not available');
+
+    await db.runAsync(
+      'UPDATE transactions SET transferId = NULL, updatedAt = ? WHERE transferId = ?',
+      [new Date().toISOString(), transferId]
+    );
+    await db.runAsync('DELETE FROM transfers WHERE id = ?', [transferId]);
+
+    await budgetService.recalculateAllBudgets();
+  }
+}
+
+export const transferService = new TransferService();